@@ -0,0 +1,180 @@
+import type { CachedResponse, ResponseCacheOptions, ResponseCacheStore } from './types.ts'
+
+/** Cached listings of feeds, including their counters, entries and the OPML export */
+const FEEDS = /^\/v1\/(feeds|export|categories\/\d+\/feeds)/
+const CATEGORIES = /^\/v1\/categories/
+/** Cached listings depending on entries or their status */
+const ENTRIES = /^\/v1\/(entries|feeds\/(\d+\/entries|counters)|categories(\/\d+\/entries|\?))/
+const USERS = /^\/v1\/(users|me)/
+
+/** Paths whose responses are cached; other requests, such as health probes, always reach the server */
+const CACHEABLE = [FEEDS, CATEGORIES, ENTRIES, USERS]
+/** Cacheable-looking paths that are never cached, since requesting them has side effects */
+const UNCACHEABLE = /^\/v1\/entries\/\d+\/fetch-content/
+
+/**
+ * Cached paths invalidated by a change, by path of the changing request. The first
+ * matching rule applies; other changes invalidate everything.
+ */
+const INVALIDATIONS: [RegExp, RegExp[]][] = [
+  [/^\/v1\/discover/, []],
+  [/^\/v1\/(entries|flush-history|(feeds|categories|users)\/\d+\/mark-all-as-read)/, [ENTRIES]],
+  [/^\/v1\/(feeds|categories|import)/, [FEEDS, CATEGORIES, ENTRIES]],
+  [USERS, [USERS]],
+]
+
+/**
+ * Computes the SHA-256 digest of a string.
+ * @param value - String to digest
+ * @returns Promise resolving to the lowercase hexadecimal digest
+ */
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Checks whether the response of a path may be cached.
+ * @param path - API path, with its query string
+ * @returns Whether the response may be cached
+ */
+function isCacheable(path: string): boolean {
+  return !UNCACHEABLE.test(path) && CACHEABLE.some(pattern => pattern.test(path))
+}
+
+/**
+ * Response cache store keeping responses in memory, lost when the process exits.
+ */
+export class MemoryCacheStore implements ResponseCacheStore {
+  private responses = new Map<string, CachedResponse>()
+
+  /**
+   * Reads a response.
+   * @param key - Key of the response
+   * @returns Promise resolving to the response, or undefined if it is not stored
+   */
+  async get(key: string): Promise<CachedResponse | undefined> {
+    return this.responses.get(key)
+  }
+
+  /**
+   * Stores a response.
+   * @param key - Key of the response
+   * @param response - Response to store
+   */
+  async set(key: string, response: CachedResponse): Promise<void> {
+    this.responses.set(key, response)
+  }
+
+  /**
+   * Removes a response.
+   * @param key - Key of the response
+   */
+  async delete(key: string): Promise<void> {
+    this.responses.delete(key)
+  }
+
+  /**
+   * Lists the stored keys.
+   * @returns Promise resolving to the keys
+   */
+  async keys(): Promise<string[]> {
+    return Array.from(this.responses.keys())
+  }
+}
+
+/**
+ * Caches GET responses of a client, revalidating them with their ETag or Last-Modified
+ * header, and invalidates them after changes made through the client.
+ */
+export class ResponseCache {
+  /** Prefix of the keys: the SHA-256 digest of the credentials, then the base URL */
+  private prefix: Promise<string>
+  private store: ResponseCacheStore
+  private ttl: number
+
+  /**
+   * Creates a response cache.
+   * @param baseUrl - Base URL of the client, prefixed to the keys
+   * @param credentials - Credentials of the client, so that clients sharing a store do not
+   * see each other's responses; only their digest is part of the keys
+   * @param options - Optional store and time to live
+   */
+  constructor(baseUrl: string, credentials: string, options: ResponseCacheOptions = {}) {
+    this.prefix = sha256(credentials).then(digest => `${digest}@${baseUrl}`)
+    this.store = options.store ?? new MemoryCacheStore()
+    this.ttl = options.ttl ?? 5000
+  }
+
+  /**
+   * Reads the cached response of a path.
+   * @param path - API path, with its query string
+   * @returns Promise resolving to the response and whether it can be used without a request
+   */
+  async get(path: string): Promise<{ response: CachedResponse; fresh: boolean } | undefined> {
+    if (!isCacheable(path)) {
+      return undefined
+    }
+    const response = await this.store.get((await this.prefix) + path)
+    if (!response) {
+      return undefined
+    }
+    const hasValidators = response.etag !== undefined || response.lastModified !== undefined
+    return { response, fresh: !hasValidators && Date.now() - response.storedAt < this.ttl }
+  }
+
+  /**
+   * Stores the response of a path.
+   * @param path - API path, with its query string
+   * @param body - Response body
+   * @param headers - Response headers, holding the validators
+   */
+  async set(path: string, body: string, headers: Headers): Promise<void> {
+    if (!isCacheable(path)) {
+      return
+    }
+    await this.store.set((await this.prefix) + path, {
+      body,
+      etag: headers.get('ETag') ?? undefined,
+      lastModified: headers.get('Last-Modified') ?? undefined,
+      storedAt: Date.now(),
+    })
+  }
+
+  /**
+   * Marks a cached response as revalidated by the server.
+   * @param path - API path, with its query string
+   * @param response - Cached response
+   */
+  async revalidated(path: string, response: CachedResponse): Promise<void> {
+    await this.store.set((await this.prefix) + path, { ...response, storedAt: Date.now() })
+  }
+
+  /**
+   * Removes the cached responses affected by a change.
+   * @param path - API path of the changing request
+   */
+  async invalidate(path: string): Promise<void> {
+    const rule = INVALIDATIONS.find(([pattern]) => pattern.test(path))
+    await this.remove(key => !rule || rule[1].some(pattern => pattern.test(key)))
+  }
+
+  /**
+   * Removes all cached responses of the client.
+   */
+  async clear(): Promise<void> {
+    await this.remove(() => true)
+  }
+
+  /**
+   * Removes the cached responses of the client matching a predicate.
+   * @param predicate - Function receiving the API path of each cached response
+   */
+  private async remove(predicate: (path: string) => boolean): Promise<void> {
+    const prefix = await this.prefix
+    const keys = (await this.store.keys()).filter(
+      key => key.startsWith(`${prefix}/`) && predicate(key.slice(prefix.length))
+    )
+    await Promise.all(keys.map(key => this.store.delete(key)))
+  }
+}
@@ -0,0 +1,645 @@
+import { parseArgs, type ParseArgsConfig } from 'node:util'
+import { MinifluxClient } from './client.ts'
+import {
+  MinifluxAuthenticationError,
+  MinifluxForbiddenError,
+  MinifluxNetworkError,
+  MinifluxNotFoundError,
+} from './errors.ts'
+import type { BulkUpdateReport, Entry, Feed, FetchFunction, Filter, User } from './types.ts'
+
+/**
+ * Exit codes of the `miniflux` command.
+ */
+export const EXIT_CODES = {
+  /** The command succeeded */
+  OK: 0,
+  /** The server rejected the request, or another error occurred */
+  ERROR: 1,
+  /** Invalid arguments or missing configuration */
+  USAGE: 2,
+  /** Invalid credentials or insufficient permissions (HTTP 401 or 403) */
+  AUTH: 3,
+  /** The requested resource does not exist (HTTP 404) */
+  NOT_FOUND: 4,
+  /** The server is unreachable or the request timed out */
+  NETWORK: 5,
+} as const
+
+/**
+ * Process environment of a CLI run.
+ */
+export interface CliEnvironment {
+  /** Environment variables */
+  env: Record<string, string | undefined>
+  /** Writes to standard output */
+  stdout: (text: string) => void
+  /** Writes to standard error */
+  stderr: (text: string) => void
+  /** Custom fetch implementation, passed to the client */
+  fetch?: FetchFunction
+}
+
+type OutputFormat = 'table' | 'json' | 'ndjson'
+
+const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'ndjson']
+
+const OPTIONS = {
+  url: { type: 'string' },
+  'api-key': { type: 'string' },
+  username: { type: 'string' },
+  password: { type: 'string' },
+  timeout: { type: 'string' },
+  output: { type: 'string', short: 'o', default: 'table' },
+  help: { type: 'boolean', short: 'h' },
+  status: { type: 'string', multiple: true },
+  limit: { type: 'string' },
+  offset: { type: 'string' },
+  order: { type: 'string' },
+  direction: { type: 'string' },
+  starred: { type: 'boolean' },
+  search: { type: 'string' },
+  category: { type: 'string' },
+  feed: { type: 'string' },
+  before: { type: 'string' },
+  after: { type: 'string' },
+  'published-before': { type: 'string' },
+  'published-after': { type: 'string' },
+  'changed-before': { type: 'string' },
+  'changed-after': { type: 'string' },
+  'before-entry-id': { type: 'string' },
+  'after-entry-id': { type: 'string' },
+  admin: { type: 'boolean' },
+} satisfies ParseArgsConfig['options']
+
+type Values = ReturnType<
+  typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>
+>['values']
+
+type Column<T> = [header: string, value: (item: T) => unknown]
+
+interface Command {
+  /** Arguments of the command, shown in the help text */
+  usage: string
+  /** One-line description, shown in the help text */
+  description: string
+  /** Table columns of the command output */
+  columns?: Column<never>[]
+  run: (client: MinifluxClient, args: string[], values: Values) => Promise<unknown>
+}
+
+/**
+ * Error thrown for invalid arguments or configuration.
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+  }
+}
+
+const FEED_COLUMNS: Column<Feed>[] = [
+  ['ID', feed => feed.id],
+  ['TITLE', feed => feed.title],
+  ['CATEGORY', feed => feed.category?.title],
+  ['FEED URL', feed => feed.feed_url],
+]
+
+const ENTRY_COLUMNS: Column<Entry>[] = [
+  ['ID', entry => entry.id],
+  ['STATUS', entry => entry.status],
+  ['STARRED', entry => (entry.starred ? '*' : '')],
+  ['PUBLISHED', entry => entry.published_at?.slice(0, 10)],
+  ['FEED', entry => entry.feed?.title],
+  ['TITLE', entry => entry.title],
+]
+
+const USER_COLUMNS: Column<User>[] = [
+  ['ID', user => user.id],
+  ['USERNAME', user => user.username],
+  ['ADMIN', user => (user.is_admin ? 'yes' : 'no')],
+]
+
+const COMMANDS: Record<string, Command> = {
+  'feeds list': {
+    usage: '',
+    description: 'List feeds',
+    columns: FEED_COLUMNS,
+    run: client => client.getFeeds(),
+  },
+  'feeds add': {
+    usage: '<url> [--category <id>]',
+    description: 'Subscribe to a feed',
+    run: (client, [url], values) =>
+      client.createFeed(
+        requireArgument(url, 'url'),
+        values.category === undefined ? undefined : parseInteger(values.category, 'category')
+      ),
+  },
+  'feeds remove': {
+    usage: '<id>',
+    description: 'Remove a feed',
+    run: (client, [id]) => client.deleteFeed(parseInteger(requireArgument(id, 'id'), 'id')),
+  },
+  'feeds refresh': {
+    usage: '[id]',
+    description: 'Refresh a feed, or all feeds without an ID',
+    run: (client, [id]) =>
+      id === undefined ? client.refreshAllFeeds() : client.refreshFeed(parseInteger(id, 'id')),
+  },
+  'entries list': {
+    usage: '[filter options]',
+    description: 'List entries',
+    columns: ENTRY_COLUMNS,
+    run: async (client, _args, values) => {
+      const filter = parseFilter(values)
+      const result =
+        values.feed === undefined
+          ? await client.getEntries(filter)
+          : await client.getFeedEntries(parseInteger(values.feed, 'feed'), filter)
+      return result.entries
+    },
+  },
+  'entries read': {
+    usage: '<id...> | [filter options]',
+    description: 'Mark entries as read, by ID or all unread entries matching the filter',
+    run: async (client, ids, values) => {
+      if (ids.length > 0) {
+        return summarizeReport(await client.updateEntriesStatus(parseIds(ids), 'read'))
+      }
+      const filter = parseFilter(values)
+      if (values.feed === undefined) {
+        return summarizeReport(await client.markEntriesRead(filter))
+      }
+      const feedId = parseInteger(values.feed, 'feed')
+      if (Object.keys(filter).length === 0) {
+        return client.markFeedAsRead(feedId)
+      }
+      // Other filters narrow the feed down, so only the matching entries are marked
+      const unread: Filter = { status: ['unread'], ...filter }
+      const entryIds: number[] = []
+      for await (const entry of client.iterateFeedEntries(feedId, unread)) {
+        entryIds.push(entry.id)
+      }
+      return summarizeReport(await client.updateEntriesStatus(entryIds, 'read'))
+    },
+  },
+  'entries unread': {
+    usage: '<id...>',
+    description: 'Mark entries as unread',
+    run: async (client, ids) =>
+      summarizeReport(await client.updateEntriesStatus(parseIds(ids, true), 'unread')),
+  },
+  'entries star': {
+    usage: '<id...>',
+    description: 'Star entries; entries already starred are left as they are',
+    run: async (client, ids) => {
+      for (const id of parseIds(ids, true)) {
+        if (!(await client.getEntry(id)).starred) {
+          await client.toggleBookmark(id)
+        }
+      }
+    },
+  },
+  'categories list': {
+    usage: '',
+    description: 'List categories',
+    columns: [
+      ['ID', category => category.id],
+      ['TITLE', category => category.title],
+    ] satisfies Column<{ id: number; title: string }>[],
+    run: client => client.getCategories(),
+  },
+  'categories add': {
+    usage: '<title>',
+    description: 'Create a category',
+    run: (client, [title]) => client.createCategory(requireArgument(title, 'title')),
+  },
+  'categories rename': {
+    usage: '<id> <title>',
+    description: 'Rename a category',
+    run: (client, [id, title]) =>
+      client.updateCategory(
+        parseInteger(requireArgument(id, 'id'), 'id'),
+        requireArgument(title, 'title')
+      ),
+  },
+  'categories remove': {
+    usage: '<id>',
+    description: 'Remove a category',
+    run: (client, [id]) => client.deleteCategory(parseInteger(requireArgument(id, 'id'), 'id')),
+  },
+  'categories refresh': {
+    usage: '<id>',
+    description: 'Refresh the feeds of a category',
+    run: (client, [id]) =>
+      client.refreshCategoryFeeds(parseInteger(requireArgument(id, 'id'), 'id')),
+  },
+  'users list': {
+    usage: '',
+    description: 'List users (admin only)',
+    columns: USER_COLUMNS,
+    run: client => client.getUsers(),
+  },
+  'users add': {
+    usage: '<username> <password> [--admin]',
+    description: 'Create a user (admin only)',
+    run: (client, [username, password], values) =>
+      client.createUser(
+        requireArgument(username, 'username'),
+        requireArgument(password, 'password'),
+        values.admin ?? false
+      ),
+  },
+  'users remove': {
+    usage: '<id>',
+    description: 'Remove a user (admin only)',
+    run: (client, [id]) => client.deleteUser(parseInteger(requireArgument(id, 'id'), 'id')),
+  },
+  me: {
+    usage: '',
+    description: 'Show the current user',
+    run: client => client.getMe(),
+  },
+  counters: {
+    usage: '',
+    description: 'Show read and unread counters per feed',
+    columns: [
+      ['FEED', counter => counter.feed_id],
+      ['UNREAD', counter => counter.unread],
+      ['READ', counter => counter.read],
+    ] satisfies Column<{ feed_id: number; unread: number; read: number }>[],
+    run: async client => {
+      const { reads, unreads } = await client.getCounters()
+      const feedIds = new Set([...Object.keys(unreads ?? {}), ...Object.keys(reads ?? {})])
+      return [...feedIds]
+        .map(id => ({ feed_id: Number(id), unread: unreads?.[id] ?? 0, read: reads?.[id] ?? 0 }))
+        .sort((a, b) => a.feed_id - b.feed_id)
+    },
+  },
+  health: {
+    usage: '',
+    description: 'Check that the server is healthy',
+    run: client => client.healthcheck(),
+  },
+  version: {
+    usage: '',
+    description: 'Show the server version',
+    run: client => client.getVersion(),
+  },
+}
+
+const HELP = `Usage: miniflux <command> [options]
+
+Commands:
+${Object.entries(COMMANDS)
+  .map(
+    ([name, command]) => `  ${`${name} ${command.usage}`.trim().padEnd(44)}${command.description}`
+  )
+  .join('\n')}
+
+Connection options (or the environment variables in parentheses):
+  --url <url>                  Miniflux server URL (MINIFLUX_BASE_URL)
+  --api-key <key>              API key (MINIFLUX_API_KEY)
+  --username <name>            Username for password authentication (MINIFLUX_USERNAME)
+  --password <password>        Password for password authentication (MINIFLUX_PASSWORD)
+  --timeout <ms>               Request timeout in milliseconds
+
+Output options:
+  -o, --output <format>        table (default), json or ndjson
+
+Filter options:
+  --status <status>            read, unread or removed; repeatable or comma-separated
+  --starred                    Only starred entries
+  --search <text>              Full-text search
+  --category <id>              Only entries of a category
+  --feed <id>                  Only entries of a feed
+  --limit <n>, --offset <n>    Pagination
+  --order <field>              id, status, published_at, category_title or category_id
+  --direction <asc|desc>       Sort direction
+  --before, --after <date>     Published before or after a date or Unix timestamp
+  --published-before, --published-after, --changed-before, --changed-after <date>
+  --before-entry-id, --after-entry-id <id>
+
+Exit codes:
+  0  success
+  1  API or unexpected error
+  2  invalid arguments or configuration
+  3  authentication or permission error
+  4  resource not found
+  5  network error or timeout
+`
+
+/**
+ * Returns a required positional argument.
+ * @param value - Argument value
+ * @param name - Argument name, used in the error message
+ * @returns The argument value
+ * @throws {UsageError} When the argument is missing
+ */
+function requireArgument(value: string | undefined, name: string): string {
+  if (value === undefined || value === '') {
+    throw new UsageError(`Missing argument: <${name}>`)
+  }
+  return value
+}
+
+/**
+ * Parses an integer argument.
+ * @param value - Argument value
+ * @param name - Argument name, used in the error message
+ * @returns The parsed integer
+ * @throws {UsageError} When the value is not an integer
+ */
+function parseInteger(value: string, name: string): number {
+  const number = Number(value)
+  if (value.trim() === '' || !Number.isInteger(number)) {
+    throw new UsageError(`Invalid ${name}: ${value}`)
+  }
+  return number
+}
+
+/**
+ * Parses a list of entry IDs.
+ * @param values - Positional arguments
+ * @param required - Whether at least one ID is required
+ * @returns The parsed IDs
+ * @throws {UsageError} When an ID is invalid or missing
+ */
+function parseIds(values: string[], required = false): number[] {
+  if (required && values.length === 0) {
+    throw new UsageError('Missing argument: <id...>')
+  }
+  return values.map(value => parseInteger(value, 'id'))
+}
+
+/**
+ * Parses a date or Unix timestamp into a Unix timestamp.
+ * @param value - ISO 8601 date or Unix timestamp in seconds
+ * @param name - Option name, used in the error message
+ * @returns The Unix timestamp in seconds
+ * @throws {UsageError} When the value is not a valid date
+ */
+function parseTimestamp(value: string, name: string): number {
+  if (/^\d+$/.test(value)) {
+    return Number(value)
+  }
+  const time = Date.parse(value)
+  if (Number.isNaN(time)) {
+    throw new UsageError(`Invalid ${name}: ${value}`)
+  }
+  return Math.floor(time / 1000)
+}
+
+/**
+ * Checks that an option value is one of the allowed values.
+ * @param value - Option value
+ * @param allowed - Allowed values
+ * @param name - Option name, used in the error message
+ * @returns The value
+ * @throws {UsageError} When the value is not allowed
+ */
+function parseChoice<T extends string>(value: string, allowed: readonly T[], name: string): T {
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`Invalid ${name}: ${value} (expected ${allowed.join(', ')})`)
+  }
+  return value as T
+}
+
+/**
+ * Builds an entry filter from the command line options.
+ * @param values - Parsed options
+ * @returns The entry filter
+ * @throws {UsageError} When an option value is invalid
+ */
+function parseFilter(values: Values): Filter {
+  const filter: Filter = {}
+  if (values.status) {
+    filter.status = values.status
+      .flatMap(value => value.split(','))
+      .map(status => parseChoice(status.trim(), ['read', 'unread', 'removed'] as const, 'status'))
+  }
+  if (values.starred) {
+    filter.starred = true
+  }
+  if (values.search !== undefined) {
+    filter.search = values.search
+  }
+  if (values.order !== undefined) {
+    filter.order = parseChoice(
+      values.order,
+      ['id', 'status', 'published_at', 'category_title', 'category_id'] as const,
+      'order'
+    )
+  }
+  if (values.direction !== undefined) {
+    filter.direction = parseChoice(values.direction, ['asc', 'desc'] as const, 'direction')
+  }
+
+  const integers = {
+    limit: 'limit',
+    offset: 'offset',
+    category: 'category_id',
+    'before-entry-id': 'before_entry_id',
+    'after-entry-id': 'after_entry_id',
+  } as const
+  for (const [option, key] of Object.entries(integers)) {
+    const value = values[option as keyof typeof integers]
+    if (value !== undefined) {
+      filter[key] = parseInteger(value, option)
+    }
+  }
+
+  const timestamps = {
+    before: 'before',
+    after: 'after',
+    'published-before': 'published_before',
+    'published-after': 'published_after',
+    'changed-before': 'changed_before',
+    'changed-after': 'changed_after',
+  } as const
+  for (const [option, key] of Object.entries(timestamps)) {
+    const value = values[option as keyof typeof timestamps]
+    if (value !== undefined) {
+      filter[key] = parseTimestamp(value, option)
+    }
+  }
+  return filter
+}
+
+/**
+ * Reduces a bulk update report to its counts, failing when a chunk failed.
+ * @param report - Bulk update report
+ * @returns The entry counts of the report
+ * @throws The error of the first failed chunk
+ */
+function summarizeReport({ total, succeeded, failed, chunks }: BulkUpdateReport) {
+  const failure = chunks.find(result => !result.success)
+  if (failure) {
+    throw failure.error
+  }
+  return { total, succeeded, failed }
+}
+
+/**
+ * Creates a client from the command line options and environment variables.
+ * Options take precedence over environment variables.
+ * @param values - Parsed options
+ * @param environment - Process environment
+ * @returns The client
+ * @throws {UsageError} When the server URL or credentials are missing
+ */
+function createClient(values: Values, environment: CliEnvironment): MinifluxClient {
+  const { env } = environment
+  const baseURL = values.url ?? env.MINIFLUX_BASE_URL
+  const apiKey = values['api-key'] ?? env.MINIFLUX_API_KEY
+  const username = values.username ?? env.MINIFLUX_USERNAME
+  const password = values.password ?? env.MINIFLUX_PASSWORD
+  const timeout = values.timeout === undefined ? undefined : parseInteger(values.timeout, 'timeout')
+
+  if (!baseURL) {
+    throw new UsageError('Missing server URL: set MINIFLUX_BASE_URL or pass --url')
+  }
+  const common = { baseURL, timeout, fetch: environment.fetch }
+  if (apiKey) {
+    return new MinifluxClient({ ...common, authType: 'api_key', apiKey })
+  }
+  if (username && password) {
+    return new MinifluxClient({ ...common, authType: 'password', username, password })
+  }
+  throw new UsageError(
+    'Missing credentials: set MINIFLUX_API_KEY, or MINIFLUX_USERNAME and MINIFLUX_PASSWORD'
+  )
+}
+
+/**
+ * Formats a value for a table cell.
+ * @param value - Cell value
+ * @returns The cell text
+ */
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return text.replace(/\s+/g, ' ')
+}
+
+/**
+ * Renders rows as a table with aligned columns.
+ * @param rows - Table rows, the first one being the header
+ * @returns The table text
+ */
+function renderTable(rows: string[][]): string {
+  const widths = rows[0].map((_, index) => Math.max(...rows.map(row => row[index].length)))
+  return rows
+    .map(row =>
+      row
+        .map((cell, index) => (index === row.length - 1 ? cell : cell.padEnd(widths[index])))
+        .join('  ')
+    )
+    .join('\n')
+}
+
+/**
+ * Formats the result of a command.
+ * @param result - Command result
+ * @param format - Output format
+ * @param columns - Table columns, for list results
+ * @returns The output text, or an empty string when there is nothing to print
+ */
+function formatOutput(result: unknown, format: OutputFormat, columns?: Column<never>[]): string {
+  if (result === undefined) {
+    return ''
+  }
+  if (format === 'json') {
+    return `${JSON.stringify(result, null, 2)}\n`
+  }
+  if (format === 'ndjson') {
+    const items = Array.isArray(result) ? result : [result]
+    return items.map(item => `${JSON.stringify(item)}\n`).join('')
+  }
+  if (typeof result !== 'object' || result === null) {
+    return `${String(result)}\n`
+  }
+
+  let rows: string[][]
+  if (Array.isArray(result)) {
+    const tableColumns =
+      columns ??
+      Object.keys(result[0] ?? {}).map(
+        (key): Column<Record<string, unknown>> => [key.toUpperCase(), item => item[key]]
+      )
+    rows = [
+      tableColumns.map(([header]) => header),
+      ...result.map(item => tableColumns.map(([, value]) => formatCell(value(item as never)))),
+    ]
+  } else {
+    rows = Object.entries(result).map(([key, value]) => [key, formatCell(value)])
+  }
+  return rows.length > 0 && rows[0].length > 0 ? `${renderTable(rows)}\n` : ''
+}
+
+/**
+ * Maps an error to an exit code.
+ * @param error - Error thrown by a command
+ * @returns The exit code
+ */
+function getExitCode(error: unknown): number {
+  if (error instanceof UsageError) {
+    return EXIT_CODES.USAGE
+  }
+  if (error instanceof MinifluxAuthenticationError || error instanceof MinifluxForbiddenError) {
+    return EXIT_CODES.AUTH
+  }
+  if (error instanceof MinifluxNotFoundError) {
+    return EXIT_CODES.NOT_FOUND
+  }
+  if (error instanceof MinifluxNetworkError) {
+    return EXIT_CODES.NETWORK
+  }
+  return EXIT_CODES.ERROR
+}
+
+/**
+ * Runs the `miniflux` command.
+ * @param argv - Command line arguments, without the executable and script paths
+ * @param environment - Process environment
+ * @returns Promise resolving to the exit code
+ */
+export async function runCli(argv: string[], environment: CliEnvironment): Promise<number> {
+  try {
+    let parsed
+    try {
+      parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true })
+    } catch (error) {
+      throw new UsageError((error as Error).message)
+    }
+    const { values, positionals } = parsed
+
+    if (values.help || positionals.length === 0) {
+      environment.stdout(HELP)
+      return values.help ? EXIT_CODES.OK : EXIT_CODES.USAGE
+    }
+
+    const name = [`${positionals[0]} ${positionals[1]}`, positionals[0]].find(key => COMMANDS[key])
+    if (!name) {
+      throw new UsageError(`Unknown command: ${positionals.slice(0, 2).join(' ')}`)
+    }
+    const command = COMMANDS[name]
+    const format = parseChoice(values.output, OUTPUT_FORMATS, 'output')
+    const client = createClient(values, environment)
+    const args = positionals.slice(name.split(' ').length)
+
+    const result = await command.run(client, args, values)
+    environment.stdout(formatOutput(result, format, command.columns))
+    return EXIT_CODES.OK
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    environment.stderr(`miniflux: ${message}\n`)
+    if (error instanceof UsageError) {
+      environment.stderr(`Run 'miniflux --help' for usage.\n`)
+    }
+    return getExitCode(error)
+  }
+}
@@ -2,6 +2,9 @@ import type {
   MinifluxConfig,
   Feed,
   Category,
+  CategoryListOptions,
+  CategoryUpdate,
+  CategoryWithFeeds,
   Entry,
   Filter,
   EntryResultSet,
@@ -11,7 +14,63 @@ import type {
   FeedCounters,
   EntryUpdatePayload,
   EntryStatus,
+  RetryPolicy,
+  RequestOptions,
+  FetchFunction,
+  MinifluxMiddleware,
+  MinifluxRequest,
+  PaginationOptions,
+  ImportResponse,
+  Subscription,
+  DiscoverOptions,
+  SubscribeOptions,
+  SubscribeResult,
+  BatchItemResult,
+  BatchOptions,
+  BatchReport,
+  BulkOptions,
+  BulkUpdateReport,
+  ChunkResult,
+  ValidationMode,
+  SchemaIssue,
+  FeedUpdate,
+  FeedHealthOptions,
+  FeedHealthReport,
+  FeedActionOptions,
+  QuarantineOptions,
+  FeedRules,
+  RuleTestOptions,
+  RuleTestReport,
+  EntryImportPayload,
+  EntryImportResult,
 } from './types.ts'
+import {
+  MinifluxError,
+  MinifluxDiscoveryError,
+  MinifluxNotFoundError,
+  MinifluxSchemaError,
+  createAbortError,
+  createNetworkError,
+  createResponseError,
+} from './errors.ts'
+import { EntryQuery, serializeFilter, type EntryQueryBuilder } from './query.ts'
+import { getRetryDelay, parseRetryAfter, resolveRetryPolicy, sleep } from './retry.ts'
+import { createRequestSignal } from './signal.ts'
+import { RequestLimiter } from './limiter.ts'
+import { ResponseCache } from './cache.ts'
+import { buildFeedHealthReport } from './health.ts'
+import { dryRunFeedRules } from './rules.ts'
+import { composeMiddleware, createAuthMiddleware } from './middleware.ts'
+import { chunk, mapWithConcurrency } from './concurrency.ts'
+import { validate } from './schema.ts'
+import { findResponseSchema } from './schemas.ts'
+
+/**
+ * Formats a schema issue for messages.
+ * @param issue - Issue to format
+ * @returns The issue as `path: message`
+ */
+const formatIssue = (issue: SchemaIssue) => `${issue.path}: ${issue.message}`
 
 /**
  * MinifluxClient provides a TypeScript interface to interact with the Miniflux RSS reader API.
@@ -23,11 +82,20 @@ export class MinifluxClient {
   private username?: string
   private password?: string
   private headers: Headers
+  private retryPolicy: Required<RetryPolicy>
+  private timeout?: number
+  private fetch: FetchFunction
+  private middleware: MinifluxMiddleware[]
+  private validation: ValidationMode
+  private onValidationWarning: (endpoint: string, issues: SchemaIssue[]) => void
+  private concurrency?: number
+  private limiter: RequestLimiter
+  private cache?: ResponseCache
 
   /**
    * Creates a new MinifluxClient instance.
    * @param config - Configuration object for the client
-   * @throws {Error} When required authentication parameters are missing
+   * @throws {Error} When required authentication parameters are missing, or limits are invalid
    */
   constructor(config: MinifluxConfig) {
     if (!config.baseURL) {
@@ -51,6 +119,30 @@ export class MinifluxClient {
     this.apiKey = config.apiKey
     this.username = config.username
     this.password = config.password
+    this.retryPolicy = resolveRetryPolicy(config.retry)
+    this.timeout = config.timeout
+    this.fetch = config.fetch ?? ((input, init) => fetch(input, init))
+    this.validation = config.validation ?? 'off'
+    this.onValidationWarning =
+      config.onValidationWarning ??
+      ((endpoint, issues) =>
+        console.warn(`Unexpected response from ${endpoint}:`, issues.map(formatIssue).join('; ')))
+    this.concurrency = config.concurrency
+    this.limiter = new RequestLimiter(config.concurrency, config.rateLimit)
+    if (config.cache) {
+      // Same credentials as the authentication middleware sends
+      const credentials =
+        config.authType === 'api_key'
+          ? `api_key:${config.apiKey}`
+          : config.authType === 'password'
+            ? `password:${config.username}:${config.password}`
+            : ''
+      this.cache = new ResponseCache(
+        this.baseUrl,
+        credentials,
+        config.cache === true ? undefined : config.cache
+      )
+    }
 
     // Initialize headers
     this.headers = new Headers({
@@ -59,80 +151,315 @@ export class MinifluxClient {
       'Accept': 'application/json',
     })
 
-    // Add authentication
-    if (config.authType === 'api_key' && config.apiKey) {
-      this.headers.set('X-Auth-Token', config.apiKey)
-    } else if (config.authType === 'password' && config.username && config.password) {
-      this.headers.set('Authorization', `Basic ${btoa(`${config.username}:${config.password}`)}`)
-    }
+    // Authentication runs first so that custom middleware sees the final headers
+    this.middleware = [createAuthMiddleware(config), ...(config.middleware ?? [])]
   }
 
   /**
-   * Makes an HTTP request to the Miniflux API.
+   * Appends a middleware to the end of the request chain.
+   * @param middleware - Middleware to add
+   * @returns The client, for chaining
+   */
+  use(middleware: MinifluxMiddleware): this {
+    this.middleware.push(middleware)
+    return this
+  }
+
+  /**
+   * Removes all responses of this client from the response cache, if enabled.
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear()
+  }
+
+  /**
+   * Makes an HTTP request to the Miniflux API. The request waits for the concurrency and
+   * rate limits, keeps its slot during retries and takes a token for each attempt. With the
+   * response cache, GET requests are served from the cache or revalidated, and changes
+   * invalidate the affected responses.
    * @param path - API endpoint path
-   * @param options - Fetch API options
+   * @param options - Fetch API options, plus an optional timeout
+   * @param isJson - Whether the body is JSON, or returned as text
    * @returns Promise resolving to the response data
-   * @throws {Error} On API error responses
+   * @throws {MinifluxError} On API error responses, network failures, timeouts and aborts
    */
-  private async request<T>(path: string, options: RequestInit = {}, isJson = true): Promise<T> {
-    const url = this.baseUrl + path
-    const response = await fetch(url, {
-      ...options,
-      headers: this.headers,
-    })
+  private async request<T>(
+    path: string,
+    options: RequestInit & RequestOptions = {},
+    isJson = true
+  ): Promise<T> {
+    return (await this.send<T>(path, options, isJson)).data
+  }
+
+  /**
+   * Makes an HTTP request to the Miniflux API, like `request`, and also returns the status
+   * of the response, e.g. to tell created resources from existing ones.
+   * @param path - API endpoint path
+   * @param options - Fetch API options, plus an optional timeout
+   * @param isJson - Whether the body is JSON, or returned as text
+   * @returns Promise resolving to the response status and data
+   * @throws {MinifluxError} On API error responses, network failures, timeouts and aborts
+   */
+  private async send<T>(
+    path: string,
+    options: RequestInit & RequestOptions = {},
+    isJson = true
+  ): Promise<{ status: number; data: T }> {
+    const { timeout = this.timeout, signal, idempotent = true, ...init } = options
+    const method = (init.method ?? 'GET').toUpperCase()
+    const requestSignal = createRequestSignal(signal ?? undefined, timeout)
+
+    const headers = new Headers(this.headers)
+    new Headers(init.headers).forEach((value, key) => headers.set(key, value))
+
+    let release: (() => void) | undefined
+    try {
+      const cached = method === 'GET' ? await this.cache?.get(path) : undefined
+      if (cached?.fresh) {
+        return {
+          status: 200,
+          data: this.parseBody<T>(method, path, 200, cached.response.body, isJson),
+        }
+      }
+      if (cached?.response.etag) {
+        headers.set('If-None-Match', cached.response.etag)
+      }
+      if (cached?.response.lastModified) {
+        headers.set('If-Modified-Since', cached.response.lastModified)
+      }
+
+      release = await this.limiter.acquire(requestSignal.signal)
+      const response = await this.fetchWithRetry(
+        {
+          url: this.baseUrl + path,
+          path,
+          method,
+          headers,
+          body: init.body,
+          signal: requestSignal.signal,
+        },
+        idempotent
+      )
+
+      if (response.status === 304 && cached) {
+        await response.body?.cancel()
+        await this.cache!.revalidated(path, cached.response)
+        return {
+          status: 200,
+          data: this.parseBody<T>(method, path, 200, cached.response.body, isJson),
+        }
+      }
 
-    // Handle successful responses
-    if (response.status === 204) {
-      return {} as T
+      if (response.ok && method !== 'GET') {
+        await this.cache?.invalidate(path)
+      }
+
+      // Handle successful responses
+      if (response.status === 204) {
+        return { status: 204, data: {} as T }
+      }
+
+      if (response.status === 201 || response.status === 200) {
+        const body = await response.text()
+        if (method === 'GET' && response.status === 200) {
+          await this.cache?.set(path, body, response.headers)
+        }
+        return {
+          status: response.status,
+          data: this.parseBody<T>(method, path, response.status, body, isJson),
+        }
+      }
+
+      if (!response.ok) {
+        const body = await response.text()
+        // Handle error responses
+        let errorMessage: string | undefined
+        try {
+          const errorData = JSON.parse(body)
+          errorMessage = errorData.error_message || 'Unknown error'
+        } catch {
+          errorMessage = undefined
+        }
+        throw createResponseError({ status: response.status, method, path, body, errorMessage })
+      }
+
+      return { status: response.status, data: {} as T }
+    } catch (error) {
+      if (requestSignal.signal?.aborted && !(error instanceof MinifluxError)) {
+        throw createAbortError(requestSignal.signal.reason, { method, path })
+      }
+      throw error
+    } finally {
+      release?.()
+      requestSignal.clear()
     }
+  }
 
-    if (response.status === 201 || response.status === 200) {
-      return isJson ? response.json() : response.text()
+  /**
+   * Parses a successful response body.
+   * @param method - HTTP method of the request
+   * @param path - API endpoint path
+   * @param status - HTTP status of the response
+   * @param body - Response body
+   * @param isJson - Whether the body is JSON, or returned as text
+   * @returns The parsed and validated body
+   */
+  private parseBody<T>(
+    method: string,
+    path: string,
+    status: number,
+    body: string,
+    isJson: boolean
+  ): T {
+    return isJson ? this.validateResponse<T>(method, path, status, JSON.parse(body)) : (body as T)
+  }
+
+  /**
+   * Validates a response body against the schema of its endpoint, according to the validation mode.
+   * @param method - HTTP method of the request
+   * @param path - API endpoint path
+   * @param status - HTTP status of the response
+   * @param data - Parsed response body
+   * @returns The body, without unknown fields in strict mode
+   * @throws {MinifluxSchemaError} In strict mode, when the body does not match the schema
+   */
+  private validateResponse<T>(method: string, path: string, status: number, data: unknown): T {
+    const schema = this.validation === 'off' ? undefined : findResponseSchema(method, path)
+    if (!schema) {
+      return data as T
+    }
+
+    const result = validate(schema, data)
+    const endpoint = `${method} ${path.split('?')[0]}`
+    if (this.validation === 'lenient') {
+      if (result.issues.length > 0) {
+        this.onValidationWarning(endpoint, result.issues)
+      }
+      return data as T
     }
+    if (result.issues.length > 0) {
+      throw new MinifluxSchemaError(
+        `Unexpected response from ${endpoint}: ${result.issues.map(formatIssue).join('; ')}`,
+        { method, path, status, body: JSON.stringify(data) },
+        result.issues
+      )
+    }
+    return result.value as T
+  }
+
+  /**
+   * Sends a request, retrying failed attempts according to the retry policy.
+   * Every attempt goes through the middleware chain with its own copy of the headers.
+   * Aborting the request signal stops the retries and rethrows the abort reason.
+   * @param request - Request to send
+   * @param idempotent - Whether the call can be repeated; otherwise it is sent once
+   * @returns Promise resolving to the last response received
+   * @throws {MinifluxNetworkError} When the server cannot be reached
+   */
+  private async fetchWithRetry(request: MinifluxRequest, idempotent = true): Promise<Response> {
+    const { path, method, signal } = request
+    const policy = this.retryPolicy
+    const canRetry = idempotent && policy.retryableMethods.includes(method)
+    const send = composeMiddleware(this.middleware, this.fetch)
 
-    if (!response.ok) {
-      const text = await response.text()
-      // Handle error responses
-      let errorMessage: string
+    for (let attempt = 1; ; attempt++) {
+      const isLastAttempt = !canRetry || attempt >= policy.maxAttempts
+      await this.limiter.takeToken(signal)
+
+      let response: Response
       try {
-        const errorData = JSON.parse(text)
-        errorMessage = errorData.error_message || 'Unknown error'
-      } catch {
-        errorMessage = text || 'Failed to parse error response'
+        response = await send({ ...request, headers: new Headers(request.headers) })
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error
+        }
+        if (isLastAttempt || !policy.retryOnNetworkError) {
+          throw createNetworkError(error, { method, path })
+        }
+        await sleep(getRetryDelay(policy, attempt), signal)
+        continue
+      }
+
+      if (isLastAttempt || !policy.retryableStatuses.includes(response.status)) {
+        return response
       }
-      throw new Error(`${errorMessage}`)
+
+      // Discard the body so the connection can be reused
+      await response.body?.cancel()
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+      await sleep(getRetryDelay(policy, attempt, retryAfter), signal)
     }
+  }
 
-    return {} as T
+  /**
+   * Pages through an entry listing using the entry ID as a cursor, so that entries
+   * added or removed during the scan do not shift the pages. Entries are ordered
+   * by ID, in the filter's direction (default: descending); `order` and `offset` are ignored.
+   * @param fetchPage - Function fetching one page for the given filter
+   * @param filter - Optional filter parameters
+   * @param options - Optional page size, maximum number of entries and request options
+   * @returns Async iterator over the entries of all pages
+   */
+  private async *paginate(
+    fetchPage: (filter: Filter, options: RequestOptions) => Promise<EntryResultSet>,
+    filter: Filter = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<Entry> {
+    const { pageSize = 100, maxEntries = Infinity, ...requestOptions } = options
+    const direction = filter.direction ?? 'desc'
+    const cursorKey = direction === 'asc' ? 'after_entry_id' : 'before_entry_id'
+    let cursor = filter[cursorKey]
+    let yielded = 0
+
+    while (yielded < maxEntries) {
+      const limit = Math.min(pageSize, maxEntries - yielded)
+      const pageFilter: Filter = { ...filter, order: 'id', direction, limit, [cursorKey]: cursor }
+      delete pageFilter.offset
+
+      const { entries } = await fetchPage(pageFilter, requestOptions)
+      for (const entry of entries) {
+        yield entry
+        yielded++
+      }
+
+      if (entries.length < limit) {
+        return
+      }
+      cursor = entries[entries.length - 1].id
+    }
   }
 
   // Feed Methods
 
   /**
    * Retrieves all feeds.
+   * @param options - Optional request options
    * @returns Promise resolving to an array of feeds
    */
-  async getFeeds(): Promise<Feed[]> {
-    return this.request<Feed[]>('/v1/feeds')
+  async getFeeds(options?: RequestOptions): Promise<Feed[]> {
+    return this.request<Feed[]>('/v1/feeds', options)
   }
 
   /**
    * Retrieves a specific feed by ID.
    * @param feedId - ID of the feed to retrieve
+   * @param options - Optional request options
    * @returns Promise resolving to the feed details
    */
-  async getFeed(feedId: number): Promise<Feed> {
-    return this.request<Feed>(`/v1/feeds/${feedId}`)
+  async getFeed(feedId: number, options?: RequestOptions): Promise<Feed> {
+    return this.request<Feed>(`/v1/feeds/${feedId}`, options)
   }
 
   /**
    * Creates a new feed.
    * @param feedUrl - URL of the feed to create
    * @param categoryId - Optional category ID to assign the feed to
+   * @param options - Optional request options
    * @returns Promise resolving to the created feed
    */
-  async createFeed(feedUrl: string, categoryId?: number): Promise<Feed> {
+  async createFeed(feedUrl: string, categoryId?: number, options?: RequestOptions): Promise<Feed> {
     return this.request<Feed>('/v1/feeds', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({
         feed_url: feedUrl,
@@ -144,179 +471,577 @@ export class MinifluxClient {
   /**
    * Deletes a feed.
    * @param feedId - ID of the feed to delete
+   * @param options - Optional request options
    */
-  async deleteFeed(feedId: number): Promise<void> {
-    await this.request(`/v1/feeds/${feedId}`, { method: 'DELETE' })
+  async deleteFeed(feedId: number, options?: RequestOptions): Promise<void> {
+    await this.request(`/v1/feeds/${feedId}`, { ...options, method: 'DELETE' })
   }
 
   /**
    * Refreshes a specific feed.
    * @param feedId - ID of the feed to refresh
+   * @param options - Optional request options
    */
-  async refreshFeed(feedId: number): Promise<void> {
-    await this.request(`/v1/feeds/${feedId}/refresh`, { method: 'PUT' })
+  async refreshFeed(feedId: number, options?: RequestOptions): Promise<void> {
+    await this.request(`/v1/feeds/${feedId}/refresh`, { ...options, method: 'PUT' })
   }
 
   /**
    * Retrieves the icon for a feed.
    * @param feedId - ID of the feed
+   * @param options - Optional request options
    * @returns Promise resolving to the feed icon data
    */
-  async getFeedIcon(feedId: number): Promise<FeedIcon> {
-    return this.request(`/v1/feeds/${feedId}/icon`)
+  async getFeedIcon(feedId: number, options?: RequestOptions): Promise<FeedIcon> {
+    return this.request(`/v1/feeds/${feedId}/icon`, options)
+  }
+
+  /**
+   * Retrieves an icon by ID, e.g. the `icon.icon_id` of a feed.
+   * @param iconId - ID of the icon
+   * @param options - Optional request options
+   * @returns Promise resolving to the icon data
+   */
+  async getIcon(iconId: number, options?: RequestOptions): Promise<FeedIcon> {
+    return this.request(`/v1/icons/${iconId}`, options)
   }
 
   /**
    * Retrieves entries for a specific feed.
    * @param feedId - ID of the feed
    * @param filter - Optional filter parameters
+   * @param options - Optional request options
    * @returns Promise resolving to the filtered entries
    */
-  async getFeedEntries(feedId: number, filter?: Filter): Promise<EntryResultSet> {
-    const params = new URLSearchParams()
-    if (filter) {
-      Object.entries(filter).forEach(([key, value]) => {
-        if (value !== undefined) {
-          if (Array.isArray(value)) {
-            value.forEach(v => params.append(key, v.toString()))
-          } else {
-            params.append(key, value.toString())
-          }
-        }
-      })
-    }
-    const query = params.toString()
-    return this.request(`/v1/feeds/${feedId}/entries${query ? `?${query}` : ''}`)
+  async getFeedEntries(
+    feedId: number,
+    filter?: Filter,
+    options?: RequestOptions
+  ): Promise<EntryResultSet> {
+    return this.request(`/v1/feeds/${feedId}/entries${serializeFilter(filter)}`, options)
+  }
+
+  /**
+   * Iterates over all entries of a feed, fetching pages as needed.
+   * @param feedId - ID of the feed
+   * @param filter - Optional filter parameters
+   * @param options - Optional page size, maximum number of entries and request options
+   * @returns Async iterator over the matching entries
+   */
+  async *iterateFeedEntries(
+    feedId: number,
+    filter?: Filter,
+    options?: PaginationOptions
+  ): AsyncGenerator<Entry> {
+    yield* this.paginate(
+      (pageFilter, requestOptions) => this.getFeedEntries(feedId, pageFilter, requestOptions),
+      filter,
+      options
+    )
   }
 
   /**
    * Refreshes all feeds.
+   * @param options - Optional request options
    */
-  async refreshAllFeeds(): Promise<void> {
-    await this.request('/v1/feeds/refresh', { method: 'PUT' })
+  async refreshAllFeeds(options?: RequestOptions): Promise<void> {
+    await this.request('/v1/feeds/refresh', { ...options, method: 'PUT' })
   }
 
   /**
    * Marks all entries in a feed as read.
    * @param feedId - ID of the feed
+   * @param options - Optional request options
    */
-  async markFeedAsRead(feedId: number): Promise<void> {
-    await this.request(`/v1/feeds/${feedId}/mark-all-as-read`, { method: 'PUT' })
+  async markFeedAsRead(feedId: number, options?: RequestOptions): Promise<void> {
+    await this.request(`/v1/feeds/${feedId}/mark-all-as-read`, { ...options, method: 'PUT' })
   }
 
   /**
    * Updates a feed.
    * @param feedId - ID of the feed to update
-   * @param changes - Partial feed object containing the changes
+   * @param changes - Partial feed object containing the changes, and `category_id` to move it
+   * @param options - Optional request options
    * @returns Promise resolving to the updated feed
    */
-  async updateFeed(feedId: number, changes: Partial<Feed>): Promise<Feed> {
+  async updateFeed(feedId: number, changes: FeedUpdate, options?: RequestOptions): Promise<Feed> {
     return this.request<Feed>(`/v1/feeds/${feedId}`, {
+      ...options,
       method: 'PUT',
       body: JSON.stringify(changes),
     })
   }
 
+  /**
+   * Applies block and keep rules to the recent entries of a feed without saving them, to
+   * see which entries they would keep or drop before calling `updateFeed`.
+   * @param feedId - ID of the feed
+   * @param rules - Rules to test
+   * @param options - Optional number of entries and request options
+   * @returns Promise resolving to the kept and dropped entries, and the issues of the rules
+   */
+  async dryRunFeedRules(
+    feedId: number,
+    rules: FeedRules,
+    options: RuleTestOptions = {}
+  ): Promise<RuleTestReport> {
+    const { limit = 100, ...requestOptions } = options
+    const { entries } = await this.getFeedEntries(
+      feedId,
+      { order: 'id', direction: 'desc', limit },
+      requestOptions
+    )
+    return dryRunFeedRules(entries, rules)
+  }
+
+  // Discovery Methods
+
+  /**
+   * Discovers the feeds published by a website.
+   * @param url - URL of the website or feed
+   * @param discoverOptions - Optional settings used to fetch the website
+   * @param options - Optional request options
+   * @returns Promise resolving to the discovered subscriptions, empty when none were found
+   */
+  async discoverSubscriptions(
+    url: string,
+    discoverOptions?: DiscoverOptions,
+    options?: RequestOptions
+  ): Promise<Subscription[]> {
+    try {
+      return await this.request<Subscription[]>('/v1/discover', {
+        ...options,
+        method: 'POST',
+        body: JSON.stringify({ ...discoverOptions, url }),
+      })
+    } catch (error) {
+      // Miniflux answers 404 when the page does not reference any feed
+      if (error instanceof MinifluxNotFoundError) {
+        return []
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Discovers the feeds of a website and subscribes to the best one.
+   * The URL itself is preferred when it is a feed, then Atom, RSS, JSON Feed and RDF feeds,
+   * with comment feeds last.
+   * @param url - URL of the website or feed
+   * @param subscribeOptions - Optional category, discovery settings and multiple-feed behavior
+   * @param options - Optional request options
+   * @returns Promise resolving to the created feed, the chosen subscription and all candidates
+   * @throws {MinifluxDiscoveryError} When no feed is found, or several are found with `onMultiple: 'error'`
+   */
+  async subscribe(
+    url: string,
+    subscribeOptions: SubscribeOptions = {},
+    options?: RequestOptions
+  ): Promise<SubscribeResult> {
+    const { categoryId, onMultiple = 'best', ...discoverOptions } = subscribeOptions
+    const candidates = this.rankSubscriptions(
+      url,
+      await this.discoverSubscriptions(url, discoverOptions, options)
+    )
+    const details = { method: 'POST', path: '/v1/discover' }
+
+    if (candidates.length === 0) {
+      throw new MinifluxDiscoveryError(`No feed found for ${url}`, details)
+    }
+    if (candidates.length > 1 && onMultiple === 'error') {
+      const urls = candidates.map(candidate => candidate.url).join(', ')
+      throw new MinifluxDiscoveryError(
+        `Found ${candidates.length} feeds for ${url}: ${urls}`,
+        details,
+        candidates
+      )
+    }
+
+    const subscription = candidates[0]
+    // Creating a feed only returns its ID
+    const { feed_id } = await this.request<{ feed_id: number }>('/v1/feeds', {
+      ...options,
+      method: 'POST',
+      body: JSON.stringify({ feed_url: subscription.url, category_id: categoryId }),
+    })
+    const feed = await this.getFeed(feed_id, options)
+    return { feed, subscription, candidates }
+  }
+
+  /**
+   * Sorts discovered subscriptions from the most to the least relevant.
+   * @param url - URL the subscriptions were discovered from
+   * @param subscriptions - Discovered subscriptions
+   * @returns The sorted subscriptions
+   */
+  private rankSubscriptions(url: string, subscriptions: Subscription[]): Subscription[] {
+    const typeOrder = ['atom', 'rss', 'json', 'rdf']
+    const score = (subscription: Subscription) => {
+      if (subscription.url === url) {
+        return -1
+      }
+      const typeIndex = typeOrder.indexOf(subscription.type)
+      const typeScore = typeIndex === -1 ? typeOrder.length : typeIndex
+      return /comments/i.test(subscription.url) ? typeScore + typeOrder.length + 1 : typeScore
+    }
+    return subscriptions
+      .map((subscription, index) => ({ subscription, index, score: score(subscription) }))
+      .sort((a, b) => a.score - b.score || a.index - b.index)
+      .map(({ subscription }) => subscription)
+  }
+
+  // Feed Health Methods
+
+  /**
+   * Sorts the feeds into failing, stale, disabled and silent feeds, with the reason of each
+   * issue. Finding silent feeds fetches the latest entry of every enabled feed.
+   * @param options - Optional thresholds, concurrency and request options
+   * @returns Promise resolving to the health report
+   */
+  async getFeedHealthReport(options: FeedHealthOptions = {}): Promise<FeedHealthReport> {
+    const {
+      staleAfter = 86_400_000,
+      silentAfter = 30 * 86_400_000,
+      concurrency,
+      ...requestOptions
+    } = options
+    const feeds = await this.getFeeds(requestOptions)
+    const enabled = feeds.filter(feed => !feed.disabled)
+    const latest = await mapWithConcurrency(
+      enabled,
+      concurrency ?? this.concurrency ?? 4,
+      async feed => {
+        const result = await this.getFeedEntries(
+          feed.id,
+          { order: 'id', direction: 'desc', limit: 1 },
+          requestOptions
+        )
+        return [feed.id, result.entries[0]] as const
+      }
+    )
+    return buildFeedHealthReport(feeds, new Map(latest), { staleAfter, silentAfter })
+  }
+
+  /**
+   * Refreshes feeds again, e.g. the failing feeds of a health report.
+   * @param feedIds - IDs of the feeds
+   * @param options - Optional concurrency and request options
+   * @returns Promise resolving to a report of every feed
+   */
+  async retryFeeds(
+    feedIds: number[],
+    options: FeedActionOptions = {}
+  ): Promise<BatchReport<number, void>> {
+    const { concurrency, ...requestOptions } = options
+    return this.batch(feedIds, feedId => this.refreshFeed(feedId, requestOptions), {
+      concurrency,
+    })
+  }
+
+  /**
+   * Disables feeds, so that Miniflux stops refreshing them.
+   * @param feedIds - IDs of the feeds
+   * @param options - Optional concurrency and request options
+   * @returns Promise resolving to a report of every feed, with the updated feeds
+   */
+  async disableFeeds(
+    feedIds: number[],
+    options: FeedActionOptions = {}
+  ): Promise<BatchReport<number, Feed>> {
+    const { concurrency, ...requestOptions } = options
+    return this.batch(
+      feedIds,
+      feedId => this.updateFeed(feedId, { disabled: true }, requestOptions),
+      { concurrency }
+    )
+  }
+
+  /**
+   * Moves feeds to a quarantine category, created if it does not exist yet.
+   * @param feedIds - IDs of the feeds
+   * @param options - Optional category title, concurrency and request options
+   * @returns Promise resolving to a report of every feed, with the updated feeds
+   */
+  async quarantineFeeds(
+    feedIds: number[],
+    options: QuarantineOptions = {}
+  ): Promise<BatchReport<number, Feed>> {
+    const { category: title = 'Quarantine', concurrency, ...requestOptions } = options
+    const categories = await this.getCategories(requestOptions)
+    const category =
+      categories.find(category => category.title.toLowerCase() === title.toLowerCase()) ??
+      (await this.createCategory(title, requestOptions))
+    return this.batch(
+      feedIds,
+      feedId => this.updateFeed(feedId, { category_id: category.id }, requestOptions),
+      { concurrency }
+    )
+  }
+
   // Entry Methods
 
   /**
    * Retrieves entries based on filter criteria.
    * @param filter - Optional filter parameters
+   * @param options - Optional request options
    * @returns Promise resolving to the filtered entries
    */
-  async getEntries(filter?: Filter): Promise<EntryResultSet> {
-    const params = new URLSearchParams()
-    if (filter) {
-      Object.entries(filter).forEach(([key, value]) => {
-        if (value !== undefined) {
-          if (Array.isArray(value)) {
-            value.forEach(v => params.append(key, v.toString()))
-          } else {
-            params.append(key, value.toString())
-          }
-        }
-      })
-    }
-    const query = params.toString()
-    return this.request<EntryResultSet>(`/v1/entries${query ? `?${query}` : ''}`)
+  async getEntries(filter?: Filter, options?: RequestOptions): Promise<EntryResultSet> {
+    return this.request<EntryResultSet>(`/v1/entries${serializeFilter(filter)}`, options)
+  }
+
+  /**
+   * Starts a fluent query over entries, e.g.
+   * `client.entries().unread().inCategory(3).publishedAfter(date).limit(50).fetch()`.
+   * @returns An entry query without conditions
+   */
+  entries(): EntryQueryBuilder {
+    return new EntryQuery<never>(this)
   }
 
   /**
    * Retrieves a specific entry.
    * @param entryId - ID of the entry to retrieve
+   * @param options - Optional request options
    * @returns Promise resolving to the entry details
    */
-  async getEntry(entryId: number): Promise<Entry> {
-    return this.request<Entry>(`/v1/entries/${entryId}`)
+  async getEntry(entryId: number, options?: RequestOptions): Promise<Entry> {
+    return this.request<Entry>(`/v1/entries/${entryId}`, options)
   }
 
   /**
    * Updates the status of an entry.
    * @param entryId - ID of the entry
    * @param status - New status ('read' or 'unread')
+   * @param options - Optional request options
    */
-  async updateEntryStatus(entryId: number, status: 'read' | 'unread'): Promise<void> {
+  async updateEntryStatus(
+    entryId: number,
+    status: 'read' | 'unread',
+    options?: RequestOptions
+  ): Promise<void> {
     await this.request(`/v1/entries/${entryId}`, {
+      ...options,
       method: 'PUT',
       body: JSON.stringify({ status }),
     })
   }
 
+  /**
+   * Updates the status of many entries, split into chunks sent with bounded concurrency.
+   * A failing chunk does not stop the others; check the report for failures.
+   * @param entryIds - IDs of the entries
+   * @param status - New status ('read' or 'unread')
+   * @param options - Optional chunk size, concurrency and request options
+   * @returns Promise resolving to a report of every chunk
+   */
+  async updateEntriesStatus(
+    entryIds: number[],
+    status: 'read' | 'unread',
+    options: BulkOptions = {}
+  ): Promise<BulkUpdateReport> {
+    const { chunkSize = 500, concurrency = 2, ...requestOptions } = options
+    const chunks = await mapWithConcurrency(
+      chunk(entryIds, chunkSize),
+      concurrency,
+      async (ids): Promise<ChunkResult> => {
+        try {
+          await this.request('/v1/entries', {
+            ...requestOptions,
+            method: 'PUT',
+            body: JSON.stringify({ entry_ids: ids, status }),
+          })
+          return { entryIds: ids, success: true }
+        } catch (error) {
+          return { entryIds: ids, success: false, error }
+        }
+      }
+    )
+
+    const succeeded = chunks
+      .filter(result => result.success)
+      .reduce((count, result) => count + result.entryIds.length, 0)
+    return { total: entryIds.length, succeeded, failed: entryIds.length - succeeded, chunks }
+  }
+
+  /**
+   * Marks all entries matching a filter as read.
+   * @param filter - Optional filter parameters; only unread entries are matched unless `status` is set
+   * @param options - Optional chunk size, concurrency and request options
+   * @returns Promise resolving to a report of every chunk
+   */
+  async markEntriesRead(filter: Filter = {}, options: BulkOptions = {}): Promise<BulkUpdateReport> {
+    const { chunkSize = 500, concurrency, ...requestOptions } = options
+    const entryIds: number[] = []
+    for await (const entry of this.iterateEntries(
+      { status: ['unread'], ...filter },
+      { ...requestOptions, pageSize: chunkSize }
+    )) {
+      entryIds.push(entry.id)
+    }
+    return this.updateEntriesStatus(entryIds, 'read', { ...requestOptions, chunkSize, concurrency })
+  }
+
   /**
    * Toggles the bookmark status of an entry.
    * @param entryId - ID of the entry
+   * @param options - Optional request options
    */
-  async toggleBookmark(entryId: number): Promise<void> {
-    await this.request(`/v1/entries/${entryId}/bookmark`, { method: 'PUT' })
+  async toggleBookmark(entryId: number, options?: RequestOptions): Promise<void> {
+    // Toggling is not idempotent: a retry after a lost response would undo the change
+    await this.request(`/v1/entries/${entryId}/bookmark`, {
+      ...options,
+      method: 'PUT',
+      idempotent: false,
+    })
   }
 
   /**
    * Fetches the original content of an entry.
    * @param entryId - ID of the entry
+   * @param options - Optional request options
    * @returns Promise resolving to the entry content
    */
-  async fetchContent(entryId: number): Promise<{ content: string }> {
-    return this.request(`/v1/entries/${entryId}/fetch-content`)
+  async fetchContent(entryId: number, options?: RequestOptions): Promise<{ content: string }> {
+    return this.request(`/v1/entries/${entryId}/fetch-content`, options)
   }
 
   /**
    * Saves an entry to third-party services.
    * @param entryId - ID of the entry
+   * @param options - Optional request options
    */
-  async saveEntry(entryId: number): Promise<void> {
-    await this.request(`/v1/entries/${entryId}/save`, { method: 'POST' })
+  async saveEntry(entryId: number, options?: RequestOptions): Promise<void> {
+    await this.request(`/v1/entries/${entryId}/save`, { ...options, method: 'POST' })
   }
 
   /**
    * Updates an entry's content.
    * @param entryId - ID of the entry
    * @param payload - Update payload containing title and/or content
+   * @param options - Optional request options
    * @returns Promise resolving to the updated entry
    */
-  async updateEntry(entryId: number, payload: EntryUpdatePayload): Promise<Entry> {
+  async updateEntry(
+    entryId: number,
+    payload: EntryUpdatePayload,
+    options?: RequestOptions
+  ): Promise<Entry> {
     return this.request(`/v1/entries/${entryId}`, {
+      ...options,
       method: 'PUT',
       body: JSON.stringify(payload),
     })
   }
 
+  /**
+   * Imports an entry into a feed, e.g. an item of a changelog or an alert. Miniflux keeps
+   * one entry per URL, or per external ID when given.
+   * @param feedId - ID of the feed
+   * @param payload - Entry to import
+   * @param options - Optional request options
+   * @returns Promise resolving to the ID of the entry and whether it was created
+   */
+  async importEntry(
+    feedId: number,
+    payload: EntryImportPayload,
+    options?: RequestOptions
+  ): Promise<EntryImportResult> {
+    const { published_at, ...fields } = payload
+    const { status, data } = await this.send<{ id: number }>(`/v1/feeds/${feedId}/entries/import`, {
+      ...options,
+      method: 'POST',
+      body: JSON.stringify({
+        ...fields,
+        published_at:
+          published_at instanceof Date ? Math.floor(published_at.getTime() / 1000) : published_at,
+      }),
+    })
+    return { id: data.id, created: status === 201 }
+  }
+
+  /**
+   * Imports many entries into a feed, with bounded concurrency. A failing entry does not
+   * stop the others; check the report for failures.
+   * @param feedId - ID of the feed
+   * @param payloads - Entries to import
+   * @param options - Optional concurrency (default: 2) and request options
+   * @returns Promise resolving to a report of every entry
+   */
+  async importEntries(
+    feedId: number,
+    payloads: EntryImportPayload[],
+    options: FeedActionOptions = {}
+  ): Promise<BatchReport<EntryImportPayload, EntryImportResult>> {
+    const { concurrency = 2, ...requestOptions } = options
+    return this.batch(payloads, payload => this.importEntry(feedId, payload, requestOptions), {
+      concurrency,
+    })
+  }
+
+  /**
+   * Iterates over all entries matching the filter, fetching pages as needed.
+   * @param filter - Optional filter parameters
+   * @param options - Optional page size, maximum number of entries and request options
+   * @returns Async iterator over the matching entries
+   */
+  async *iterateEntries(filter?: Filter, options?: PaginationOptions): AsyncGenerator<Entry> {
+    yield* this.paginate(
+      (pageFilter, requestOptions) => this.getEntries(pageFilter, requestOptions),
+      filter,
+      options
+    )
+  }
+
   // Category Methods
 
   /**
    * Retrieves all categories.
+   * @param options - Optional counts flag and request options
    * @returns Promise resolving to an array of categories
    */
-  async getCategories(): Promise<Category[]> {
-    return this.request<Category[]>('/v1/categories')
+  async getCategories(options: CategoryListOptions = {}): Promise<Category[]> {
+    const { counts, ...requestOptions } = options
+    return this.request<Category[]>(`/v1/categories${counts ? '?counts=true' : ''}`, requestOptions)
+  }
+
+  /**
+   * Retrieves the feeds of a category.
+   * @param categoryId - ID of the category
+   * @param options - Optional request options
+   * @returns Promise resolving to an array of feeds
+   */
+  async getCategoryFeeds(categoryId: number, options?: RequestOptions): Promise<Feed[]> {
+    return this.request<Feed[]>(`/v1/categories/${categoryId}/feeds`, options)
+  }
+
+  /**
+   * Retrieves all categories with their feeds, using one request for the categories
+   * and one for the feeds.
+   * @param options - Optional counts flag and request options
+   * @returns Promise resolving to an array of categories, each with its feeds
+   */
+  async getCategoriesWithFeeds(options: CategoryListOptions = {}): Promise<CategoryWithFeeds[]> {
+    const { counts, ...requestOptions } = options
+    const [categories, feeds] = await Promise.all([
+      this.getCategories({ ...requestOptions, counts }),
+      this.getFeeds(requestOptions),
+    ])
+    return categories.map(category => ({
+      ...category,
+      feeds: feeds.filter(feed => feed.category?.id === category.id),
+    }))
   }
 
   /**
    * Creates a new category.
    * @param title - Title of the category
+   * @param options - Optional request options
    * @returns Promise resolving to the created category
    */
-  async createCategory(title: string): Promise<Category> {
+  async createCategory(title: string, options?: RequestOptions): Promise<Category> {
     return this.request<Category>('/v1/categories', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({ title }),
     })
@@ -325,61 +1050,85 @@ export class MinifluxClient {
   /**
    * Updates a category.
    * @param categoryId - ID of the category
-   * @param title - New title for the category
+   * @param changes - New title for the category, or the title and `hide_globally` to change
+   * @param options - Optional request options
    * @returns Promise resolving to the updated category
    */
-  async updateCategory(categoryId: number, title: string): Promise<Category> {
+  async updateCategory(
+    categoryId: number,
+    changes: string | CategoryUpdate,
+    options?: RequestOptions
+  ): Promise<Category> {
     return this.request<Category>(`/v1/categories/${categoryId}`, {
+      ...options,
       method: 'PUT',
-      body: JSON.stringify({ title }),
+      body: JSON.stringify(typeof changes === 'string' ? { title: changes } : changes),
     })
   }
 
   /**
    * Deletes a category.
    * @param categoryId - ID of the category to delete
+   * @param options - Optional request options
    */
-  async deleteCategory(categoryId: number): Promise<void> {
-    await this.request(`/v1/categories/${categoryId}`, { method: 'DELETE' })
+  async deleteCategory(categoryId: number, options?: RequestOptions): Promise<void> {
+    await this.request(`/v1/categories/${categoryId}`, { ...options, method: 'DELETE' })
   }
 
   /**
    * Refreshes all feeds in a category.
    * @param categoryId - ID of the category
+   * @param options - Optional request options
    */
-  async refreshCategoryFeeds(categoryId: number): Promise<void> {
-    await this.request(`/v1/categories/${categoryId}/refresh`, { method: 'PUT' })
+  async refreshCategoryFeeds(categoryId: number, options?: RequestOptions): Promise<void> {
+    await this.request(`/v1/categories/${categoryId}/refresh`, { ...options, method: 'PUT' })
   }
 
   /**
    * Retrieves entries for a specific category.
    * @param categoryId - ID of the category
    * @param filter - Optional filter parameters
+   * @param options - Optional request options
    * @returns Promise resolving to the filtered entries
    */
-  async getCategoryEntries(categoryId: number, filter?: Filter): Promise<EntryResultSet> {
-    const params = new URLSearchParams()
-    if (filter) {
-      Object.entries(filter).forEach(([key, value]) => {
-        if (value !== undefined) {
-          if (Array.isArray(value)) {
-            value.forEach(v => params.append(key, v.toString()))
-          } else {
-            params.append(key, value.toString())
-          }
-        }
-      })
-    }
-    const query = params.toString()
-    return this.request(`/v1/categories/${categoryId}/entries${query ? `?${query}` : ''}`)
+  async getCategoryEntries(
+    categoryId: number,
+    filter?: Filter,
+    options?: RequestOptions
+  ): Promise<EntryResultSet> {
+    return this.request(`/v1/categories/${categoryId}/entries${serializeFilter(filter)}`, options)
+  }
+
+  /**
+   * Iterates over all entries of a category, fetching pages as needed.
+   * @param categoryId - ID of the category
+   * @param filter - Optional filter parameters
+   * @param options - Optional page size, maximum number of entries and request options
+   * @returns Async iterator over the matching entries
+   */
+  async *iterateCategoryEntries(
+    categoryId: number,
+    filter?: Filter,
+    options?: PaginationOptions
+  ): AsyncGenerator<Entry> {
+    yield* this.paginate(
+      (pageFilter, requestOptions) =>
+        this.getCategoryEntries(categoryId, pageFilter, requestOptions),
+      filter,
+      options
+    )
   }
 
   /**
    * Marks all entries in a category as read.
    * @param categoryId - ID of the category
+   * @param options - Optional request options
    */
-  async markCategoryAsRead(categoryId: number): Promise<void> {
-    await this.request(`/v1/categories/${categoryId}/mark-all-as-read`, { method: 'PUT' })
+  async markCategoryAsRead(categoryId: number, options?: RequestOptions): Promise<void> {
+    await this.request(`/v1/categories/${categoryId}/mark-all-as-read`, {
+      ...options,
+      method: 'PUT',
+    })
   }
 
   // Enclosure Methods
@@ -387,19 +1136,26 @@ export class MinifluxClient {
   /**
    * Retrieves an enclosure.
    * @param enclosureId - ID of the enclosure
+   * @param options - Optional request options
    * @returns Promise resolving to the enclosure details
    */
-  async getEnclosure(enclosureId: number): Promise<Enclosure> {
-    return this.request(`/v1/enclosures/${enclosureId}`)
+  async getEnclosure(enclosureId: number, options?: RequestOptions): Promise<Enclosure> {
+    return this.request(`/v1/enclosures/${enclosureId}`, options)
   }
 
   /**
    * Updates an enclosure's media progression.
    * @param enclosureId - ID of the enclosure
    * @param mediaProgression - New media progression value
+   * @param options - Optional request options
    */
-  async updateEnclosure(enclosureId: number, mediaProgression: number): Promise<void> {
+  async updateEnclosure(
+    enclosureId: number,
+    mediaProgression: number,
+    options?: RequestOptions
+  ): Promise<void> {
     await this.request(`/v1/enclosures/${enclosureId}`, {
+      ...options,
       method: 'PUT',
       body: JSON.stringify({ media_progression: mediaProgression }),
     })
@@ -409,27 +1165,30 @@ export class MinifluxClient {
 
   /**
    * Retrieves the current user's information.
+   * @param options - Optional request options
    * @returns Promise resolving to the user details
    */
-  async getMe(): Promise<User> {
-    return this.request<User>('/v1/me')
+  async getMe(options?: RequestOptions): Promise<User> {
+    return this.request<User>('/v1/me', options)
   }
 
   /**
    * Retrieves all users (admin only).
+   * @param options - Optional request options
    * @returns Promise resolving to an array of users
    */
-  async getUsers(): Promise<User[]> {
-    return this.request<User[]>('/v1/users')
+  async getUsers(options?: RequestOptions): Promise<User[]> {
+    return this.request<User[]>('/v1/users', options)
   }
 
   /**
    * Retrieves a specific user.
    * @param userId - ID of the user
+   * @param options - Optional request options
    * @returns Promise resolving to the user details
    */
-  async getUser(userId: number): Promise<User> {
-    return this.request<User>(`/v1/users/${userId}`)
+  async getUser(userId: number, options?: RequestOptions): Promise<User> {
+    return this.request<User>(`/v1/users/${userId}`, options)
   }
 
   /**
@@ -437,10 +1196,17 @@ export class MinifluxClient {
    * @param username - Username for the new user
    * @param password - Password for the new user
    * @param isAdmin - Whether the new user should have admin privileges
+   * @param options - Optional request options
    * @returns Promise resolving to the created user
    */
-  async createUser(username: string, password: string, isAdmin: boolean): Promise<User> {
+  async createUser(
+    username: string,
+    password: string,
+    isAdmin: boolean,
+    options?: RequestOptions
+  ): Promise<User> {
     return this.request<User>('/v1/users', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({
         username,
@@ -454,10 +1220,16 @@ export class MinifluxClient {
    * Updates a user's information.
    * @param userId - ID of the user to update
    * @param changes - Partial user object containing the changes
+   * @param options - Optional request options
    * @returns Promise resolving to the updated user
    */
-  async updateUser(userId: number, changes: Partial<User>): Promise<User> {
+  async updateUser(
+    userId: number,
+    changes: Partial<User>,
+    options?: RequestOptions
+  ): Promise<User> {
     return this.request<User>(`/v1/users/${userId}`, {
+      ...options,
       method: 'PUT',
       body: JSON.stringify(changes),
     })
@@ -466,69 +1238,133 @@ export class MinifluxClient {
   /**
    * Deletes a user (admin only).
    * @param userId - ID of the user to delete
+   * @param options - Optional request options
    */
-  async deleteUser(userId: number): Promise<void> {
-    await this.request(`/v1/users/${userId}`, { method: 'DELETE' })
+  async deleteUser(userId: number, options?: RequestOptions): Promise<void> {
+    await this.request(`/v1/users/${userId}`, { ...options, method: 'DELETE' })
   }
 
   /**
    * Marks all entries for a user as read.
    * @param userId - ID of the user
+   * @param options - Optional request options
    */
-  async markUserAsRead(userId: number): Promise<void> {
-    await this.request(`/v1/users/${userId}/mark-all-as-read`, { method: 'PUT' })
+  async markUserAsRead(userId: number, options?: RequestOptions): Promise<void> {
+    await this.request(`/v1/users/${userId}/mark-all-as-read`, { ...options, method: 'PUT' })
+  }
+
+  // OPML Methods
+
+  /**
+   * Exports all feeds as an OPML document.
+   * @param options - Optional request options
+   * @returns Promise resolving to the OPML document
+   */
+  async exportOPML(options?: RequestOptions): Promise<string> {
+    return this.request('/v1/export', options, false)
+  }
+
+  /**
+   * Imports feeds from an OPML document.
+   * @param xml - OPML document
+   * @param options - Optional request options
+   * @returns Promise resolving to the import result message
+   */
+  async importOPML(xml: string, options?: RequestOptions): Promise<ImportResponse> {
+    return this.request('/v1/import', {
+      ...options,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: xml,
+    })
   }
 
   // System Methods
 
   /**
    * Checks the health status of the Miniflux server.
+   * @param options - Optional request options
    * @returns Promise resolving to "OK" if the server is healthy
    */
-  async healthcheck(): Promise<string> {
-    return this.request('/healthcheck', {}, false)
+  async healthcheck(options?: RequestOptions): Promise<string> {
+    return this.request('/healthcheck', options, false)
   }
 
   /**
    * Retrieves version information about the Miniflux server.
+   * @param options - Optional request options
    * @returns Promise resolving to version information
    */
-  async getVersion(): Promise<string> {
-    return this.request('/version', {}, false)
+  async getVersion(options?: RequestOptions): Promise<string> {
+    return this.request('/version', options, false)
   }
 
   /**
    * Retrieves read/unread counters for feeds.
+   * @param options - Optional request options
    * @returns Promise resolving to feed counters
    */
-  async getCounters(): Promise<FeedCounters> {
-    return this.request('/v1/feeds/counters')
+  async getCounters(options?: RequestOptions): Promise<FeedCounters> {
+    return this.request('/v1/feeds/counters', options)
   }
 
   // Utility Methods
   /**
    * Search for entries.
    * @param query - Search query
-   * @param limit - Optional limit for the number of results
+   * @param filter - Optional filter parameters, or the maximum number of results
+   * @param options - Optional request options
    * @returns Promise resolving to the search results
    */
-  async searchEntries(query: string, limit?: number): Promise<EntryResultSet> {
-    const params = new URLSearchParams()
-    params.append('search', query)
-    if (limit) {
-      params.append('limit', limit.toString())
-    }
-    return this.request(`/v1/entries?search=${params.toString()}}`)
+  async searchEntries(
+    query: string,
+    filter?: Filter | number,
+    options?: RequestOptions
+  ): Promise<EntryResultSet> {
+    const searchFilter = typeof filter === 'number' ? { limit: filter } : filter
+    return this.getEntries({ ...searchFilter, search: query }, options)
+  }
+
+  /**
+   * Runs a call for each item, e.g. `refreshFeed` for every feed, within the concurrency
+   * and rate limits of the client. A failing item does not stop the others; check the
+   * report for failures.
+   * @param items - Items to process
+   * @param fn - Function calling the client for one item
+   * @param options - Optional number of items processed at once
+   * @returns Promise resolving to a report of every item
+   */
+  async batch<T, R>(
+    items: Iterable<T>,
+    fn: (item: T, index: number) => Promise<R>,
+    options: BatchOptions = {}
+  ): Promise<BatchReport<T, R>> {
+    const list = Array.from(items)
+    const results = await mapWithConcurrency(
+      list,
+      options.concurrency ?? this.concurrency ?? list.length,
+      async (item, index): Promise<BatchItemResult<T, R>> => {
+        try {
+          return { item, success: true, value: await fn(item, index) }
+        } catch (error) {
+          return { item, success: false, error }
+        }
+      }
+    )
+
+    const succeeded = results.filter(result => result.success).length
+    return { total: list.length, succeeded, failed: list.length - succeeded, results }
   }
 
   /**
    * Retrieves the Miniflux URL for an entry.
    * @param id - ID of the entry
+   * @param options - Optional request options
    * @returns Promise resolving to the Miniflux URL
    */
-  async getMinifluxEntryUrl(id: number): Promise<string> {
-    const response = await this.request<EntryStatus>(`/v1/entries/${id}`)
+  async getMinifluxEntryUrl(id: number, options?: RequestOptions): Promise<string> {
+    const response = await this.request<EntryStatus>(`/v1/entries/${id}`, options)
     const { status } = response
     return `${this.baseUrl}/${status === 'read' ? 'history' : status}/entry/${id}`
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+/**
+ * Maps items through an async function, running at most `concurrency` calls at a time.
+ * @param items - Items to process
+ * @param concurrency - Maximum number of pending calls
+ * @param fn - Function processing one item
+ * @returns Promise resolving to the results, in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker)
+  await Promise.all(workers)
+  return results
+}
+
+/**
+ * Splits an array into chunks of at most `size` items.
+ * @param items - Items to split
+ * @param size - Maximum chunk size
+ * @returns The chunks
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += Math.max(1, size)) {
+    chunks.push(items.slice(i, i + Math.max(1, size)))
+  }
+  return chunks
+}
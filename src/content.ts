@@ -0,0 +1,620 @@
+import type { ExcerptOptions, HTMLConversionOptions, HTMLSource, LeadImage } from './types.ts'
+
+interface HTMLElement {
+  name: string
+  attributes: Record<string, string>
+  children: HTMLNode[]
+}
+
+type HTMLNode = HTMLElement | string
+
+type Format = 'text' | 'markdown' | 'excerpt'
+
+interface RenderContext {
+  format: Format
+  baseURL?: string
+  /** Code blocks, kept out of whitespace normalization until the end */
+  codeBlocks: string[]
+}
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|([^<]+|<)/g
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  shy: '',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  middot: '·',
+  bull: '•',
+  times: '×',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  deg: '°',
+  euro: '€',
+  pound: '£',
+}
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+])
+
+/** Elements whose content is never displayed */
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'template', 'noscript', 'head', 'title'])
+
+const BLOCK_ELEMENTS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'dd',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'summary',
+  'table',
+  'ul',
+])
+
+/**
+ * Decodes HTML character and entity references.
+ * @param value - Raw attribute or text value
+ * @returns The decoded string
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1))
+      return Number.isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code)
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Parses the attributes of a start tag.
+ * @param source - Attribute part of the tag
+ * @returns Attributes keyed by lowercase name
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+/**
+ * Parses HTML into a tree. Unclosed elements are closed as browsers do for the common
+ * cases (paragraphs, list items, table cells), and stray closing tags are ignored.
+ * @param html - HTML fragment
+ * @returns The root element, named `#root`
+ */
+function parseHTML(html: string): HTMLElement {
+  const root: HTMLElement = { name: '#root', attributes: {}, children: [] }
+  const stack = [root]
+  const pattern = new RegExp(TOKEN_PATTERN)
+
+  // Closes the innermost open element named in `names`, unless a boundary comes first
+  const closeOpen = (names: string[], boundaries: string[]) => {
+    for (let index = stack.length - 1; index > 0; index--) {
+      if (names.includes(stack[index].name)) {
+        stack.length = index
+        return
+      }
+      if (boundaries.includes(stack[index].name)) {
+        return
+      }
+    }
+  }
+
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(html))) {
+    const [, closing, rawName, rawAttributes, selfClosing, text] = match
+    const parent = stack[stack.length - 1]
+
+    if (text !== undefined) {
+      parent.children.push(decodeEntities(text))
+      continue
+    }
+    if (!rawName) {
+      continue
+    }
+
+    const name = rawName.toLowerCase()
+    if (closing) {
+      closeOpen([name], [])
+      continue
+    }
+
+    if (SKIPPED_ELEMENTS.has(name)) {
+      const end = html.toLowerCase().indexOf(`</${name}`, pattern.lastIndex)
+      pattern.lastIndex = end < 0 ? html.length : html.indexOf('>', end) + 1 || html.length
+      continue
+    }
+
+    if (BLOCK_ELEMENTS.has(name)) {
+      closeOpen(['p'], ['li', 'td', 'th', 'blockquote', 'div'])
+    }
+    if (name === 'li') {
+      closeOpen(['li'], ['ul', 'ol'])
+    } else if (name === 'dt' || name === 'dd') {
+      closeOpen(['dt', 'dd'], ['dl'])
+    } else if (name === 'tr') {
+      closeOpen(['tr'], ['table'])
+    } else if (name === 'td' || name === 'th') {
+      closeOpen(['td', 'th'], ['tr', 'table'])
+    }
+
+    const element: HTMLElement = {
+      name,
+      attributes: parseAttributes(rawAttributes ?? ''),
+      children: [],
+    }
+    stack[stack.length - 1].children.push(element)
+    if (!selfClosing && !VOID_ELEMENTS.has(name)) {
+      stack.push(element)
+    }
+  }
+
+  return root
+}
+
+/**
+ * Concatenates the text of a node and its descendants, keeping line breaks.
+ * @param node - Node to read
+ * @returns The text content
+ */
+function textContent(node: HTMLNode): string {
+  if (typeof node === 'string') {
+    return node
+  }
+  return node.name === 'br' ? '\n' : node.children.map(textContent).join('')
+}
+
+/**
+ * Resolves a URL against the base URL, leaving it unchanged when that fails.
+ * @param url - URL, possibly relative
+ * @param baseURL - Optional base URL
+ * @returns The resolved URL
+ */
+function resolveURL(url: string, baseURL?: string): string {
+  try {
+    return new URL(url.trim(), baseURL).href
+  } catch {
+    return url.trim()
+  }
+}
+
+/**
+ * Escapes the characters with a meaning in Markdown inline text, including the start of
+ * raw HTML and of entities, which were inert text in the source HTML.
+ * @param text - Text to escape
+ * @returns The escaped text
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<]|&(?=#?\w+;)/g, '\\$&')
+}
+
+/**
+ * Escapes the characters ending a Markdown link destination.
+ * @param url - URL to escape
+ * @returns The escaped URL
+ */
+function escapeMarkdownURL(url: string): string {
+  return url.replace(/[\s()]/g, char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`)
+}
+
+/**
+ * Wraps inline Markdown in a delimiter, keeping surrounding whitespace outside of it.
+ * @param inner - Rendered content
+ * @param delimiter - Delimiter, such as `**`
+ * @returns The wrapped content
+ */
+function wrapInline(inner: string, delimiter: string): string {
+  const [, leading, content, trailing] = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!
+  return content ? `${leading}${delimiter}${content}${delimiter}${trailing}` : inner
+}
+
+/**
+ * Surrounds a block with blank lines.
+ * @param inner - Rendered content of the block
+ * @returns The block, or an empty string when it has no content
+ */
+function block(inner: string): string {
+  const content = tidy(inner)
+  return content ? `\n\n${content}\n\n` : ''
+}
+
+/**
+ * Collapses runs of blank lines and trims the result.
+ * @param text - Rendered text
+ * @returns The tidied text
+ */
+function tidy(text: string): string {
+  return text
+    .replace(/\n[ \t]*(?=\n)/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Renders the children of an element, dropping repeated whitespace and whitespace at
+ * line boundaries.
+ * @param element - Element to render
+ * @param context - Render context
+ * @returns The rendered children
+ */
+function renderChildren(element: HTMLElement, context: RenderContext): string {
+  let output = ''
+  for (const child of element.children) {
+    let part = render(child, context)
+    if (!part) {
+      continue
+    }
+    if (part.startsWith('\n')) {
+      output = output.replace(/[ \t]+$/, '')
+    }
+    if (/\s$/.test(output)) {
+      part = part.replace(/^[ \t]+/, '')
+    }
+    output += part
+  }
+  return output
+}
+
+/**
+ * Renders a list, nesting the content of its items under their marker.
+ * @param list - `ul` or `ol` element
+ * @param context - Render context
+ * @returns The rendered list
+ */
+function renderList(list: HTMLElement, context: RenderContext): string {
+  let number = parseInt(list.attributes.start ?? '1') || 1
+  const items: string[] = []
+  for (const child of list.children) {
+    if (typeof child === 'string') {
+      continue
+    }
+    const content = tidy(
+      child.name === 'li' ? renderChildren(child, context) : render(child, context)
+    )
+    if (child.name !== 'li' && items.length > 0) {
+      // Lists nested directly in lists belong to the previous item
+      items[items.length - 1] += `\n${content.replace(/^/gm, '  ')}`
+      continue
+    }
+    const marker = context.format === 'excerpt' ? '' : list.name === 'ol' ? `${number++}. ` : '- '
+    const lines = content.replace(/\n{2,}/g, '\n').split('\n')
+    items.push(marker + lines.join(`\n${' '.repeat(marker.length)}`))
+  }
+  return block(items.join('\n'))
+}
+
+/**
+ * Renders a table, one row per line.
+ * @param table - `table` element
+ * @param context - Render context
+ * @returns The rendered table
+ */
+function renderTable(table: HTMLElement, context: RenderContext): string {
+  const rows: string[][] = []
+  const collectRows = (element: HTMLElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') {
+        continue
+      }
+      if (child.name === 'tr') {
+        const cells = child.children.filter(
+          (cell): cell is HTMLElement =>
+            typeof cell !== 'string' && (cell.name === 'td' || cell.name === 'th')
+        )
+        rows.push(cells.map(cell => tidy(renderChildren(cell, context)).replace(/\s*\n\s*/g, ' ')))
+      } else if (child.name !== 'table') {
+        collectRows(child)
+      }
+    }
+  }
+  collectRows(table)
+
+  if (context.format !== 'markdown') {
+    return block(rows.map(cells => cells.join(' | ')).join('\n'))
+  }
+  const columns = Math.max(0, ...rows.map(cells => cells.length))
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, index) => (cells[index] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`
+  const lines = rows.map(line)
+  if (lines.length > 0) {
+    lines.splice(1, 0, `| ${Array.from({ length: columns }, () => '---').join(' | ')} |`)
+  }
+  return block(lines.join('\n'))
+}
+
+/**
+ * Renders a preformatted block as a code block.
+ * @param pre - `pre` element
+ * @param context - Render context
+ * @returns A placeholder for the code block, replaced once the output is tidied
+ */
+function renderCodeBlock(pre: HTMLElement, context: RenderContext): string {
+  const code = textContent(pre).replace(/^\n/, '').trimEnd()
+  if (!code) {
+    return ''
+  }
+  let rendered = code
+  if (context.format === 'markdown') {
+    const codeElement = pre.children.find(
+      (child): child is HTMLElement => typeof child !== 'string' && child.name === 'code'
+    )
+    const className = `${pre.attributes.class ?? ''} ${codeElement?.attributes.class ?? ''}`
+    const language = className.match(/(?:^|\s)lang(?:uage)?-([\w+#.-]+)/)?.[1] ?? ''
+    const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length))
+    const fence = '`'.repeat(Math.max(3, longestRun + 1))
+    rendered = `${fence}${language}\n${code}\n${fence}`
+  }
+  context.codeBlocks.push(rendered)
+  return block(`\uE000${context.codeBlocks.length - 1}\uE000`)
+}
+
+/**
+ * Renders a node.
+ * @param node - Node to render
+ * @param context - Render context
+ * @returns The rendered node
+ */
+function render(node: HTMLNode, context: RenderContext): string {
+  const { format } = context
+  if (typeof node === 'string') {
+    const text = node.replace(/\s+/g, ' ')
+    return format === 'markdown' ? escapeMarkdown(text) : text
+  }
+
+  switch (node.name) {
+    case 'br':
+      return format === 'markdown' ? '  \n' : '\n'
+    case 'hr':
+      return format === 'excerpt' ? ' ' : block('---')
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const heading = tidy(renderChildren(node, context)).replace(/\s*\n\s*/g, ' ')
+      return block(
+        format === 'markdown' && heading ? `${'#'.repeat(+node.name[1])} ${heading}` : heading
+      )
+    }
+    case 'blockquote': {
+      const quote = tidy(renderChildren(node, context))
+      return block(format === 'excerpt' ? quote : quote.replace(/^/gm, '> ').replace(/^> $/gm, '>'))
+    }
+    case 'ul':
+    case 'ol':
+      return renderList(node, context)
+    case 'li':
+      return renderList({ name: 'ul', attributes: {}, children: [node] }, context)
+    case 'table':
+      return renderTable(node, context)
+    case 'pre':
+      return renderCodeBlock(node, context)
+    case 'code':
+    case 'kbd':
+    case 'samp':
+    case 'tt': {
+      const code = textContent(node).replace(/\s+/g, ' ')
+      if (format !== 'markdown' || !code.trim()) {
+        return code
+      }
+      const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length))
+      const ticks = '`'.repeat(longestRun + 1)
+      return longestRun > 0 ? `${ticks} ${code} ${ticks}` : `${ticks}${code}${ticks}`
+    }
+    case 'strong':
+    case 'b':
+      return format === 'markdown'
+        ? wrapInline(renderChildren(node, context), '**')
+        : renderChildren(node, context)
+    case 'em':
+    case 'i':
+      return format === 'markdown'
+        ? wrapInline(renderChildren(node, context), '_')
+        : renderChildren(node, context)
+    case 'del':
+    case 's':
+    case 'strike':
+      return format === 'markdown'
+        ? wrapInline(renderChildren(node, context), '~~')
+        : renderChildren(node, context)
+    case 'a': {
+      const inner = renderChildren(node, context)
+      const href = node.attributes.href?.trim()
+      if (format === 'excerpt' || !href || href.startsWith('#') || /^javascript:/i.test(href)) {
+        return inner
+      }
+      const url = resolveURL(href, context.baseURL)
+      const text = inner.trim()
+      if (format === 'markdown') {
+        return text ? `[${text}](${escapeMarkdownURL(url)})` : `<${url}>`
+      }
+      return !text || text === url || text === href ? url : `${text} (${url})`
+    }
+    case 'img': {
+      const src = node.attributes.src || node.attributes['data-src']
+      const alt = (node.attributes.alt ?? '').replace(/\s+/g, ' ').trim()
+      if (format === 'excerpt' || !src) {
+        return format === 'excerpt' ? '' : alt
+      }
+      const url = resolveURL(src, context.baseURL)
+      if (format === 'markdown') {
+        return `![${escapeMarkdown(alt)}](${escapeMarkdownURL(url)})`
+      }
+      return alt ? `[Image: ${alt}] (${url})` : `[Image] (${url})`
+    }
+    default: {
+      const inner = renderChildren(node, context)
+      return BLOCK_ELEMENTS.has(node.name) || node.name === 'td' || node.name === 'th'
+        ? block(inner)
+        : inner
+    }
+  }
+}
+
+/**
+ * Converts an HTML source into the given format.
+ * @param source - HTML string, entry or `fetchContent` result
+ * @param format - Output format
+ * @param options - Optional base URL
+ * @returns The converted content
+ */
+function convert(source: HTMLSource, format: Format, options: HTMLConversionOptions = {}): string {
+  const html = typeof source === 'string' ? source : (source.content ?? '')
+  const context: RenderContext = {
+    format,
+    baseURL: options.baseURL ?? (typeof source === 'string' ? undefined : source.url),
+    codeBlocks: [],
+  }
+  const output = tidy(renderChildren(parseHTML(html), context))
+  // Code blocks are indented like the line holding their placeholder, e.g. in list items
+  return output.replace(/^(.*?)\uE000(\d+)\uE000/gm, (_, prefix: string, index: string) => {
+    const indent = prefix.replace(/[^\s>]/g, ' ')
+    return prefix + context.codeBlocks[+index].replace(/\n/g, `\n${indent}`)
+  })
+}
+
+/**
+ * Converts HTML, such as the content of an entry, to plain text. Links are followed by
+ * their URL, images are replaced by their alternative text and URL, and lists and code
+ * blocks keep their layout.
+ * @param source - HTML string, entry or `fetchContent` result
+ * @param options - Optional base URL for relative links
+ * @returns The plain text
+ */
+export function htmlToText(source: HTMLSource, options?: HTMLConversionOptions): string {
+  return convert(source, 'text', options)
+}
+
+/**
+ * Converts HTML, such as the content of an entry, to Markdown.
+ * @param source - HTML string, entry or `fetchContent` result
+ * @param options - Optional base URL for relative links
+ * @returns The Markdown
+ */
+export function htmlToMarkdown(source: HTMLSource, options?: HTMLConversionOptions): string {
+  return convert(source, 'markdown', options)
+}
+
+/**
+ * Creates a single-line excerpt of HTML, shortened at a word boundary.
+ * @param source - HTML string, entry or `fetchContent` result
+ * @param options - Optional maximum length and ellipsis
+ * @returns The excerpt
+ */
+export function createExcerpt(source: HTMLSource, options: ExcerptOptions = {}): string {
+  const { maxLength = 200, ellipsis = '…' } = options
+  const text = convert(source, 'excerpt', options).replace(/\s+/g, ' ').trim()
+  // Count code points, so that surrogate pairs are never split
+  const chars = Array.from(text)
+  if (chars.length <= maxLength) {
+    return text
+  }
+
+  const limit = Math.max(0, maxLength - Array.from(ellipsis).length)
+  const candidate = chars.slice(0, limit + 1).join('')
+  const boundary = candidate.lastIndexOf(' ')
+  const head = boundary > 0 ? candidate.slice(0, boundary) : chars.slice(0, limit).join('')
+  return head.replace(/[\s,.;:!?–—-]+$/, '') + ellipsis
+}
+
+/**
+ * Finds the first image of HTML, skipping tracking pixels. For entries without images in
+ * their content, the first image enclosure is used.
+ * @param source - HTML string, entry or `fetchContent` result
+ * @param options - Optional base URL for relative images
+ * @returns The URL and alternative text of the image, or undefined if there is none
+ */
+export function extractLeadImage(
+  source: HTMLSource,
+  options: HTMLConversionOptions = {}
+): LeadImage | undefined {
+  const html = typeof source === 'string' ? source : (source.content ?? '')
+  const baseURL = options.baseURL ?? (typeof source === 'string' ? undefined : source.url)
+
+  const find = (element: HTMLElement): LeadImage | undefined => {
+    for (const child of element.children) {
+      if (typeof child === 'string') {
+        continue
+      }
+      if (child.name === 'img') {
+        const src = child.attributes.src || child.attributes['data-src']
+        const isPixel = ['width', 'height'].some(
+          dimension => child.attributes[dimension] && parseInt(child.attributes[dimension]) <= 1
+        )
+        if (src && !isPixel) {
+          const alt = child.attributes.alt?.trim()
+          return { url: resolveURL(src, baseURL), ...(alt ? { alt } : {}) }
+        }
+      }
+      const image = find(child)
+      if (image) {
+        return image
+      }
+    }
+    return undefined
+  }
+
+  const image = find(parseHTML(html))
+  if (image || typeof source === 'string') {
+    return image
+  }
+  const enclosure = source.enclosures?.find(item => item.mime_type.startsWith('image/'))
+  return enclosure ? { url: enclosure.url } : undefined
+}
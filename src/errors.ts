@@ -0,0 +1,225 @@
+import type { SchemaIssue, Subscription } from './types.ts'
+
+/**
+ * Details attached to every error thrown by the client.
+ */
+export interface MinifluxErrorDetails {
+  /** HTTP method of the failed request */
+  method: string
+  /** API path of the failed request, e.g. `/v1/feeds/1` */
+  path: string
+  /** HTTP status code, when the server responded */
+  status?: number
+  /** Raw response body, when the server responded */
+  body?: string
+  /** Parsed `error_message` field of the response body, if any */
+  errorMessage?: string
+  /** Underlying error, e.g. the exception thrown by `fetch` */
+  cause?: unknown
+}
+
+/**
+ * Base class for all errors thrown by MinifluxClient.
+ */
+export class MinifluxError extends Error {
+  readonly method: string
+  readonly path: string
+  readonly status?: number
+  readonly body?: string
+  readonly errorMessage?: string
+
+  constructor(message: string, details: MinifluxErrorDetails) {
+    super(message, { cause: details.cause })
+    this.name = 'MinifluxError'
+    this.method = details.method
+    this.path = details.path
+    this.status = details.status
+    this.body = details.body
+    this.errorMessage = details.errorMessage
+  }
+}
+
+/**
+ * Thrown when the server rejects the credentials (HTTP 401).
+ */
+export class MinifluxAuthenticationError extends MinifluxError {
+  constructor(message: string, details: MinifluxErrorDetails) {
+    super(message, details)
+    this.name = 'MinifluxAuthenticationError'
+  }
+}
+
+/**
+ * Thrown when the user is not allowed to access a resource (HTTP 403).
+ */
+export class MinifluxForbiddenError extends MinifluxError {
+  constructor(message: string, details: MinifluxErrorDetails) {
+    super(message, details)
+    this.name = 'MinifluxForbiddenError'
+  }
+}
+
+/**
+ * Thrown when the requested resource does not exist (HTTP 404).
+ */
+export class MinifluxNotFoundError extends MinifluxError {
+  constructor(message: string, details: MinifluxErrorDetails) {
+    super(message, details)
+    this.name = 'MinifluxNotFoundError'
+  }
+}
+
+/**
+ * Thrown when the server rejects the request payload (HTTP 400 or 422).
+ */
+export class MinifluxValidationError extends MinifluxError {
+  constructor(message: string, details: MinifluxErrorDetails) {
+    super(message, details)
+    this.name = 'MinifluxValidationError'
+  }
+}
+
+/**
+ * Thrown when the server fails to handle the request (HTTP 5xx).
+ */
+export class MinifluxServerError extends MinifluxError {
+  constructor(message: string, details: MinifluxErrorDetails) {
+    super(message, details)
+    this.name = 'MinifluxServerError'
+  }
+}
+
+/**
+ * Thrown when the server could not be reached.
+ */
+export class MinifluxNetworkError extends MinifluxError {
+  constructor(message: string, details: MinifluxErrorDetails) {
+    super(message, details)
+    this.name = 'MinifluxNetworkError'
+  }
+}
+
+/**
+ * Thrown when the request did not complete in time.
+ */
+export class MinifluxTimeoutError extends MinifluxNetworkError {
+  constructor(message: string, details: MinifluxErrorDetails) {
+    super(message, details)
+    this.name = 'MinifluxTimeoutError'
+  }
+}
+
+/**
+ * Thrown when the call is cancelled through its AbortSignal.
+ */
+export class MinifluxAbortError extends MinifluxError {
+  constructor(message: string, details: MinifluxErrorDetails) {
+    super(message, details)
+    this.name = 'MinifluxAbortError'
+  }
+}
+
+/**
+ * Thrown by `subscribe` when no feed, or more than one feed, is found for a URL.
+ */
+export class MinifluxDiscoveryError extends MinifluxError {
+  /** Subscriptions found for the URL, empty when none were found */
+  readonly candidates: Subscription[]
+
+  constructor(message: string, details: MinifluxErrorDetails, candidates: Subscription[] = []) {
+    super(message, details)
+    this.name = 'MinifluxDiscoveryError'
+    this.candidates = candidates
+  }
+}
+
+/**
+ * Thrown in strict validation mode when a response does not match the declared types.
+ */
+export class MinifluxSchemaError extends MinifluxError {
+  /** Mismatches found in the response body */
+  readonly issues: SchemaIssue[]
+
+  constructor(message: string, details: MinifluxErrorDetails, issues: SchemaIssue[]) {
+    super(message, details)
+    this.name = 'MinifluxSchemaError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Thrown when a webhook request cannot be verified or parsed.
+ */
+export class MinifluxWebhookError extends Error {
+  /** HTTP status to answer the webhook request with */
+  readonly status: 401 | 400
+
+  constructor(message: string, status: 401 | 400) {
+    super(message)
+    this.name = 'MinifluxWebhookError'
+    this.status = status
+  }
+}
+
+/**
+ * Builds the error matching the status code of a failed response.
+ * @param details - Details of the failed request, including the status code
+ * @returns The error to throw
+ */
+export function createResponseError(details: MinifluxErrorDetails): MinifluxError {
+  const message = details.errorMessage || details.body || `HTTP ${details.status}`
+  const status = details.status ?? 0
+
+  if (status === 401) {
+    return new MinifluxAuthenticationError(message, details)
+  }
+  if (status === 403) {
+    return new MinifluxForbiddenError(message, details)
+  }
+  if (status === 404) {
+    return new MinifluxNotFoundError(message, details)
+  }
+  if (status === 400 || status === 422) {
+    return new MinifluxValidationError(message, details)
+  }
+  if (status >= 500) {
+    return new MinifluxServerError(message, details)
+  }
+  return new MinifluxError(message, details)
+}
+
+/**
+ * Wraps an exception thrown by `fetch` into a MinifluxError.
+ * @param cause - The exception thrown by `fetch`
+ * @param details - Method and path of the failed request
+ * @returns The error to throw
+ */
+export function createNetworkError(
+  cause: unknown,
+  details: Pick<MinifluxErrorDetails, 'method' | 'path'>
+): MinifluxError {
+  const reason = cause instanceof Error ? cause.message : String(cause)
+  if (cause instanceof Error && cause.name === 'TimeoutError') {
+    return new MinifluxTimeoutError(`Request timed out: ${reason}`, { ...details, cause })
+  }
+  return new MinifluxNetworkError(`Network request failed: ${reason}`, { ...details, cause })
+}
+
+/**
+ * Builds the error for a call whose signal was aborted.
+ * @param reason - Abort reason of the signal
+ * @param details - Method and path of the cancelled request
+ * @returns A MinifluxTimeoutError if the call timed out, a MinifluxAbortError otherwise
+ */
+export function createAbortError(
+  reason: unknown,
+  details: Pick<MinifluxErrorDetails, 'method' | 'path'>
+): MinifluxError {
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return new MinifluxTimeoutError(`Request timed out: ${reason.message}`, {
+      ...details,
+      cause: reason,
+    })
+  }
+  return new MinifluxAbortError('Request was aborted', { ...details, cause: reason })
+}
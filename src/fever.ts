@@ -0,0 +1,349 @@
+import type {
+  Category,
+  Entry,
+  Feed,
+  FeedIcon,
+  FetchFunction,
+  FeverConfig,
+  FeverItems,
+  FeverItemsOptions,
+  RequestOptions,
+} from './types.ts'
+import { MinifluxAuthenticationError, MinifluxError } from './errors.ts'
+import { md5 } from './md5.ts'
+import { sendRequest } from './transport.ts'
+
+const FEVER_PATH = '/fever/'
+
+interface RawFeedsGroup {
+  group_id: number
+  feed_ids: string
+}
+
+interface RawFeed {
+  id: number
+  favicon_id: number
+  title: string
+  url: string
+  site_url: string
+  last_updated_on_time: number
+}
+
+interface RawItem {
+  id: number
+  feed_id: number
+  title: string
+  author: string
+  html: string
+  url: string
+  is_saved: number
+  is_read: number
+  created_on_time: number
+}
+
+interface FeverResponse {
+  auth: number
+  groups?: { id: number; title: string }[]
+  feeds?: RawFeed[]
+  feeds_groups?: RawFeedsGroup[]
+  favicons?: { id: number; data: string }[]
+  items?: RawItem[]
+  total_items?: number
+  unread_item_ids?: string
+  saved_item_ids?: string
+}
+
+/**
+ * Parses a comma-separated list of IDs.
+ * @param ids - IDs separated by commas
+ * @returns The IDs
+ */
+function parseIds(ids?: string): number[] {
+  return ids ? ids.split(',').filter(Boolean).map(Number) : []
+}
+
+/**
+ * Converts a Fever item to an entry.
+ * @param item - Fever item
+ * @returns The entry
+ */
+function toEntry(item: RawItem): Entry {
+  const published = new Date(item.created_on_time * 1000).toISOString()
+  return {
+    id: item.id,
+    user_id: 0,
+    feed_id: item.feed_id,
+    status: item.is_read ? 'read' : 'unread',
+    starred: Boolean(item.is_saved),
+    title: item.title,
+    url: item.url,
+    published_at: published,
+    created_at: published,
+    content: item.html,
+    author: item.author || undefined,
+  }
+}
+
+/**
+ * Client for the Fever API of Miniflux, for integrations that only support Fever.
+ * Results are mapped onto the `Entry`, `Feed`, `Category` and `FeedIcon` types of
+ * MinifluxClient; Fever groups are categories, saved items are starred entries. Fever
+ * does not expose user IDs, so these fields are 0.
+ */
+export class FeverClient {
+  private baseUrl: string
+  private apiKey: string
+  private timeout?: number
+  private fetch: FetchFunction
+
+  /**
+   * Creates a new FeverClient instance.
+   * @param config - Configuration object for the client
+   * @throws {Error} When the base URL or credentials are missing
+   */
+  constructor(config: FeverConfig) {
+    if (!config.baseURL) {
+      throw new Error('Miniflux base URL is required')
+    }
+    if (!config.apiKey && (!config.username || !config.password)) {
+      throw new Error('Fever API key, or username and password, are required')
+    }
+
+    this.baseUrl = config.baseURL.replace(/\/$/, '')
+    this.apiKey = config.apiKey ?? md5(`${config.username}:${config.password}`)
+    this.timeout = config.timeout
+    this.fetch = config.fetch ?? ((input, init) => fetch(input, init))
+  }
+
+  /**
+   * Makes a request to the Fever API.
+   * @param query - Query parameters selecting the data, in addition to `api`
+   * @param form - Form fields sent with the API key
+   * @param options - Optional request options
+   * @returns Promise resolving to the parsed response
+   * @throws {MinifluxAuthenticationError} When the API key is rejected
+   * @throws {MinifluxError} On error responses, network failures, timeouts and aborts
+   */
+  private async request(
+    query: Record<string, string | number>,
+    form: Record<string, string | number> = {},
+    options?: RequestOptions
+  ): Promise<FeverResponse> {
+    const search = Object.entries(query)
+      .map(([key, value]) => (value === '' ? key : `${key}=${encodeURIComponent(value)}`))
+      .join('&')
+    const path = `${FEVER_PATH}?api${search ? `&${search}` : ''}`
+    const body = new URLSearchParams({ api_key: this.apiKey })
+    Object.entries(form).forEach(([key, value]) => body.set(key, String(value)))
+
+    const text = await sendRequest({
+      fetch: this.fetch,
+      url: this.baseUrl + path,
+      path,
+      method: 'POST',
+      headers: new Headers({ 'Content-Type': 'application/x-www-form-urlencoded' }),
+      body: body.toString(),
+      signal: options?.signal,
+      timeout: options?.timeout ?? this.timeout,
+    })
+
+    let response: FeverResponse
+    try {
+      response = JSON.parse(text)
+    } catch (cause) {
+      throw new MinifluxError('Invalid JSON response', { method: 'POST', path, body: text, cause })
+    }
+    if (response.auth !== 1) {
+      throw new MinifluxAuthenticationError('Invalid Fever API key', {
+        method: 'POST',
+        path,
+        body: text,
+      })
+    }
+    return response
+  }
+
+  /**
+   * Checks the API key.
+   * @param options - Optional request options
+   * @returns Promise resolving to whether the server accepts the API key
+   */
+  async verifyCredentials(options?: RequestOptions): Promise<boolean> {
+    try {
+      await this.request({}, {}, options)
+      return true
+    } catch (error) {
+      if (error instanceof MinifluxAuthenticationError) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Retrieves all categories (Fever groups).
+   * @param options - Optional request options
+   * @returns Promise resolving to an array of categories
+   */
+  async getCategories(options?: RequestOptions): Promise<Category[]> {
+    const { groups = [] } = await this.request({ groups: '' }, {}, options)
+    return groups.map(group => ({ id: group.id, user_id: 0, title: group.title }))
+  }
+
+  /**
+   * Retrieves all feeds, with their category.
+   * @param options - Optional request options
+   * @returns Promise resolving to an array of feeds
+   */
+  async getFeeds(options?: RequestOptions): Promise<Feed[]> {
+    const [{ feeds = [], feeds_groups = [] }, categories] = await Promise.all([
+      this.request({ feeds: '' }, {}, options),
+      this.getCategories(options),
+    ])
+    const categoriesByFeed = new Map<number, Category>()
+    for (const { group_id, feed_ids } of feeds_groups) {
+      const category = categories.find(item => item.id === group_id)
+      if (category) {
+        parseIds(feed_ids).forEach(feedId => categoriesByFeed.set(feedId, category))
+      }
+    }
+    return feeds.map(feed => ({
+      id: feed.id,
+      user_id: 0,
+      title: feed.title,
+      site_url: feed.site_url,
+      feed_url: feed.url,
+      category: categoriesByFeed.get(feed.id),
+      checked_at: feed.last_updated_on_time
+        ? new Date(feed.last_updated_on_time * 1000).toISOString()
+        : undefined,
+    }))
+  }
+
+  /**
+   * Retrieves the feed icons. Their ID is the `favicon_id` of Fever feeds.
+   * @param options - Optional request options
+   * @returns Promise resolving to an array of icons
+   */
+  async getFavicons(options?: RequestOptions): Promise<FeedIcon[]> {
+    const { favicons = [] } = await this.request({ favicons: '' }, {}, options)
+    return favicons.map(favicon => ({
+      id: favicon.id,
+      data: favicon.data,
+      mime_type: favicon.data.split(';')[0],
+    }))
+  }
+
+  /**
+   * Retrieves one page of at most 50 entries.
+   * @param itemsOptions - Optional `sinceId`, `maxId` or `withIds` criteria
+   * @param options - Optional request options
+   * @returns Promise resolving to the entries of the page and the total number of items
+   */
+  async getItems(
+    itemsOptions: FeverItemsOptions = {},
+    options?: RequestOptions
+  ): Promise<FeverItems> {
+    const query: Record<string, string | number> = { items: '' }
+    if (itemsOptions.sinceId !== undefined) {
+      query.since_id = itemsOptions.sinceId
+    }
+    if (itemsOptions.maxId !== undefined) {
+      query.max_id = itemsOptions.maxId
+    }
+    if (itemsOptions.withIds) {
+      query.with_ids = itemsOptions.withIds.join(',')
+    }
+    const { items = [], total_items = 0 } = await this.request(query, {}, options)
+    return { entries: items.map(toEntry), total: total_items }
+  }
+
+  /**
+   * Iterates over all entries, oldest first, fetching pages with `since_id`.
+   * @param sinceId - Only yield entries with a higher ID (default: 0)
+   * @param options - Optional request options
+   * @returns Async iterator over the entries
+   */
+  async *iterateItems(sinceId = 0, options?: RequestOptions): AsyncGenerator<Entry> {
+    let cursor = sinceId
+    for (;;) {
+      const { entries } = await this.getItems({ sinceId: cursor }, options)
+      if (entries.length === 0) {
+        return
+      }
+      yield* entries
+      cursor = Math.max(...entries.map(entry => entry.id))
+    }
+  }
+
+  /**
+   * Retrieves the IDs of all unread entries.
+   * @param options - Optional request options
+   * @returns Promise resolving to the entry IDs
+   */
+  async getUnreadEntryIds(options?: RequestOptions): Promise<number[]> {
+    const { unread_item_ids } = await this.request({ unread_item_ids: '' }, {}, options)
+    return parseIds(unread_item_ids)
+  }
+
+  /**
+   * Retrieves the IDs of all saved (starred) entries.
+   * @param options - Optional request options
+   * @returns Promise resolving to the entry IDs
+   */
+  async getSavedEntryIds(options?: RequestOptions): Promise<number[]> {
+    const { saved_item_ids } = await this.request({ saved_item_ids: '' }, {}, options)
+    return parseIds(saved_item_ids)
+  }
+
+  /**
+   * Changes the status of an entry.
+   * @param entryId - ID of the entry
+   * @param as - 'read', 'unread', 'saved' (starred) or 'unsaved'
+   * @param options - Optional request options
+   */
+  async markItem(
+    entryId: number,
+    as: 'read' | 'unread' | 'saved' | 'unsaved',
+    options?: RequestOptions
+  ): Promise<void> {
+    await this.request({}, { mark: 'item', as, id: entryId }, options)
+  }
+
+  /**
+   * Marks the entries of a feed as read.
+   * @param feedId - ID of the feed
+   * @param before - Only mark entries created before this Unix timestamp (default: now)
+   * @param options - Optional request options
+   */
+  async markFeedAsRead(feedId: number, before?: number, options?: RequestOptions): Promise<void> {
+    await this.request(
+      {},
+      { mark: 'feed', as: 'read', id: feedId, before: before ?? Math.floor(Date.now() / 1000) },
+      options
+    )
+  }
+
+  /**
+   * Marks the entries of a category (Fever group) as read.
+   * @param categoryId - ID of the category
+   * @param before - Only mark entries created before this Unix timestamp (default: now)
+   * @param options - Optional request options
+   */
+  async markCategoryAsRead(
+    categoryId: number,
+    before?: number,
+    options?: RequestOptions
+  ): Promise<void> {
+    await this.request(
+      {},
+      {
+        mark: 'group',
+        as: 'read',
+        id: categoryId,
+        before: before ?? Math.floor(Date.now() / 1000),
+      },
+      options
+    )
+  }
+}
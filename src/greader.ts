@@ -0,0 +1,523 @@
+import type {
+  Category,
+  Entry,
+  FetchFunction,
+  Feed,
+  GoogleReaderConfig,
+  GoogleReaderStream,
+  GoogleReaderStreamOptions,
+  GoogleReaderTagEdit,
+  GoogleReaderUnreadCounts,
+  RequestOptions,
+} from './types.ts'
+import { MinifluxAuthenticationError, MinifluxError } from './errors.ts'
+import { sendRequest } from './transport.ts'
+
+/**
+ * Stream IDs of the Google Reader API.
+ */
+export const GOOGLE_READER_STREAMS = {
+  /** All entries */
+  readingList: 'user/-/state/com.google/reading-list',
+  /** Read entries; add or remove this tag to change the read status */
+  read: 'user/-/state/com.google/read',
+  /** Starred entries; add or remove this tag to change the starred flag */
+  starred: 'user/-/state/com.google/starred',
+  /** Entries of a feed */
+  feed: (feedId: number) => `feed/${feedId}`,
+  /** Entries of a category */
+  label: (title: string) => `user/-/label/${title}`,
+} as const
+
+const API_PATH = '/reader/api/0'
+const LABEL_PREFIX = 'user/-/label/'
+const ITEM_PREFIX = 'tag:google.com,2005:reader/item/'
+
+interface RawCategory {
+  id: string
+  label?: string
+}
+
+interface RawSubscription {
+  id: string
+  title: string
+  categories?: RawCategory[]
+  url: string
+  htmlUrl: string
+}
+
+interface RawItem {
+  id: string
+  categories?: string[]
+  title?: string
+  published?: number
+  updated?: number
+  crawlTimeMsec?: string
+  canonical?: { href: string }[]
+  alternate?: { href: string }[]
+  summary?: { content?: string }
+  content?: { content?: string }
+  author?: string
+  enclosure?: { url: string; type?: string }[]
+  origin?: { streamId: string; title?: string; htmlUrl?: string }
+}
+
+/**
+ * Converts a Google Reader item ID, in long or short form, to an entry ID.
+ * @param id - Item ID, e.g. `tag:google.com,2005:reader/item/000000000000001a` or `26`
+ * @returns The entry ID
+ */
+function parseItemId(id: string): number {
+  return id.startsWith(ITEM_PREFIX) ? parseInt(id.slice(ITEM_PREFIX.length), 16) : Number(id)
+}
+
+/**
+ * Converts an entry ID to a long form Google Reader item ID.
+ * @param entryId - Entry ID
+ * @returns The item ID
+ */
+function formatItemId(entryId: number): string {
+  return ITEM_PREFIX + entryId.toString(16).padStart(16, '0')
+}
+
+/**
+ * Extracts the feed ID of a `feed/{id}` stream ID.
+ * @param streamId - Stream ID of the feed
+ * @returns The feed ID, or 0 when the stream is not a feed
+ */
+function parseFeedId(streamId?: string): number {
+  return streamId?.startsWith('feed/') ? Number(streamId.slice(5)) : 0
+}
+
+/**
+ * Builds a category from a label stream ID.
+ * @param streamId - Stream ID of the label
+ * @returns The category, or undefined when the stream is not a label
+ */
+function toCategory(streamId: string): Category | undefined {
+  return streamId.startsWith(LABEL_PREFIX)
+    ? { id: 0, user_id: 0, title: streamId.slice(LABEL_PREFIX.length) }
+    : undefined
+}
+
+/**
+ * Converts a subscription to a feed.
+ * @param subscription - Google Reader subscription
+ * @returns The feed
+ */
+function toFeed(subscription: RawSubscription): Feed {
+  const label = subscription.categories?.find(category => category.id.startsWith(LABEL_PREFIX))
+  return {
+    id: parseFeedId(subscription.id),
+    user_id: 0,
+    title: subscription.title,
+    site_url: subscription.htmlUrl,
+    feed_url: subscription.url,
+    category: label && toCategory(label.id),
+  }
+}
+
+/**
+ * Converts a stream item to an entry.
+ * @param item - Google Reader item
+ * @returns The entry
+ */
+function toEntry(item: RawItem): Entry {
+  const id = parseItemId(item.id)
+  const categories = item.categories ?? []
+  const published = new Date((item.published ?? 0) * 1000).toISOString()
+  const feedId = parseFeedId(item.origin?.streamId)
+  const category = categories.map(toCategory).find(Boolean)
+  return {
+    id,
+    user_id: 0,
+    feed_id: feedId,
+    status: categories.includes(GOOGLE_READER_STREAMS.read) ? 'read' : 'unread',
+    starred: categories.includes(GOOGLE_READER_STREAMS.starred),
+    title: item.title ?? '',
+    url: item.canonical?.[0]?.href ?? item.alternate?.[0]?.href ?? '',
+    published_at: published,
+    created_at: item.crawlTimeMsec ? new Date(Number(item.crawlTimeMsec)).toISOString() : published,
+    changed_at: item.updated ? new Date(item.updated * 1000).toISOString() : undefined,
+    content: item.content?.content ?? item.summary?.content,
+    author: item.author,
+    enclosures: item.enclosure?.map(enclosure => ({
+      id: 0,
+      user_id: 0,
+      entry_id: id,
+      url: enclosure.url,
+      mime_type: enclosure.type ?? '',
+      size: 0,
+      media_progression: 0,
+    })),
+    feed: item.origin && {
+      id: feedId,
+      user_id: 0,
+      title: item.origin.title ?? '',
+      site_url: item.origin.htmlUrl ?? '',
+      feed_url: '',
+      category,
+    },
+    category,
+  }
+}
+
+/**
+ * Client for the Google Reader-compatible API of Miniflux, for instances where only
+ * that API is enabled. Results are mapped onto the `Feed`, `Category` and `Entry` types
+ * of MinifluxClient. The Google Reader API identifies categories by title and does not
+ * expose user IDs or feed URLs of entries, so these fields are 0 or empty.
+ */
+export class GoogleReaderClient {
+  private baseUrl: string
+  private username: string
+  private password: string
+  private timeout?: number
+  private fetch: FetchFunction
+  private authToken?: Promise<string>
+  private actionToken?: Promise<string>
+
+  /**
+   * Creates a new GoogleReaderClient instance.
+   * @param config - Configuration object for the client
+   * @throws {Error} When the base URL or credentials are missing
+   */
+  constructor(config: GoogleReaderConfig) {
+    if (!config.baseURL) {
+      throw new Error('Miniflux base URL is required')
+    }
+    if (!config.username || !config.password) {
+      throw new Error('Google Reader username and password are required')
+    }
+
+    this.baseUrl = config.baseURL.replace(/\/$/, '')
+    this.username = config.username
+    this.password = config.password
+    this.timeout = config.timeout
+    this.fetch = config.fetch ?? ((input, init) => fetch(input, init))
+  }
+
+  /**
+   * Logs in with ClientLogin. Called automatically before the first request, and again
+   * when the server rejects the token.
+   * @param options - Optional request options
+   * @returns Promise resolving to the auth token
+   * @throws {MinifluxAuthenticationError} When the credentials are invalid
+   */
+  async login(options?: RequestOptions): Promise<string> {
+    const path = '/accounts/ClientLogin'
+    const body = await sendRequest({
+      fetch: this.fetch,
+      url: this.baseUrl + path,
+      path,
+      method: 'POST',
+      headers: new Headers({ 'Content-Type': 'application/x-www-form-urlencoded' }),
+      body: new URLSearchParams({ Email: this.username, Passwd: this.password }).toString(),
+      signal: options?.signal,
+      timeout: options?.timeout ?? this.timeout,
+    })
+    const token = body.match(/^Auth=(.+)$/m)?.[1]?.trim()
+    if (!token) {
+      throw new MinifluxAuthenticationError('ClientLogin response has no Auth token', {
+        method: 'POST',
+        path,
+        status: 200,
+        body,
+      })
+    }
+    return token
+  }
+
+  /**
+   * Makes an authenticated request, logging in first if needed. When the server rejects
+   * the tokens, they are renewed and the request is sent once more.
+   * @param method - HTTP method
+   * @param endpoint - Path below `/reader/api/0`
+   * @param params - Query parameters for GET requests, form fields otherwise
+   * @param options - Optional request options
+   * @returns Promise resolving to the response body
+   * @throws {MinifluxError} On error responses, network failures, timeouts and aborts
+   */
+  private async request(
+    method: 'GET' | 'POST',
+    endpoint: string,
+    params: URLSearchParams,
+    options?: RequestOptions
+  ): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      const hasToken = this.authToken !== undefined
+      try {
+        this.authToken ??= this.login(options).catch(error => {
+          this.authToken = undefined
+          throw error
+        })
+        const headers = new Headers({ Authorization: `GoogleLogin auth=${await this.authToken}` })
+        const form = new URLSearchParams(params)
+        if (method === 'POST') {
+          this.actionToken ??= this.getActionToken(headers, options).catch(error => {
+            this.actionToken = undefined
+            throw error
+          })
+          form.set('T', await this.actionToken)
+          headers.set('Content-Type', 'application/x-www-form-urlencoded')
+        }
+
+        const path = `${API_PATH}${endpoint}`
+        const query = method === 'GET' ? form.toString() : ''
+        return await sendRequest({
+          fetch: this.fetch,
+          url: this.baseUrl + path + (query ? `?${query}` : ''),
+          path,
+          method,
+          headers,
+          body: method === 'POST' ? form.toString() : undefined,
+          signal: options?.signal,
+          timeout: options?.timeout ?? this.timeout,
+        })
+      } catch (error) {
+        if (!(error instanceof MinifluxAuthenticationError)) {
+          throw error
+        }
+        this.authToken = undefined
+        this.actionToken = undefined
+        // Retry once with new tokens when tokens obtained by an earlier call were rejected
+        if (!hasToken || attempt > 1) {
+          throw error
+        }
+      }
+    }
+  }
+
+  /**
+   * Fetches the token required by the endpoints modifying data.
+   * @param headers - Headers carrying the auth token
+   * @param options - Optional request options
+   * @returns Promise resolving to the action token
+   */
+  private async getActionToken(headers: Headers, options?: RequestOptions): Promise<string> {
+    const path = `${API_PATH}/token`
+    const token = await sendRequest({
+      fetch: this.fetch,
+      url: this.baseUrl + path,
+      path,
+      method: 'GET',
+      headers,
+      signal: options?.signal,
+      timeout: options?.timeout ?? this.timeout,
+    })
+    return token.trim()
+  }
+
+  /**
+   * Makes an authenticated request and parses the JSON response.
+   * @param method - HTTP method
+   * @param endpoint - Path below `/reader/api/0`
+   * @param params - Query parameters for GET requests, form fields otherwise
+   * @param options - Optional request options
+   * @returns Promise resolving to the parsed response
+   */
+  private async requestJSON<T>(
+    method: 'GET' | 'POST',
+    endpoint: string,
+    params: Record<string, string> | URLSearchParams,
+    options?: RequestOptions
+  ): Promise<T> {
+    const form = new URLSearchParams(params)
+    form.set('output', 'json')
+    const body = await this.request(method, endpoint, form, options)
+    try {
+      return JSON.parse(body) as T
+    } catch (cause) {
+      throw new MinifluxError('Invalid JSON response', {
+        method,
+        path: `${API_PATH}${endpoint}`,
+        body,
+        cause,
+      })
+    }
+  }
+
+  /**
+   * Retrieves all subscriptions.
+   * @param options - Optional request options
+   * @returns Promise resolving to an array of feeds
+   */
+  async getFeeds(options?: RequestOptions): Promise<Feed[]> {
+    const { subscriptions } = await this.requestJSON<{ subscriptions: RawSubscription[] }>(
+      'GET',
+      '/subscription/list',
+      {},
+      options
+    )
+    return subscriptions.map(toFeed)
+  }
+
+  /**
+   * Retrieves all categories (Google Reader labels).
+   * @param options - Optional request options
+   * @returns Promise resolving to an array of categories
+   */
+  async getCategories(options?: RequestOptions): Promise<Category[]> {
+    const { tags } = await this.requestJSON<{ tags: RawCategory[] }>(
+      'GET',
+      '/tag/list',
+      {},
+      options
+    )
+    return tags.flatMap(tag => toCategory(tag.id) ?? [])
+  }
+
+  /**
+   * Retrieves one page of the entries of a stream. Item IDs are listed first, then
+   * their contents are fetched, as supported by Miniflux.
+   * @param streamId - Stream ID, see `GOOGLE_READER_STREAMS`
+   * @param streamOptions - Optional page size, continuation token and criteria
+   * @param options - Optional request options
+   * @returns Promise resolving to the entries and the continuation token of the next page
+   */
+  async getStreamContents(
+    streamId: string,
+    streamOptions: GoogleReaderStreamOptions = {},
+    options?: RequestOptions
+  ): Promise<GoogleReaderStream> {
+    const params: Record<string, string> = { s: streamId, n: String(streamOptions.count ?? 100) }
+    if (streamOptions.continuation) {
+      params.c = streamOptions.continuation
+    }
+    if (streamOptions.unreadOnly) {
+      params.xt = GOOGLE_READER_STREAMS.read
+    }
+    if (streamOptions.newerThan !== undefined) {
+      params.ot = String(streamOptions.newerThan)
+    }
+    if (streamOptions.olderThan !== undefined) {
+      params.nt = String(streamOptions.olderThan)
+    }
+    if (streamOptions.order === 'oldest') {
+      params.r = 'o'
+    }
+
+    const { itemRefs, continuation } = await this.requestJSON<{
+      itemRefs: { id: string }[] | null
+      continuation?: string
+    }>('GET', '/stream/items/ids', params, options)
+    if (!itemRefs?.length) {
+      return { entries: [] }
+    }
+
+    const ids = new URLSearchParams()
+    itemRefs.forEach(ref => ids.append('i', ref.id))
+    const { items } = await this.requestJSON<{ items: RawItem[] | null }>(
+      'POST',
+      '/stream/items/contents',
+      ids,
+      options
+    )
+    const entries = new Map((items ?? []).map(item => [parseItemId(item.id), toEntry(item)]))
+    return {
+      entries: itemRefs.flatMap(ref => entries.get(parseItemId(ref.id)) ?? []),
+      continuation: continuation || undefined,
+    }
+  }
+
+  /**
+   * Iterates over all entries of a stream, following the continuation tokens.
+   * @param streamId - Stream ID, see `GOOGLE_READER_STREAMS`
+   * @param streamOptions - Optional page size and criteria
+   * @param options - Optional request options
+   * @returns Async iterator over the entries of all pages
+   */
+  async *iterateStream(
+    streamId: string,
+    streamOptions: GoogleReaderStreamOptions = {},
+    options?: RequestOptions
+  ): AsyncGenerator<Entry> {
+    let continuation = streamOptions.continuation
+    do {
+      const page = await this.getStreamContents(
+        streamId,
+        { ...streamOptions, continuation },
+        options
+      )
+      yield* page.entries
+      continuation = page.continuation
+    } while (continuation)
+  }
+
+  /**
+   * Adds and removes tags of entries.
+   * @param entryIds - IDs of the entries
+   * @param edit - Stream IDs of the tags to add and remove
+   * @param options - Optional request options
+   */
+  async editTags(
+    entryIds: number[],
+    edit: GoogleReaderTagEdit,
+    options?: RequestOptions
+  ): Promise<void> {
+    const params = new URLSearchParams()
+    entryIds.forEach(id => params.append('i', formatItemId(id)))
+    edit.add?.forEach(tag => params.append('a', tag))
+    edit.remove?.forEach(tag => params.append('r', tag))
+    await this.request('POST', '/edit-tag', params, options)
+  }
+
+  /**
+   * Marks entries as read.
+   * @param entryIds - IDs of the entries
+   * @param options - Optional request options
+   */
+  async markAsRead(entryIds: number[], options?: RequestOptions): Promise<void> {
+    await this.editTags(entryIds, { add: [GOOGLE_READER_STREAMS.read] }, options)
+  }
+
+  /**
+   * Marks entries as unread.
+   * @param entryIds - IDs of the entries
+   * @param options - Optional request options
+   */
+  async markAsUnread(entryIds: number[], options?: RequestOptions): Promise<void> {
+    await this.editTags(entryIds, { remove: [GOOGLE_READER_STREAMS.read] }, options)
+  }
+
+  /**
+   * Stars entries.
+   * @param entryIds - IDs of the entries
+   * @param options - Optional request options
+   */
+  async star(entryIds: number[], options?: RequestOptions): Promise<void> {
+    await this.editTags(entryIds, { add: [GOOGLE_READER_STREAMS.starred] }, options)
+  }
+
+  /**
+   * Unstars entries.
+   * @param entryIds - IDs of the entries
+   * @param options - Optional request options
+   */
+  async unstar(entryIds: number[], options?: RequestOptions): Promise<void> {
+    await this.editTags(entryIds, { remove: [GOOGLE_READER_STREAMS.starred] }, options)
+  }
+
+  /**
+   * Retrieves the number of unread entries, in total, by feed and by category.
+   * @param options - Optional request options
+   * @returns Promise resolving to the unread counts
+   */
+  async getUnreadCounts(options?: RequestOptions): Promise<GoogleReaderUnreadCounts> {
+    const { unreadcounts } = await this.requestJSON<{
+      unreadcounts: { id: string; count: number }[] | null
+    }>('GET', '/unread-count', {}, options)
+
+    const counts: GoogleReaderUnreadCounts = { total: 0, feeds: {}, categories: {} }
+    for (const { id, count } of unreadcounts ?? []) {
+      if (id === GOOGLE_READER_STREAMS.readingList) {
+        counts.total = count
+      } else if (id.startsWith('feed/')) {
+        counts.feeds[parseFeedId(id)] = count
+      } else if (id.startsWith(LABEL_PREFIX)) {
+        counts.categories[id.slice(LABEL_PREFIX.length)] = count
+      }
+    }
+    return counts
+  }
+}
@@ -0,0 +1,107 @@
+import type { Entry, Feed, FeedHealthIssue, FeedHealthReport } from './types.ts'
+
+const UNITS: [string, number][] = [
+  ['day', 86_400_000],
+  ['hour', 3_600_000],
+  ['minute', 60_000],
+]
+
+/**
+ * Formats a duration in its largest whole unit.
+ * @param ms - Duration in milliseconds
+ * @returns The duration, e.g. `3 days`
+ */
+function formatDuration(ms: number): string {
+  const [unit, size] = UNITS.find(([, size]) => ms >= size) ?? UNITS[UNITS.length - 1]
+  const count = Math.floor(ms / size)
+  return `${count} ${unit}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * Parses a date of the API. Miniflux sends the zero date for feeds never checked.
+ * @param value - ISO 8601 date
+ * @returns The time in milliseconds since the epoch, or undefined if unset
+ */
+function parseDate(value?: string): number | undefined {
+  const time = value ? Date.parse(value) : NaN
+  return Number.isNaN(time) || time <= 0 ? undefined : time
+}
+
+/**
+ * Sorts feeds into the groups of a health report.
+ * @param feeds - Feeds to sort
+ * @param latestEntries - Latest entry of each feed, undefined for feeds without entries
+ * @param options - Stale and silent thresholds, in milliseconds
+ * @param now - Current time in milliseconds since the epoch
+ * @returns The health report
+ */
+export function buildFeedHealthReport(
+  feeds: Feed[],
+  latestEntries: Map<number, Entry | undefined>,
+  options: { staleAfter: number; silentAfter: number },
+  now = Date.now()
+): FeedHealthReport {
+  const report: FeedHealthReport = {
+    generatedAt: new Date(now).toISOString(),
+    failing: [],
+    stale: [],
+    disabled: [],
+    silent: [],
+    healthy: [],
+  }
+
+  for (const feed of feeds) {
+    const errors = feed.parsing_error_count ?? 0
+    const lastError =
+      errors > 0 && feed.parsing_error_message ? `: ${feed.parsing_error_message}` : ''
+    if (feed.disabled) {
+      report.disabled.push({
+        feed,
+        status: 'disabled',
+        reason: errors > 0 ? `Disabled after ${errors} failed refreshes${lastError}` : 'Disabled',
+      })
+      continue
+    }
+
+    const issues: FeedHealthIssue[] = []
+    const checkedAt = parseDate(feed.checked_at)
+    if (errors > 0) {
+      issues.push({
+        feed,
+        status: 'failing',
+        reason: `${errors} failed refresh${errors === 1 ? '' : 'es'}${lastError}`,
+        since: checkedAt === undefined ? undefined : feed.checked_at,
+      })
+    }
+    if (checkedAt === undefined) {
+      issues.push({ feed, status: 'stale', reason: 'Never checked' })
+    } else if (now - checkedAt >= options.staleAfter) {
+      issues.push({
+        feed,
+        status: 'stale',
+        reason: `Not checked for ${formatDuration(now - checkedAt)}`,
+        since: feed.checked_at,
+      })
+    }
+    if (latestEntries.has(feed.id)) {
+      const latest = latestEntries.get(feed.id)
+      const createdAt = parseDate(latest?.created_at)
+      if (createdAt === undefined) {
+        issues.push({ feed, status: 'silent', reason: 'No entries' })
+      } else if (now - createdAt >= options.silentAfter) {
+        issues.push({
+          feed,
+          status: 'silent',
+          reason: `No new entries for ${formatDuration(now - createdAt)}`,
+          since: latest!.created_at,
+        })
+      }
+    }
+
+    issues.forEach(issue => report[issue.status].push(issue))
+    if (issues.length === 0) {
+      report.healthy.push(feed)
+    }
+  }
+  return report
+}
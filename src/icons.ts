@@ -0,0 +1,158 @@
+import type { MinifluxClient } from './client.ts'
+import { MinifluxNotFoundError, createAbortError } from './errors.ts'
+import { createRequestSignal } from './signal.ts'
+import type { DecodedIcon, Feed, FeedIcon, IconCacheOptions, RequestOptions } from './types.ts'
+
+/**
+ * Splits the `data` of an icon into its MIME type and base64 payload. Miniflux sends
+ * `mime;base64,payload`; a full data URL or a bare payload are accepted as well.
+ * @param icon - Icon to split
+ * @returns The MIME type and the base64 payload
+ */
+function splitIconData(icon: FeedIcon): { mimeType: string; base64: string } {
+  const separator = icon.data.indexOf(',')
+  if (separator < 0) {
+    return { mimeType: icon.mime_type, base64: icon.data }
+  }
+  const header = icon.data.slice(0, separator).replace(/^data:/, '')
+  return {
+    mimeType: header.split(';')[0] || icon.mime_type,
+    base64: icon.data.slice(separator + 1),
+  }
+}
+
+/**
+ * Decodes an icon into its bytes and MIME type.
+ * @param icon - Icon returned by `getIcon` or `getFeedIcon`
+ * @returns The MIME type and the decoded bytes
+ */
+export function decodeIcon(icon: FeedIcon): DecodedIcon {
+  const { mimeType, base64 } = splitIconData(icon)
+  return { mimeType, bytes: Uint8Array.from(atob(base64), char => char.charCodeAt(0)) }
+}
+
+/**
+ * Converts an icon into a data URL, usable as the `src` of an image.
+ * @param icon - Icon returned by `getIcon` or `getFeedIcon`
+ * @returns The data URL
+ */
+export function iconToDataURL(icon: FeedIcon): string {
+  const { mimeType, base64 } = splitIconData(icon)
+  return `data:${mimeType};base64,${base64}`
+}
+
+/**
+ * Waits for a shared icon download on behalf of one caller. The caller's signal and timeout
+ * end the wait without cancelling the download for the other callers.
+ * @param download - Shared download
+ * @param iconId - ID of the icon, for the error details
+ * @param options - Optional request options of the caller
+ * @returns Promise resolving to the result of the download
+ */
+async function waitForDownload<T>(
+  download: Promise<T>,
+  iconId: number,
+  options: RequestOptions = {}
+): Promise<T> {
+  const { signal, clear } = createRequestSignal(options.signal, options.timeout)
+  if (!signal) {
+    return download
+  }
+  const details = { method: 'GET', path: `/v1/icons/${iconId}` }
+  let onAbort = () => {}
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(createAbortError(signal.reason, details))
+    if (signal.aborted) {
+      onAbort()
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true })
+    }
+  })
+  try {
+    return await Promise.race([download, aborted])
+  } finally {
+    signal.removeEventListener('abort', onAbort)
+    clear()
+  }
+}
+
+/**
+ * Keeps downloaded icons in memory, so that rendering many feeds downloads each icon
+ * once. Concurrent requests for the same icon share one download, and icons that do
+ * not exist are remembered as well.
+ */
+export class IconCache {
+  private client: MinifluxClient
+  private maxEntries: number
+  private ttl: number
+  private icons = new Map<number, { icon: Promise<FeedIcon | undefined>; expiresAt: number }>()
+
+  /**
+   * Creates an icon cache.
+   * @param client - Client used to download the icons
+   * @param options - Optional size limit and time to live
+   */
+  constructor(client: MinifluxClient, options: IconCacheOptions = {}) {
+    this.client = client
+    this.maxEntries = options.maxEntries ?? 500
+    this.ttl = options.ttl ?? Infinity
+  }
+
+  /**
+   * Retrieves an icon by ID, downloading it if it is not cached.
+   * @param iconId - ID of the icon
+   * @param options - Optional request options; the signal and timeout only end this call's
+   * wait, not a download shared with other calls
+   * @returns Promise resolving to the icon, or undefined if it does not exist
+   */
+  async getIcon(iconId: number, options?: RequestOptions): Promise<FeedIcon | undefined> {
+    const cached = this.icons.get(iconId)
+    if (cached && cached.expiresAt > Date.now()) {
+      // Move to the end of the map, which is kept in least recently used order
+      this.icons.delete(iconId)
+      this.icons.set(iconId, cached)
+      return waitForDownload(cached.icon, iconId, options)
+    }
+
+    const icon = this.client.getIcon(iconId).catch(error => {
+      if (error instanceof MinifluxNotFoundError) {
+        return undefined
+      }
+      if (this.icons.get(iconId)?.icon === icon) {
+        this.icons.delete(iconId)
+      }
+      throw error
+    })
+    this.icons.delete(iconId)
+    this.icons.set(iconId, { icon, expiresAt: Date.now() + this.ttl })
+    for (const key of this.icons.keys()) {
+      if (this.icons.size <= this.maxEntries) {
+        break
+      }
+      this.icons.delete(key)
+    }
+    return waitForDownload(icon, iconId, options)
+  }
+
+  /**
+   * Retrieves the icon of a feed.
+   * @param feed - Feed, as returned by `getFeeds` or in the `feed` of an entry
+   * @param options - Optional request options
+   * @returns Promise resolving to the icon, or undefined if the feed has none
+   */
+  async getFeedIcon(feed: Feed, options?: RequestOptions): Promise<FeedIcon | undefined> {
+    return feed.icon ? this.getIcon(feed.icon.icon_id, options) : undefined
+  }
+
+  /**
+   * Removes an icon from the cache, or all icons when no ID is given.
+   * @param iconId - ID of the icon to remove
+   */
+  clear(iconId?: number): void {
+    if (iconId === undefined) {
+      this.icons.clear()
+    } else {
+      this.icons.delete(iconId)
+    }
+  }
+}
@@ -1,2 +1,30 @@
 export { MinifluxClient } from './client.ts'
+export {
+  MinifluxError,
+  MinifluxAuthenticationError,
+  MinifluxForbiddenError,
+  MinifluxNotFoundError,
+  MinifluxValidationError,
+  MinifluxServerError,
+  MinifluxNetworkError,
+  MinifluxTimeoutError,
+  MinifluxAbortError,
+  MinifluxDiscoveryError,
+  MinifluxSchemaError,
+  MinifluxWebhookError,
+} from './errors.ts'
+export type { MinifluxErrorDetails } from './errors.ts'
+export { EntryQuery, serializeFilter } from './query.ts'
+export type { EntryQueryBuilder } from './query.ts'
+export { parseOPML, generateOPML } from './opml.ts'
+export { verifyWebhookSignature, parseWebhookEvent, createWebhookHandler } from './webhook.ts'
+export { GoogleReaderClient, GOOGLE_READER_STREAMS } from './greader.ts'
+export { FeverClient } from './fever.ts'
+export { htmlToText, htmlToMarkdown, createExcerpt, extractLeadImage } from './content.ts'
+export { SearchIndex } from './search.ts'
+export { compileRuleRegex, parseRewriteRules, validateFeedRules, dryRunFeedRules } from './rules.ts'
+export { decodeIcon, iconToDataURL, IconCache } from './icons.ts'
+export { MinifluxSync } from './sync.ts'
+export { MemorySyncStore, JsonFileSyncStore } from './store.ts'
+export { MemoryCacheStore } from './cache.ts'
 export * from './types.ts'
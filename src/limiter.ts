@@ -0,0 +1,118 @@
+import type { RateLimit } from './types.ts'
+import { sleep } from './retry.ts'
+
+/**
+ * Limits the calls of a client to a number in flight and a rate, using a token bucket
+ * refilled continuously. A call holds its slot until it settles, and takes a token for
+ * each attempt, so that retries count against the rate.
+ */
+export class RequestLimiter {
+  private concurrency: number
+  private active = 0
+  private waiting: (() => void)[] = []
+  private capacity = Infinity
+  private tokens = Infinity
+  private tokensPerMs = 0
+  private refilledAt = Date.now()
+
+  /**
+   * Creates a limiter.
+   * @param concurrency - Maximum number of calls in flight (default: unlimited)
+   * @param rateLimit - Optional token bucket settings
+   * @throws {Error} When a limit is not a positive number
+   */
+  constructor(concurrency = Infinity, rateLimit?: RateLimit) {
+    if (!(concurrency >= 1)) {
+      throw new Error('Concurrency must be at least 1')
+    }
+    this.concurrency = concurrency
+    if (rateLimit) {
+      const { requests, interval = 1000, burst = requests } = rateLimit
+      if (!(requests > 0) || !(interval > 0) || !(burst >= 1)) {
+        throw new Error('Rate limit requests, interval and burst must be positive')
+      }
+      this.capacity = burst
+      this.tokens = burst
+      this.tokensPerMs = requests / interval
+    }
+  }
+
+  /**
+   * Waits for a free slot.
+   * @param signal - Optional signal that stops waiting with its abort reason
+   * @returns Promise resolving to a function releasing the slot
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    await this.takeSlot(signal)
+    let released = false
+    return () => {
+      if (!released) {
+        released = true
+        this.releaseSlot()
+      }
+    }
+  }
+
+  /**
+   * Takes a slot, waiting in line when all slots are in use.
+   * @param signal - Optional signal that stops waiting with its abort reason
+   */
+  private takeSlot(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason)
+    }
+    if (this.active < this.concurrency) {
+      this.active++
+      return Promise.resolve()
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(waiter => waiter !== onSlot)
+        reject(signal?.reason)
+      }
+      // The slot of the releasing call is handed over, so `active` does not change
+      const onSlot = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      this.waiting.push(onSlot)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  /**
+   * Hands a slot over to the next call in line, or frees it.
+   */
+  private releaseSlot(): void {
+    const next = this.waiting.shift()
+    if (next) {
+      next()
+    } else {
+      this.active--
+    }
+  }
+
+  /**
+   * Takes a token for one attempt of a call, waiting for the bucket to refill when it is
+   * empty.
+   * @param signal - Optional signal that stops waiting with its abort reason
+   */
+  async takeToken(signal?: AbortSignal): Promise<void> {
+    if (this.tokensPerMs === 0) {
+      return
+    }
+    for (;;) {
+      const now = Date.now()
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + (now - this.refilledAt) * this.tokensPerMs
+      )
+      this.refilledAt = now
+      if (this.tokens >= 1) {
+        this.tokens--
+        return
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.tokensPerMs), signal)
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/** Per-round shift amounts */
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14,
+  20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6,
+  10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+]
+
+/** Binary integer parts of the sines of integers */
+const CONSTANTS = Array.from({ length: 64 }, (_, i) =>
+  Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32)
+)
+
+/**
+ * Computes the MD5 digest of a string, as required by the Fever API for its key.
+ * Web Crypto does not provide MD5, so it is implemented here.
+ * @param value - String to hash, encoded as UTF-8
+ * @returns The lowercase hexadecimal digest
+ */
+export function md5(value: string): string {
+  const bytes = new TextEncoder().encode(value)
+  // Message, 0x80 terminator, zero padding and 64-bit length, in 64-byte blocks
+  const length = (((bytes.length + 8) >>> 6) + 1) << 6
+  const message = new Uint8Array(length)
+  message.set(bytes)
+  message[bytes.length] = 0x80
+  const view = new DataView(message.buffer)
+  view.setUint32(length - 8, (bytes.length * 8) >>> 0, true)
+  view.setUint32(length - 4, Math.floor(bytes.length / 2 ** 29), true)
+
+  let a0 = 0x67452301
+  let b0 = 0xefcdab89
+  let c0 = 0x98badcfe
+  let d0 = 0x10325476
+
+  for (let offset = 0; offset < length; offset += 64) {
+    let a = a0
+    let b = b0
+    let c = c0
+    let d = d0
+    for (let i = 0; i < 64; i++) {
+      let f: number
+      let g: number
+      if (i < 16) {
+        f = (b & c) | (~b & d)
+        g = i
+      } else if (i < 32) {
+        f = (d & b) | (~d & c)
+        g = (5 * i + 1) % 16
+      } else if (i < 48) {
+        f = b ^ c ^ d
+        g = (3 * i + 5) % 16
+      } else {
+        f = c ^ (b | ~d)
+        g = (7 * i) % 16
+      }
+      const sum = (a + f + CONSTANTS[i] + view.getUint32(offset + g * 4, true)) | 0
+      a = d
+      d = c
+      c = b
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0
+    }
+    a0 = (a0 + a) | 0
+    b0 = (b0 + b) | 0
+    c0 = (c0 + c) | 0
+    d0 = (d0 + d) | 0
+  }
+
+  const digest = new DataView(new ArrayBuffer(16))
+  ;[a0, b0, c0, d0].forEach((word, index) => digest.setUint32(index * 4, word, true))
+  return Array.from(new Uint8Array(digest.buffer), byte => byte.toString(16).padStart(2, '0')).join(
+    ''
+  )
+}
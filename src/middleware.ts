@@ -0,0 +1,42 @@
+import type { FetchFunction, MinifluxConfig, MinifluxMiddleware, MinifluxRequest } from './types.ts'
+
+/**
+ * Creates the middleware adding the authentication headers of the client configuration.
+ * @param config - Configuration object for the client
+ * @returns Middleware setting `X-Auth-Token` or `Authorization` on every request
+ */
+export function createAuthMiddleware(config: MinifluxConfig): MinifluxMiddleware {
+  return (request, next) => {
+    if (config.authType === 'api_key' && config.apiKey) {
+      request.headers.set('X-Auth-Token', config.apiKey)
+    } else if (config.authType === 'password' && config.username && config.password) {
+      request.headers.set('Authorization', `Basic ${btoa(`${config.username}:${config.password}`)}`)
+    }
+    return next(request)
+  }
+}
+
+/**
+ * Chains middleware in order, ending with the fetch implementation.
+ * @param middleware - Middleware to run, the first one seeing the request first
+ * @param fetchFn - Fetch implementation sending the final request
+ * @returns Function sending a request through the whole chain
+ */
+export function composeMiddleware(
+  middleware: MinifluxMiddleware[],
+  fetchFn: FetchFunction
+): (request: MinifluxRequest) => Promise<Response> {
+  const dispatch = (index: number, request: MinifluxRequest): Promise<Response> => {
+    const current = middleware[index]
+    if (!current) {
+      return fetchFn(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+      })
+    }
+    return current(request, next => dispatch(index + 1, next))
+  }
+  return request => dispatch(0, request)
+}
@@ -0,0 +1,196 @@
+import type { Feed, OPMLCategory, OPMLDocument } from './types.ts'
+
+/** Category title Miniflux uses for feeds outside of any folder. */
+const DEFAULT_CATEGORY = 'All'
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<(\/?)([\w:.-]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|([^<]+)/g
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+}
+
+/**
+ * Decodes XML character and entity references.
+ * @param value - Raw attribute or text value
+ * @returns The decoded string
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1))
+      return Number.isNaN(code) ? match : String.fromCodePoint(code)
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Escapes a string for use in an XML attribute or text node.
+ * @param value - String to escape
+ * @returns The escaped string
+ */
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Parses the attributes of a start tag.
+ * @param source - Attribute part of the tag
+ * @returns Attributes keyed by lowercase name
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+/**
+ * Parses an OPML document into feed outlines grouped by category.
+ * Feeds outside of any folder are grouped under the "All" category, and feeds
+ * in nested folders belong to their closest folder, as in Miniflux.
+ * @param xml - OPML document
+ * @returns The parsed document
+ * @throws {Error} When the document is not valid OPML
+ */
+export function parseOPML(xml: string): OPMLDocument {
+  const document: OPMLDocument = { categories: [] }
+  const categories = new Map<string, OPMLCategory>()
+  const stack: string[] = []
+  // Folder titles of the currently open outlines, null for feed outlines
+  const folders: (string | null)[] = []
+  let hasRoot = false
+  let hasBody = false
+  let title: string | undefined
+
+  const getCategory = (name: string) => {
+    let category = categories.get(name)
+    if (!category) {
+      category = { title: name, feeds: [] }
+      categories.set(name, category)
+      document.categories.push(category)
+    }
+    return category
+  }
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const [, cdata, closing, rawName, rawAttributes, selfClosing, text] = match
+    const parent = stack[stack.length - 1]
+
+    if (text !== undefined || cdata !== undefined) {
+      if (parent === 'title' && stack[stack.length - 2] === 'head') {
+        title = (title ?? '') + (cdata ?? decodeEntities(text))
+      }
+      continue
+    }
+    if (!rawName) {
+      continue
+    }
+
+    const name = rawName.toLowerCase()
+    if (closing) {
+      if (parent !== name) {
+        throw new Error(`Invalid OPML: unexpected closing tag </${rawName}>`)
+      }
+      stack.pop()
+      if (name === 'outline') {
+        folders.pop()
+      }
+      continue
+    }
+
+    if (name === 'opml' && stack.length === 0) {
+      hasRoot = true
+    } else if (name === 'body' && parent === 'opml') {
+      hasBody = true
+    } else if (name === 'outline') {
+      if (parent !== 'body' && parent !== 'outline') {
+        throw new Error('Invalid OPML: outline elements must be inside the body')
+      }
+      const attributes = parseAttributes(rawAttributes ?? '')
+      const outlineTitle = attributes.title || attributes.text || ''
+      const feedURL = attributes.xmlurl
+
+      if (feedURL) {
+        const folder = folders.findLast(value => value !== null)
+        getCategory(folder ?? DEFAULT_CATEGORY).feeds.push({
+          title: outlineTitle || feedURL,
+          feed_url: feedURL,
+          site_url: attributes.htmlurl || undefined,
+          description: attributes.description || undefined,
+        })
+      }
+      if (!selfClosing) {
+        folders.push(feedURL ? null : outlineTitle || DEFAULT_CATEGORY)
+      }
+    }
+
+    if (!selfClosing) {
+      stack.push(name)
+    }
+  }
+
+  if (!hasRoot || !hasBody) {
+    throw new Error('Invalid OPML: missing <opml> or <body> element')
+  }
+  if (stack.length > 0) {
+    throw new Error(`Invalid OPML: unclosed <${stack[stack.length - 1]}> element`)
+  }
+
+  document.title = title?.trim() || undefined
+  document.categories = document.categories.filter(category => category.feeds.length > 0)
+  return document
+}
+
+/**
+ * Generates an OPML document from a list of feeds, grouped by category title.
+ * @param feeds - Feeds to include, e.g. the result of `getFeeds()`
+ * @param title - Title of the document (default: "Miniflux")
+ * @returns The OPML document
+ */
+export function generateOPML(feeds: Feed[], title = 'Miniflux'): string {
+  const categories = new Map<string, Feed[]>()
+  for (const feed of feeds) {
+    const name = feed.category?.title || DEFAULT_CATEGORY
+    categories.set(name, [...(categories.get(name) ?? []), feed])
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXML(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+  ]
+  for (const [name, categoryFeeds] of categories) {
+    lines.push(`    <outline text="${escapeXML(name)}">`)
+    for (const feed of categoryFeeds) {
+      const attributes = [
+        `title="${escapeXML(feed.title)}"`,
+        `text="${escapeXML(feed.title)}"`,
+        `xmlUrl="${escapeXML(feed.feed_url)}"`,
+        `htmlUrl="${escapeXML(feed.site_url)}"`,
+      ]
+      lines.push(`      <outline ${attributes.join(' ')}></outline>`)
+    }
+    lines.push('    </outline>')
+  }
+  lines.push('  </body>', '</opml>', '')
+  return lines.join('\n')
+}
@@ -0,0 +1,326 @@
+import type { MinifluxClient } from './client.ts'
+import type { Entry, EntryResultSet, Filter, PaginationOptions, RequestOptions } from './types.ts'
+
+/**
+ * Serializes an entry filter into a query string. Arrays become repeated parameters.
+ * @param filter - Optional filter parameters
+ * @returns The query string with its leading `?`, or an empty string
+ */
+export function serializeFilter(filter?: Filter): string {
+  const params = new URLSearchParams()
+  if (filter) {
+    Object.entries(filter).forEach(([key, value]) => {
+      if (value !== undefined) {
+        if (Array.isArray(value)) {
+          value.forEach(v => params.append(key, v.toString()))
+        } else {
+          params.append(key, value.toString())
+        }
+      }
+    })
+  }
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+type StatusMethods = 'status' | 'unread' | 'read'
+type ScopeMethods = 'inFeed' | 'inCategory'
+
+/**
+ * Entry query without the methods already used, so that conflicting conditions such as
+ * `unread().read()` or `inFeed(1).inCategory(2)` do not compile.
+ */
+export type EntryQueryBuilder<Used extends string = never> = Omit<EntryQuery<Used>, Used>
+
+/** Filter fields holding a lower and an upper bound, which must not contradict each other */
+const RANGES: [keyof Filter, keyof Filter, string, string][] = [
+  ['published_after', 'published_before', 'publishedAfter', 'publishedBefore'],
+  ['after', 'before', 'createdAfter', 'createdBefore'],
+  ['changed_after', 'changed_before', 'changedAfter', 'changedBefore'],
+  ['after_entry_id', 'before_entry_id', 'afterEntryId', 'beforeEntryId'],
+]
+
+/**
+ * Converts a date into a Unix timestamp, as expected by the Miniflux filters.
+ * @param value - Date, or Unix timestamp in seconds
+ * @param method - Name of the query method, used in the error message
+ * @returns The Unix timestamp in seconds
+ * @throws {Error} When the date is invalid
+ */
+function toTimestamp(value: Date | number, method: string): number {
+  const timestamp = value instanceof Date ? Math.floor(value.getTime() / 1000) : value
+  if (!Number.isFinite(timestamp)) {
+    throw new Error(`${method}() requires a valid date`)
+  }
+  return timestamp
+}
+
+/**
+ * Fluent, immutable builder of entry queries, created by `client.entries()`. Each method
+ * returns a new query; conditions can be set once, and contradictory ones are rejected at
+ * compile time when possible and at run time otherwise.
+ */
+export class EntryQuery<Used extends string = never> {
+  private client: MinifluxClient
+  private filter: Filter
+  private feedId?: number
+
+  /**
+   * Creates an entry query.
+   * @param client - Client running the query
+   * @param filter - Optional filter to start from
+   * @param feedId - Optional ID of the feed to restrict the query to
+   */
+  constructor(client: MinifluxClient, filter: Filter = {}, feedId?: number) {
+    this.client = client
+    this.filter = { ...filter }
+    this.feedId = feedId
+  }
+
+  /**
+   * Derives a query with additional conditions.
+   * @param method - Name of the query method, used in error messages
+   * @param changes - Filter fields to set
+   * @param feedId - Optional ID of the feed to restrict the query to
+   * @returns The new query
+   * @throws {Error} When a condition is already set or contradicts another one
+   */
+  private with<Method extends string>(
+    method: string,
+    changes: Filter,
+    feedId?: number
+  ): EntryQueryBuilder<Used | Method> {
+    const scoped = this.feedId !== undefined || this.filter.category_id !== undefined
+    const conflicts =
+      (Object.keys(changes) as (keyof Filter)[]).some(key => this.filter[key] !== undefined) ||
+      (scoped && (feedId !== undefined || changes.category_id !== undefined))
+    if (conflicts) {
+      throw new Error(`${method}() conflicts with a condition already set on the query`)
+    }
+
+    const filter = { ...this.filter, ...changes }
+    for (const [lower, upper, lowerMethod, upperMethod] of RANGES) {
+      const from = filter[lower] as number | undefined
+      const to = filter[upper] as number | undefined
+      if (from !== undefined && to !== undefined && from >= to) {
+        throw new Error(`${lowerMethod}() must be earlier than ${upperMethod}()`)
+      }
+    }
+    return new EntryQuery<Used | Method>(this.client, filter, feedId ?? this.feedId)
+  }
+
+  /**
+   * Only matches entries with one of the given statuses.
+   * @param statuses - Statuses to match
+   * @returns The new query
+   */
+  status(...statuses: NonNullable<Filter['status']>): EntryQueryBuilder<Used | StatusMethods> {
+    if (statuses.length === 0) {
+      throw new Error('status() requires at least one status')
+    }
+    return this.with('status', { status: statuses })
+  }
+
+  /**
+   * Only matches unread entries.
+   * @returns The new query
+   */
+  unread(): EntryQueryBuilder<Used | StatusMethods> {
+    return this.with('unread', { status: ['unread'] })
+  }
+
+  /**
+   * Only matches read entries.
+   * @returns The new query
+   */
+  read(): EntryQueryBuilder<Used | StatusMethods> {
+    return this.with('read', { status: ['read'] })
+  }
+
+  /**
+   * Only matches starred entries.
+   * @returns The new query
+   */
+  starred(): EntryQueryBuilder<Used | 'starred'> {
+    return this.with('starred', { starred: true })
+  }
+
+  /**
+   * Only matches the entries of a feed.
+   * @param feedId - ID of the feed
+   * @returns The new query
+   */
+  inFeed(feedId: number): EntryQueryBuilder<Used | ScopeMethods> {
+    return this.with('inFeed', {}, feedId)
+  }
+
+  /**
+   * Only matches the entries of a category.
+   * @param categoryId - ID of the category
+   * @returns The new query
+   */
+  inCategory(categoryId: number): EntryQueryBuilder<Used | ScopeMethods> {
+    return this.with('inCategory', { category_id: categoryId })
+  }
+
+  /**
+   * Only matches entries containing a text.
+   * @param text - Text to search for
+   * @returns The new query
+   */
+  search(text: string): EntryQueryBuilder<Used | 'search'> {
+    return this.with('search', { search: text })
+  }
+
+  /**
+   * Only matches entries published after a date.
+   * @param date - Date, or Unix timestamp in seconds
+   * @returns The new query
+   */
+  publishedAfter(date: Date | number): EntryQueryBuilder<Used | 'publishedAfter'> {
+    return this.with('publishedAfter', {
+      published_after: toTimestamp(date, 'publishedAfter'),
+    })
+  }
+
+  /**
+   * Only matches entries published before a date.
+   * @param date - Date, or Unix timestamp in seconds
+   * @returns The new query
+   */
+  publishedBefore(date: Date | number): EntryQueryBuilder<Used | 'publishedBefore'> {
+    return this.with('publishedBefore', {
+      published_before: toTimestamp(date, 'publishedBefore'),
+    })
+  }
+
+  /**
+   * Only matches entries created after a date.
+   * @param date - Date, or Unix timestamp in seconds
+   * @returns The new query
+   */
+  createdAfter(date: Date | number): EntryQueryBuilder<Used | 'createdAfter'> {
+    return this.with('createdAfter', { after: toTimestamp(date, 'createdAfter') })
+  }
+
+  /**
+   * Only matches entries created before a date.
+   * @param date - Date, or Unix timestamp in seconds
+   * @returns The new query
+   */
+  createdBefore(date: Date | number): EntryQueryBuilder<Used | 'createdBefore'> {
+    return this.with('createdBefore', { before: toTimestamp(date, 'createdBefore') })
+  }
+
+  /**
+   * Only matches entries changed after a date.
+   * @param date - Date, or Unix timestamp in seconds
+   * @returns The new query
+   */
+  changedAfter(date: Date | number): EntryQueryBuilder<Used | 'changedAfter'> {
+    return this.with('changedAfter', { changed_after: toTimestamp(date, 'changedAfter') })
+  }
+
+  /**
+   * Only matches entries changed before a date.
+   * @param date - Date, or Unix timestamp in seconds
+   * @returns The new query
+   */
+  changedBefore(date: Date | number): EntryQueryBuilder<Used | 'changedBefore'> {
+    return this.with('changedBefore', { changed_before: toTimestamp(date, 'changedBefore') })
+  }
+
+  /**
+   * Only matches entries with a higher ID.
+   * @param entryId - ID of the entry
+   * @returns The new query
+   */
+  afterEntryId(entryId: number): EntryQueryBuilder<Used | 'afterEntryId'> {
+    return this.with('afterEntryId', { after_entry_id: entryId })
+  }
+
+  /**
+   * Only matches entries with a lower ID.
+   * @param entryId - ID of the entry
+   * @returns The new query
+   */
+  beforeEntryId(entryId: number): EntryQueryBuilder<Used | 'beforeEntryId'> {
+    return this.with('beforeEntryId', { before_entry_id: entryId })
+  }
+
+  /**
+   * Sorts the entries.
+   * @param order - Field to sort by
+   * @param direction - Sort direction (default: the server default, ascending)
+   * @returns The new query
+   */
+  orderBy(
+    order: NonNullable<Filter['order']>,
+    direction?: Filter['direction']
+  ): EntryQueryBuilder<Used | 'orderBy'> {
+    return this.with('orderBy', direction ? { order, direction } : { order })
+  }
+
+  /**
+   * Limits the number of entries returned by `fetch()`.
+   * @param limit - Maximum number of entries
+   * @returns The new query
+   */
+  limit(limit: number): EntryQueryBuilder<Used | 'limit'> {
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error('limit() requires a positive integer')
+    }
+    return this.with('limit', { limit })
+  }
+
+  /**
+   * Skips entries in the results of `fetch()`.
+   * @param offset - Number of entries to skip
+   * @returns The new query
+   */
+  offset(offset: number): EntryQueryBuilder<Used | 'offset'> {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error('offset() requires a non-negative integer')
+    }
+    return this.with('offset', { offset })
+  }
+
+  /**
+   * Returns the filter built by the query. A feed set with `inFeed()` is not part of it.
+   * @returns A copy of the filter
+   */
+  toFilter(): Filter {
+    return { ...this.filter }
+  }
+
+  /**
+   * Runs the query, fetching one page of entries.
+   * @param options - Optional request options
+   * @returns Promise resolving to the matching entries and their total count
+   */
+  async fetch(options?: RequestOptions): Promise<EntryResultSet> {
+    return this.feedId === undefined
+      ? this.client.getEntries(this.filter, options)
+      : this.client.getFeedEntries(this.feedId, this.filter, options)
+  }
+
+  /**
+   * Iterates over all matching entries, fetching pages as needed. The limit and offset of
+   * the query are ignored; use the page size and maximum number of entries instead.
+   * @param options - Optional page size, maximum number of entries and request options
+   * @returns Async iterator over the matching entries
+   */
+  iterate(options?: PaginationOptions): AsyncGenerator<Entry> {
+    return this.feedId === undefined
+      ? this.client.iterateEntries(this.filter, options)
+      : this.client.iterateFeedEntries(this.feedId, this.filter, options)
+  }
+
+  /**
+   * Iterates over all matching entries, e.g. with `for await`.
+   * @returns Async iterator over the matching entries
+   */
+  [Symbol.asyncIterator](): AsyncGenerator<Entry> {
+    return this.iterate()
+  }
+}
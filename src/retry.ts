@@ -0,0 +1,94 @@
+import type { RetryPolicy } from './types.ts'
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelay: 500,
+  maxDelay: 30_000,
+  backoffFactor: 2,
+  jitter: true,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+}
+
+/**
+ * Fills in the defaults of a retry policy.
+ * @param retry - Retry option from the client configuration
+ * @returns The complete policy, with a single attempt when retries are disabled
+ */
+export function resolveRetryPolicy(retry?: boolean | RetryPolicy): Required<RetryPolicy> {
+  if (!retry) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+  }
+  const policy = { ...DEFAULT_RETRY_POLICY, ...(retry === true ? {} : retry) }
+  return {
+    ...policy,
+    maxAttempts: Math.max(1, Math.floor(policy.maxAttempts)),
+    retryableMethods: policy.retryableMethods.map(method => method.toUpperCase()),
+  }
+}
+
+/**
+ * Parses a `Retry-After` header value.
+ * @param value - Header value, either delay-seconds or an HTTP date
+ * @returns The delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000
+  }
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) {
+    return undefined
+  }
+  return Math.max(0, date - Date.now())
+}
+
+/**
+ * Computes how long to wait before the next attempt.
+ * @param policy - Resolved retry policy
+ * @param attempt - Number of the attempt that just failed, starting at 1
+ * @param retryAfter - Delay requested by the server in milliseconds, if any
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(
+  policy: Required<RetryPolicy>,
+  attempt: number,
+  retryAfter?: number
+): number {
+  if (policy.respectRetryAfter && retryAfter !== undefined) {
+    return Math.min(retryAfter, policy.maxDelay)
+  }
+  const delay = Math.min(
+    policy.initialDelay * policy.backoffFactor ** (attempt - 1),
+    policy.maxDelay
+  )
+  return policy.jitter ? Math.random() * delay : delay
+}
+
+/**
+ * Resolves after the given delay.
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that rejects the wait with its abort reason
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
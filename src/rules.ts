@@ -0,0 +1,430 @@
+import type {
+  Entry,
+  FeedRuleIssue,
+  FeedRules,
+  RewriteRule,
+  RuleMatchField,
+  RuleTestReport,
+  RuleTestResult,
+} from './types.ts'
+
+type ArgumentKind = 'regex' | 'selector' | 'text'
+
+/** Rewrite functions of Miniflux, with their arguments and how many of the last ones are optional */
+const REWRITE_FUNCTIONS: Record<string, { args: ArgumentKind[]; optional?: number }> = {
+  add_image_title: { args: [] },
+  add_mailto_subject: { args: [] },
+  add_dynamic_image: { args: [] },
+  add_dynamic_iframe: { args: [] },
+  add_youtube_video: { args: [] },
+  add_youtube_video_using_invidious_player: { args: [] },
+  add_youtube_video_from_id: { args: [] },
+  add_invidious_video: { args: [] },
+  add_castopod_episode: { args: [] },
+  add_pdf_download_link: { args: [] },
+  add_hn_links_using_hack: { args: [] },
+  add_hn_links_using_opener: { args: [] },
+  nl2br: { args: [] },
+  convert_text_link: { args: [] },
+  fix_medium_images: { args: [] },
+  fix_ghost_cards: { args: [] },
+  use_noscript_figure_images: { args: [] },
+  parse_markdown: { args: [] },
+  remove_tables: { args: [] },
+  remove_clickbait: { args: [] },
+  remove_img_blur_params: { args: [] },
+  replace: { args: ['regex', 'text'] },
+  replace_title: { args: ['regex', 'text'] },
+  remove: { args: ['selector'] },
+  base64_decode: { args: ['selector'], optional: 1 },
+}
+
+const ESCAPES: Record<string, string> = {
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+}
+
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']' }
+
+/** Error of a pattern that Miniflux accepts, but that cannot be translated for JavaScript */
+class UntranslatableRegexError extends Error {}
+
+/**
+ * Translates a Go (RE2) regular expression, as used by Miniflux, into a JavaScript one.
+ * @param pattern - Go regular expression
+ * @returns The JavaScript source and flags
+ * @throws {Error} When Miniflux would reject the pattern
+ * @throws {UntranslatableRegexError} When the pattern has no JavaScript equivalent
+ */
+function translateRegex(pattern: string): { source: string; flags: string } {
+  let source = ''
+  let flags = ''
+  let inClass = false
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      const next = pattern[i + 1] ?? ''
+      i++
+      if (!inClass && /[1-9]/.test(next)) {
+        throw new Error('Backreferences are not supported by Miniflux')
+      }
+      source += !inClass && next === 'A' ? '^' : !inClass && next === 'z' ? '$' : char + next
+      continue
+    }
+    if (inClass) {
+      inClass = char !== ']'
+      source += char
+      continue
+    }
+    if (char === '[') {
+      inClass = true
+      const negated = pattern[i + 1] === '^'
+      source += negated ? '[^' : '['
+      i += negated ? 1 : 0
+      // A leading `]` is a literal in Go, but closes an empty class in JavaScript
+      if (pattern[i + 1] === ']') {
+        source += '\\]'
+        i++
+      }
+      continue
+    }
+    if (char === '(' && pattern[i + 1] === '?') {
+      const rest = pattern.slice(i + 2)
+      if (/^(=|!|<=|<!)/.test(rest)) {
+        throw new Error('Lookarounds are not supported by Miniflux')
+      }
+      if (rest.startsWith('P<')) {
+        source += '(?<'
+        i += 3
+        continue
+      }
+      const flagGroup = /^([imsU-]*)([:)])/.exec(rest)
+      if (flagGroup && flagGroup[1] !== '') {
+        const [group, groupFlags, end] = flagGroup
+        if (i > 0 || end === ':' || /[U-]/.test(groupFlags)) {
+          throw new UntranslatableRegexError(
+            'Inline flags other than (?i), (?m) and (?s) at the start cannot be checked locally'
+          )
+        }
+        flags = Array.from(new Set(groupFlags)).join('')
+        i += group.length + 1
+        continue
+      }
+    }
+    source += char
+  }
+  return { source, flags: /\\[pP]/.test(source) ? `${flags}u` : flags }
+}
+
+/**
+ * Compiles a regular expression in Miniflux's syntax (Go RE2), as used by block, keep and
+ * `replace` rules. Leading `(?i)`, `(?m)` and `(?s)` flags, `(?P<name>)` groups, `\A` and
+ * `\z` are translated; lookarounds and backreferences are rejected, as in Miniflux.
+ * @param pattern - Regular expression
+ * @returns The equivalent JavaScript regular expression
+ * @throws {Error} When the pattern is invalid or cannot be translated
+ */
+export function compileRuleRegex(pattern: string): RegExp {
+  const { source, flags } = translateRegex(pattern)
+  try {
+    return new RegExp(source, flags)
+  } catch (error) {
+    throw new Error(`Invalid regular expression: ${(error as Error).message.replace(/^.*: /, '')}`)
+  }
+}
+
+/**
+ * Parses rewrite rules, e.g. `add_image_title,replace("a"|"b"),remove(".ads")`. Names are
+ * not checked; use `validateFeedRules` for that.
+ * @param rules - Rewrite rules
+ * @returns The functions, in order
+ * @throws {Error} When the rules are malformed
+ */
+export function parseRewriteRules(rules: string): RewriteRule[] {
+  const parsed: RewriteRule[] = []
+  let position = 0
+  const skipSpaces = () => {
+    while (/\s/.test(rules[position] ?? '')) position++
+  }
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${position + 1}`)
+  }
+
+  skipSpaces()
+  while (position < rules.length) {
+    const name =
+      /^[A-Za-z_]\w*/.exec(rules.slice(position))?.[0] ?? fail('Expected a function name')
+    position += name.length
+    const rule: RewriteRule = { name, args: [] }
+    parsed.push(rule)
+    skipSpaces()
+
+    if (rules[position] === '(') {
+      position++
+      skipSpaces()
+      while (rules[position] !== ')') {
+        if (rule.args.length > 0) {
+          if (rules[position] !== '|') {
+            fail('Expected "|" or ")"')
+          }
+          position++
+          skipSpaces()
+        }
+        if (rules[position] !== '"') {
+          fail('Expected a quoted argument')
+        }
+        let value = ''
+        for (position++; rules[position] !== '"'; position++) {
+          if (position >= rules.length) {
+            fail('Unterminated string')
+          }
+          if (rules[position] === '\\') {
+            position++
+            value += ESCAPES[rules[position]] ?? fail(`Invalid escape "\\${rules[position]}"`)
+          } else {
+            value += rules[position]
+          }
+        }
+        rule.args.push(value)
+        position++
+        skipSpaces()
+      }
+      position++
+      skipSpaces()
+    }
+
+    if (position < rules.length) {
+      if (rules[position] !== ',') {
+        fail('Expected ","')
+      }
+      position++
+      skipSpaces()
+      if (position >= rules.length) {
+        fail('Expected a function name')
+      }
+    }
+  }
+  return parsed
+}
+
+/**
+ * Checks the syntax of a CSS selector list, as used by scraper rules and `remove()`.
+ * @param selector - CSS selector list
+ * @returns A description of the first problem, or undefined if none was found
+ */
+function checkSelector(selector: string): string | undefined {
+  const closing: string[] = []
+  let quote: string | undefined
+  let part = ''
+  for (let i = 0; i <= selector.length; i++) {
+    const char = selector[i]
+    if (quote) {
+      if (char === '\\') {
+        i++
+      } else if (char === quote) {
+        quote = undefined
+      }
+      part += 'x'
+      continue
+    }
+    if (char === undefined || (char === ',' && closing.length === 0)) {
+      if (part.trim() === '') {
+        return 'Empty selector in the list'
+      }
+      if (/[>+~]\s*$/.test(part)) {
+        return `Selector "${part.trim()}" ends with a combinator`
+      }
+      part = ''
+      continue
+    }
+    if (char === '"' || char === "'") {
+      quote = char
+    } else if (BRACKETS[char]) {
+      closing.push(BRACKETS[char])
+    } else if (char === ')' || char === ']') {
+      if (closing.pop() !== char) {
+        return `Unexpected "${char}"`
+      }
+    }
+    part += char
+  }
+  if (quote) {
+    return 'Unterminated string'
+  }
+  return closing.length > 0 ? `Missing "${closing[closing.length - 1]}"` : undefined
+}
+
+/**
+ * Checks a regular expression of a rule.
+ * @param field - Rule containing the pattern
+ * @param pattern - Regular expression
+ * @returns The issues of the pattern
+ */
+function checkRegex(field: keyof FeedRules, pattern: string): FeedRuleIssue[] {
+  try {
+    compileRuleRegex(pattern)
+    return []
+  } catch (error) {
+    const severity = error instanceof UntranslatableRegexError ? 'warning' : 'error'
+    return [{ field, message: (error as Error).message, severity }]
+  }
+}
+
+/**
+ * Validates the rules of a feed, before saving them with `updateFeed`. Block and keep
+ * rules are compiled, rewrite rules are parsed and their functions and arguments checked,
+ * and the syntax of CSS selectors is checked.
+ * @param rules - Rules to validate; empty or missing rules are skipped
+ * @returns The issues found, empty when the rules are valid
+ */
+export function validateFeedRules(rules: FeedRules): FeedRuleIssue[] {
+  const issues: FeedRuleIssue[] = []
+
+  for (const field of ['blocklist_rules', 'keeplist_rules'] as const) {
+    const pattern = rules[field]
+    if (!pattern) {
+      continue
+    }
+    const patternIssues = checkRegex(field, pattern)
+    issues.push(...patternIssues)
+    if (pattern !== pattern.trim()) {
+      issues.push({
+        field,
+        message: 'Leading or trailing whitespace is part of the pattern',
+        severity: 'warning',
+      })
+    }
+    if (patternIssues.length === 0 && compileRuleRegex(pattern).test('')) {
+      issues.push({
+        field,
+        message: `Pattern matches any text, so every entry is ${field === 'blocklist_rules' ? 'dropped' : 'kept'}`,
+        severity: 'warning',
+      })
+    }
+  }
+
+  if (rules.rewrite_rules) {
+    let parsed: RewriteRule[] = []
+    try {
+      parsed = parseRewriteRules(rules.rewrite_rules)
+    } catch (error) {
+      issues.push({ field: 'rewrite_rules', message: (error as Error).message, severity: 'error' })
+    }
+    for (const { name, args } of parsed) {
+      const definition = REWRITE_FUNCTIONS[name]
+      if (!definition) {
+        issues.push({
+          field: 'rewrite_rules',
+          message: `Unknown rewrite function "${name}"`,
+          severity: 'warning',
+        })
+        continue
+      }
+      const max = definition.args.length
+      const min = max - (definition.optional ?? 0)
+      if (args.length < min || args.length > max) {
+        const expected = min === max ? `${max}` : `${min} to ${max}`
+        issues.push({
+          field: 'rewrite_rules',
+          message: `${name}() expects ${expected} argument${max === 1 ? '' : 's'}, got ${args.length}`,
+          severity: 'error',
+        })
+        continue
+      }
+      args.forEach((arg, index) => {
+        const kind = definition.args[index]
+        if (kind === 'regex') {
+          checkRegex('rewrite_rules', arg).forEach(issue =>
+            issues.push({ ...issue, message: `${name}(): ${issue.message}` })
+          )
+        } else if (kind === 'selector') {
+          const problem = checkSelector(arg)
+          if (problem) {
+            issues.push({
+              field: 'rewrite_rules',
+              message: `${name}(): ${problem}`,
+              severity: 'error',
+            })
+          }
+        }
+      })
+    }
+  }
+
+  if (rules.scraper_rules) {
+    const problem = checkSelector(rules.scraper_rules)
+    if (problem) {
+      issues.push({ field: 'scraper_rules', message: problem, severity: 'error' })
+    }
+  }
+  return issues
+}
+
+/**
+ * Compiles a block or keep rule the way Miniflux applies it: a pattern that does not
+ * compile never matches.
+ * @param pattern - Regular expression
+ * @returns The compiled pattern, or undefined if it does not compile
+ */
+function compileOrUndefined(pattern: string): RegExp | undefined {
+  try {
+    return compileRuleRegex(pattern)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Finds the first field of an entry matched by a rule.
+ * @param pattern - Compiled rule
+ * @param entry - Entry to test
+ * @returns The matching field and its value, or undefined
+ */
+function matchEntry(pattern: RegExp | undefined, entry: Entry): RuleTestResult['match'] {
+  if (!pattern) {
+    return undefined
+  }
+  const values: [RuleMatchField, string][] = [
+    ['url', entry.url],
+    ['title', entry.title],
+    ['author', entry.author ?? ''],
+    ...(entry.tags ?? []).map((tag): [RuleMatchField, string] => ['tags', tag]),
+  ]
+  const match = values.find(([, value]) => pattern.test(value))
+  return match && { field: match[0], value: match[1] }
+}
+
+/**
+ * Applies block and keep rules to entries without saving them, as Miniflux does when it
+ * refreshes a feed: an entry is dropped when the block rule matches its URL, title,
+ * author or a tag, or when a keep rule is set and matches none of them.
+ * @param entries - Entries to test, e.g. the recent entries of a feed
+ * @param rules - Rules to apply
+ * @returns The kept and dropped entries, and the issues of the rules
+ */
+export function dryRunFeedRules(entries: Entry[], rules: FeedRules): RuleTestReport {
+  const blocklist = rules.blocklist_rules ? compileOrUndefined(rules.blocklist_rules) : undefined
+  const keeplist = rules.keeplist_rules ? compileOrUndefined(rules.keeplist_rules) : undefined
+  const report: RuleTestReport = { kept: [], dropped: [], issues: validateFeedRules(rules) }
+
+  for (const entry of entries) {
+    const blocked = matchEntry(blocklist, entry)
+    const allowed = rules.keeplist_rules ? matchEntry(keeplist, entry) : undefined
+    if (blocked) {
+      report.dropped.push({ entry, kept: false, droppedBy: 'blocklist', match: blocked })
+    } else if (rules.keeplist_rules && !allowed) {
+      report.dropped.push({ entry, kept: false, droppedBy: 'keeplist' })
+    } else {
+      report.kept.push(allowed ? { entry, kept: true, match: allowed } : { entry, kept: true })
+    }
+  }
+  return report
+}
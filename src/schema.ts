@@ -0,0 +1,148 @@
+import type { SchemaIssue } from './types.ts'
+
+/**
+ * Describes the expected shape of a JSON value.
+ */
+export type Schema =
+  | { kind: 'string' | 'number' | 'boolean' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'array'; item: Schema }
+  | { kind: 'record'; value: Schema }
+  | { kind: 'object'; fields: Record<string, Field> }
+
+/**
+ * Field of an object schema.
+ */
+export interface Field {
+  schema: Schema
+  optional: boolean
+}
+
+/**
+ * Result of validating a value against a schema.
+ */
+export interface ValidationResult {
+  /** The value with unknown object fields removed */
+  value: unknown
+  /** Mismatches found in the value, empty when it is valid */
+  issues: SchemaIssue[]
+}
+
+export const string = (): Schema => ({ kind: 'string' })
+export const number = (): Schema => ({ kind: 'number' })
+export const boolean = (): Schema => ({ kind: 'boolean' })
+export const enumOf = (...values: string[]): Schema => ({ kind: 'enum', values })
+export const array = (item: Schema): Schema => ({ kind: 'array', item })
+export const record = (value: Schema): Schema => ({ kind: 'record', value })
+
+/**
+ * Marks a field as optional. Optional fields also accept `null`, which Miniflux
+ * returns for empty lists and unset values.
+ * @param schema - Schema of the field
+ * @returns The optional field
+ */
+export const optional = (schema: Schema): Field => ({ schema, optional: true })
+
+/**
+ * Creates an object schema. Fields given as plain schemas are required.
+ * @param fields - Schemas of the object fields
+ * @returns The object schema
+ */
+export const object = (fields: Record<string, Schema | Field>): Schema => ({
+  kind: 'object',
+  fields: Object.fromEntries(
+    Object.entries(fields).map(([key, field]) => [
+      key,
+      'optional' in field ? field : { schema: field, optional: false },
+    ])
+  ),
+})
+
+/**
+ * Describes the type of a JSON value for error messages.
+ * @param value - Value to describe
+ * @returns The type name
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  return Array.isArray(value) ? 'array' : typeof value
+}
+
+/**
+ * Validates a value against a schema.
+ * @param schema - Expected shape
+ * @param value - Value to validate
+ * @param path - Path of the value, used in issue messages
+ * @returns The value without unknown object fields, and the issues found
+ */
+export function validate(schema: Schema, value: unknown, path = ''): ValidationResult {
+  const mismatch = (expected: string): ValidationResult => ({
+    value,
+    issues: [
+      { path: path || '(root)', message: `expected ${expected}, received ${describe(value)}` },
+    ],
+  })
+
+  switch (schema.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === schema.kind ? { value, issues: [] } : mismatch(schema.kind)
+
+    case 'enum':
+      return typeof value === 'string' && schema.values.includes(value)
+        ? { value, issues: [] }
+        : mismatch(`one of ${schema.values.map(v => `"${v}"`).join(', ')}`)
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return mismatch('array')
+      }
+      const results = value.map((item, index) => validate(schema.item, item, `${path}[${index}]`))
+      return {
+        value: results.map(result => result.value),
+        issues: results.flatMap(result => result.issues),
+      }
+    }
+
+    case 'record': {
+      if (describe(value) !== 'object') {
+        return mismatch('object')
+      }
+      const entries = Object.entries(value as Record<string, unknown>).map(
+        ([key, item]) => [key, validate(schema.value, item, path ? `${path}.${key}` : key)] as const
+      )
+      return {
+        value: Object.fromEntries(entries.map(([key, result]) => [key, result.value])),
+        issues: entries.flatMap(([, result]) => result.issues),
+      }
+    }
+
+    case 'object': {
+      if (describe(value) !== 'object') {
+        return mismatch('object')
+      }
+      const source = value as Record<string, unknown>
+      const output: Record<string, unknown> = {}
+      const issues: SchemaIssue[] = []
+      for (const [key, field] of Object.entries(schema.fields)) {
+        const fieldPath = path ? `${path}.${key}` : key
+        const fieldValue = source[key]
+        if (fieldValue === undefined || fieldValue === null) {
+          if (!field.optional) {
+            issues.push({ path: fieldPath, message: `missing required field` })
+          } else if (key in source) {
+            output[key] = fieldValue
+          }
+          continue
+        }
+        const result = validate(field.schema, fieldValue, fieldPath)
+        output[key] = result.value
+        issues.push(...result.issues)
+      }
+      return { value: output, issues }
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  array,
+  boolean,
+  enumOf,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  type Schema,
+} from './schema.ts'
+
+// Schemas mirroring the interfaces of types.ts
+
+export const categorySchema = object({
+  id: number(),
+  user_id: number(),
+  title: string(),
+  hide_globally: optional(boolean()),
+  feed_count: optional(number()),
+  total_unread: optional(number()),
+})
+
+export const feedIconSchema = object({
+  id: number(),
+  data: string(),
+  mime_type: string(),
+})
+
+export const feedSchema = object({
+  id: number(),
+  user_id: number(),
+  title: string(),
+  site_url: string(),
+  feed_url: string(),
+  category: optional(categorySchema),
+  icon: optional(object({ feed_id: number(), icon_id: number() })),
+  etag_header: optional(string()),
+  last_modified_header: optional(string()),
+  crawler: optional(boolean()),
+  checked_at: optional(string()),
+  parsing_error_count: optional(number()),
+  parsing_error_message: optional(string()),
+  scraper_rules: optional(string()),
+  rewrite_rules: optional(string()),
+  blocklist_rules: optional(string()),
+  keeplist_rules: optional(string()),
+  user_agent: optional(string()),
+  cookie: optional(string()),
+  username: optional(string()),
+  password: optional(string()),
+  disabled: optional(boolean()),
+  ignore_http_cache: optional(boolean()),
+  allow_self_signed_certificates: optional(boolean()),
+  fetch_via_proxy: optional(boolean()),
+  hide_globally: optional(boolean()),
+})
+
+export const enclosureSchema = object({
+  id: number(),
+  user_id: number(),
+  entry_id: number(),
+  url: string(),
+  mime_type: string(),
+  size: number(),
+  media_progression: number(),
+})
+
+export const entrySchema = object({
+  id: number(),
+  user_id: number(),
+  feed_id: number(),
+  status: enumOf('unread', 'read', 'removed'),
+  title: string(),
+  url: string(),
+  comments_url: optional(string()),
+  published_at: string(),
+  created_at: string(),
+  changed_at: optional(string()),
+  content: optional(string()),
+  author: optional(string()),
+  share_code: optional(string()),
+  hash: optional(string()),
+  starred: optional(boolean()),
+  reading_time: optional(number()),
+  enclosures: optional(array(enclosureSchema)),
+  feed: optional(feedSchema),
+  category: optional(categorySchema),
+  tags: optional(array(string())),
+})
+
+export const entryResultSetSchema = object({
+  total: number(),
+  entries: array(entrySchema),
+})
+
+export const userSchema = object({
+  id: number(),
+  username: string(),
+  is_admin: boolean(),
+  theme: string(),
+  language: string(),
+  timezone: string(),
+  entry_direction: string(),
+  entries_per_page: number(),
+  keyboard_shortcuts: boolean(),
+  show_reading_time: boolean(),
+  entry_swipe: boolean(),
+  stylesheet: string(),
+  google_id: optional(string()),
+  openid_connect_id: optional(string()),
+  entries_status_filter: string(),
+  default_reading_speed: number(),
+  cjk_reading_speed: number(),
+  default_home_page: string(),
+  categories_sorting_order: string(),
+})
+
+export const feedCountersSchema = object({
+  reads: record(number()),
+  unreads: record(number()),
+})
+
+export const subscriptionSchema = object({
+  title: string(),
+  url: string(),
+  type: string(),
+})
+
+/**
+ * Response schemas by endpoint. Endpoints missing from this table are not validated.
+ */
+const RESPONSE_SCHEMAS: [string, RegExp, Schema][] = [
+  ['GET', /^\/v1\/me$/, userSchema],
+  ['GET', /^\/v1\/users$/, array(userSchema)],
+  ['POST', /^\/v1\/users$/, userSchema],
+  ['GET', /^\/v1\/users\/\d+$/, userSchema],
+  ['PUT', /^\/v1\/users\/\d+$/, userSchema],
+  ['GET', /^\/v1\/feeds$/, array(feedSchema)],
+  ['GET', /^\/v1\/feeds\/counters$/, feedCountersSchema],
+  ['GET', /^\/v1\/feeds\/\d+$/, feedSchema],
+  ['PUT', /^\/v1\/feeds\/\d+$/, feedSchema],
+  ['GET', /^\/v1\/feeds\/\d+\/icon$/, feedIconSchema],
+  ['GET', /^\/v1\/icons\/\d+$/, feedIconSchema],
+  ['GET', /^\/v1\/feeds\/\d+\/entries$/, entryResultSetSchema],
+  ['POST', /^\/v1\/feeds\/\d+\/entries\/import$/, object({ id: number() })],
+  ['GET', /^\/v1\/entries$/, entryResultSetSchema],
+  ['GET', /^\/v1\/entries\/\d+$/, entrySchema],
+  ['PUT', /^\/v1\/entries\/\d+$/, entrySchema],
+  ['GET', /^\/v1\/entries\/\d+\/fetch-content$/, object({ content: string() })],
+  ['GET', /^\/v1\/categories$/, array(categorySchema)],
+  ['POST', /^\/v1\/categories$/, categorySchema],
+  ['PUT', /^\/v1\/categories\/\d+$/, categorySchema],
+  ['GET', /^\/v1\/categories\/\d+\/feeds$/, array(feedSchema)],
+  ['GET', /^\/v1\/categories\/\d+\/entries$/, entryResultSetSchema],
+  ['GET', /^\/v1\/enclosures\/\d+$/, enclosureSchema],
+  ['POST', /^\/v1\/discover$/, array(subscriptionSchema)],
+  ['POST', /^\/v1\/import$/, object({ message: string() })],
+]
+
+/**
+ * Finds the schema of the response of an endpoint.
+ * @param method - HTTP method of the request
+ * @param path - API path of the request, with or without query string
+ * @returns The response schema, or undefined if the endpoint is not validated
+ */
+export function findResponseSchema(method: string, path: string): Schema | undefined {
+  const pathname = path.split('?')[0]
+  return RESPONSE_SCHEMAS.find(
+    ([routeMethod, pattern]) => routeMethod === method && pattern.test(pathname)
+  )?.[2]
+}
@@ -0,0 +1,396 @@
+import { createExcerpt } from './content.ts'
+import type {
+  Entry,
+  EntryResultSet,
+  SearchField,
+  SearchIndexOptions,
+  SearchOptions,
+  SearchResult,
+  SerializedSearchIndex,
+} from './types.ts'
+
+interface SearchDocument {
+  entry: Entry
+  /** Plain text of the content */
+  content: string
+  tokens: Record<SearchField, string[]>
+}
+
+/** Part of a query: a term, a phrase or a prefix, possibly restricted to one field */
+interface QueryClause {
+  field?: SearchField
+  terms: string[]
+  /** Whether the last term matches any word starting with it */
+  prefix: boolean
+}
+
+const FIELDS: SearchField[] = ['title', 'content', 'author', 'tags']
+
+const DEFAULT_WEIGHTS: Record<SearchField, number> = { title: 3, content: 1, author: 2, tags: 2 }
+
+const FIELD_NAMES: Record<string, SearchField> = {
+  title: 'title',
+  content: 'content',
+  author: 'author',
+  tag: 'tags',
+  tags: 'tags',
+}
+
+// BM25 term frequency saturation and length normalization
+const K1 = 1.2
+const B = 0.75
+
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}]+/gu
+
+const QUERY_PATTERN = /(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g
+
+/**
+ * Normalizes a word for matching: lowercase, without diacritics.
+ * @param word - Word to normalize
+ * @returns The normalized word
+ */
+function normalize(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+/**
+ * Splits text into normalized words.
+ * @param text - Text to split
+ * @returns The words, in order
+ */
+function tokenize(text: string): string[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => normalize(match[0])).filter(Boolean)
+}
+
+/**
+ * Parses a search query. Words and quoted phrases must all match; `title:`, `content:`,
+ * `author:` and `tag:` restrict them to a field, and a trailing `*` matches word prefixes.
+ * @param query - Search query
+ * @returns The clauses of the query
+ */
+function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = []
+  for (const match of query.matchAll(QUERY_PATTERN)) {
+    const [source, name, phrase, word] = match
+    const field = name ? FIELD_NAMES[name.toLowerCase()] : undefined
+    const text = name && !field ? source : (phrase ?? word)
+    const terms = tokenize(text)
+    if (terms.length > 0) {
+      clauses.push({ field, terms, prefix: phrase === undefined && text.endsWith('*') })
+    }
+  }
+  return clauses
+}
+
+/**
+ * In-memory full-text index over entries, ranked with BM25 across the title, content,
+ * author and tags. Feed it with entries from `getEntries` or any iterator; it can be
+ * serialized with `toJSON()` and restored with `SearchIndex.fromJSON()`.
+ */
+export class SearchIndex {
+  private weights: Record<SearchField, number>
+  private documents = new Map<number, SearchDocument>()
+  private postings = new Map<string, Set<number>>()
+  private totalLengths: Record<SearchField, number> = { title: 0, content: 0, author: 0, tags: 0 }
+
+  /**
+   * Creates an empty search index.
+   * @param options - Optional field weights
+   */
+  constructor(options: SearchIndexOptions = {}) {
+    this.weights = { ...DEFAULT_WEIGHTS, ...options.fieldWeights }
+  }
+
+  /**
+   * Restores an index serialized with `toJSON()`.
+   * @param data - Serialized index
+   * @param options - Optional field weights
+   * @returns The restored index
+   * @throws {Error} When the serialized index has an unsupported version
+   */
+  static fromJSON(data: SerializedSearchIndex, options?: SearchIndexOptions): SearchIndex {
+    if (data.version !== 1) {
+      throw new Error(`Unsupported search index version: ${data.version}`)
+    }
+    const index = new SearchIndex(options)
+    data.documents.forEach(({ entry, content }) => index.index(entry, content))
+    return index
+  }
+
+  /** Number of indexed entries */
+  get size(): number {
+    return this.documents.size
+  }
+
+  /**
+   * Adds entries to the index, replacing entries already indexed with the same ID.
+   * @param entries - An entry, entries, or the result of `getEntries`
+   */
+  add(entries: Entry | Iterable<Entry> | EntryResultSet): void {
+    const list =
+      Symbol.iterator in entries ? entries : 'entries' in entries ? entries.entries : [entries]
+    for (const entry of list) {
+      this.index(entry, createExcerpt(entry, { maxLength: Infinity }))
+    }
+  }
+
+  /**
+   * Adds the entries of an iterator, such as `client.iterateEntries()` or an entry query.
+   * @param entries - Entries to add
+   * @returns Promise resolving to the number of entries added
+   */
+  async addAll(entries: AsyncIterable<Entry> | Iterable<Entry>): Promise<number> {
+    let count = 0
+    for await (const entry of entries) {
+      this.add(entry)
+      count++
+    }
+    return count
+  }
+
+  /**
+   * Removes an entry from the index.
+   * @param entryId - ID of the entry
+   * @returns Whether the entry was indexed
+   */
+  remove(entryId: number): boolean {
+    const document = this.documents.get(entryId)
+    if (!document) {
+      return false
+    }
+    for (const field of FIELDS) {
+      this.totalLengths[field] -= document.tokens[field].length
+      for (const token of document.tokens[field]) {
+        const ids = this.postings.get(token)
+        ids?.delete(entryId)
+        if (ids?.size === 0) {
+          this.postings.delete(token)
+        }
+      }
+    }
+    this.documents.delete(entryId)
+    return true
+  }
+
+  /**
+   * Removes all entries from the index.
+   */
+  clear(): void {
+    this.documents.clear()
+    this.postings.clear()
+    FIELDS.forEach(field => (this.totalLengths[field] = 0))
+  }
+
+  /**
+   * Searches the index. All words and phrases of the query must match; for example
+   * `rust "memory safety" author:jane tag:programming async*`.
+   * @param query - Search query
+   * @param options - Optional limit, fields, filter and snippet settings
+   * @returns The matching entries, most relevant first
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const { limit = 20, fields = FIELDS, filter, snippetLength = 160 } = options
+    const clauses = parseQuery(query)
+    if (clauses.length === 0) {
+      return []
+    }
+
+    // Words of the index matching each term of each clause
+    const variants = clauses.map(clause =>
+      clause.terms.map((term, position) =>
+        clause.prefix && position === clause.terms.length - 1
+          ? new Set(Array.from(this.postings.keys()).filter(token => token.startsWith(term)))
+          : new Set(this.postings.has(term) ? [term] : [])
+      )
+    )
+
+    const results: Omit<SearchResult, 'snippet'>[] = []
+    for (const document of this.candidates(variants)) {
+      if (filter && !filter(document.entry)) {
+        continue
+      }
+      let score = 0
+      const matched = new Set<SearchField>()
+      const matchesAll = clauses.every((clause, index) => {
+        let found = false
+        for (const field of clause.field ? [clause.field] : fields) {
+          const frequency = this.countMatches(document.tokens[field], variants[index])
+          if (frequency > 0) {
+            score += this.weights[field] * this.rank(field, frequency, document, variants[index])
+            matched.add(field)
+            found = true
+          }
+        }
+        return found
+      })
+      if (matchesAll) {
+        results.push({ entry: document.entry, score, fields: FIELDS.filter(f => matched.has(f)) })
+      }
+    }
+
+    results.sort(
+      (a, b) => b.score - a.score || b.entry.published_at.localeCompare(a.entry.published_at)
+    )
+
+    const highlighted = new Set<string>()
+    clauses.forEach((clause, index) => {
+      if (clause.field === undefined || clause.field === 'content') {
+        variants[index].forEach(words => words.forEach(word => highlighted.add(word)))
+      }
+    })
+    return results.slice(0, limit).map(result => {
+      const document = this.documents.get(result.entry.id)!
+      return {
+        ...result,
+        snippet: this.snippet(document.content || document.entry.title, highlighted, {
+          ...options,
+          snippetLength,
+        }),
+      }
+    })
+  }
+
+  /**
+   * Serializes the index, e.g. to store it with `JSON.stringify`.
+   * @returns The serialized index
+   */
+  toJSON(): SerializedSearchIndex {
+    return {
+      version: 1,
+      documents: Array.from(this.documents.values(), ({ entry, content }) => ({ entry, content })),
+    }
+  }
+
+  /**
+   * Indexes an entry.
+   * @param entry - Entry to index
+   * @param content - Plain text of its content
+   */
+  private index(entry: Entry, content: string): void {
+    this.remove(entry.id)
+    const document: SearchDocument = {
+      entry,
+      content,
+      tokens: {
+        title: tokenize(entry.title),
+        content: tokenize(content),
+        author: tokenize(entry.author ?? ''),
+        tags: tokenize((entry.tags ?? []).join(' ')),
+      },
+    }
+    this.documents.set(entry.id, document)
+    for (const field of FIELDS) {
+      this.totalLengths[field] += document.tokens[field].length
+      for (const token of document.tokens[field]) {
+        let ids = this.postings.get(token)
+        if (!ids) {
+          ids = new Set()
+          this.postings.set(token, ids)
+        }
+        ids.add(entry.id)
+      }
+    }
+  }
+
+  /**
+   * Finds the documents containing every word of the query in some field.
+   * @param variants - Words matching each term of each clause
+   * @returns The candidate documents
+   */
+  private candidates(variants: Set<string>[][]): SearchDocument[] {
+    let ids: Set<number> | undefined
+    for (const words of variants.flat()) {
+      const matching = new Set<number>()
+      words.forEach(word => this.postings.get(word)?.forEach(id => matching.add(id)))
+      ids = ids ? new Set(Array.from(ids).filter(id => matching.has(id))) : matching
+      if (ids.size === 0) {
+        return []
+      }
+    }
+    return Array.from(ids ?? [], id => this.documents.get(id)!)
+  }
+
+  /**
+   * Counts the occurrences of a term or phrase in the words of a field.
+   * @param tokens - Words of the field
+   * @param terms - Words matching each term, in order
+   * @returns The number of occurrences
+   */
+  private countMatches(tokens: string[], terms: Set<string>[]): number {
+    let count = 0
+    for (let start = 0; start + terms.length <= tokens.length; start++) {
+      if (terms.every((words, offset) => words.has(tokens[start + offset]))) {
+        count++
+      }
+    }
+    return count
+  }
+
+  /**
+   * Computes the BM25 score of a term or phrase in a field of a document.
+   * @param field - Field matching
+   * @param frequency - Number of occurrences in the field
+   * @param document - Document matching
+   * @param terms - Words matching each term, used for their rarity
+   * @returns The score
+   */
+  private rank(
+    field: SearchField,
+    frequency: number,
+    document: SearchDocument,
+    terms: Set<string>[]
+  ): number {
+    const count = this.documents.size
+    const idf = terms.reduce((sum, words) => {
+      const ids = new Set<number>()
+      words.forEach(word => this.postings.get(word)?.forEach(id => ids.add(id)))
+      return sum + Math.log(1 + (count - ids.size + 0.5) / (ids.size + 0.5))
+    }, 0)
+    const averageLength = this.totalLengths[field] / count || 1
+    const lengthRatio = document.tokens[field].length / averageLength
+    return (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio))
+  }
+
+  /**
+   * Extracts the part of a text around its first match and highlights the matches.
+   * @param text - Plain text
+   * @param words - Normalized words to highlight
+   * @param options - Snippet length and highlight markers
+   * @returns The snippet
+   */
+  private snippet(
+    text: string,
+    words: Set<string>,
+    options: SearchOptions & { snippetLength: number }
+  ): string {
+    const { snippetLength, highlight: [before, after] = ['**', '**'] } = options
+    const matches = Array.from(text.matchAll(WORD_PATTERN)).filter(match =>
+      words.has(normalize(match[0]))
+    )
+
+    let start = 0
+    const first = matches[0]?.index ?? 0
+    if (first > snippetLength / 3) {
+      start = first - Math.floor(snippetLength / 3)
+      const space = text.indexOf(' ', start)
+      start = space >= 0 && space < first ? space + 1 : first
+    }
+    let end = Math.min(text.length, start + snippetLength)
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end)
+      end = space > first ? space : end
+    }
+
+    let snippet = ''
+    let position = start
+    for (const match of matches) {
+      const index = match.index!
+      if (index >= start && index + match[0].length <= end) {
+        snippet += text.slice(position, index) + before + match[0] + after
+        position = index + match[0].length
+      }
+    }
+    snippet += text.slice(position, end)
+    return `${start > 0 ? '…' : ''}${snippet.trim()}${end < text.length ? '…' : ''}`
+  }
+}
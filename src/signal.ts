@@ -0,0 +1,42 @@
+/**
+ * Signal combining a caller's AbortSignal with a timeout.
+ */
+export interface RequestSignal {
+  /** Signal to pass to `fetch`, undefined when there is nothing to cancel */
+  signal?: AbortSignal
+  /** Releases the timer and listeners once the call has settled */
+  clear: () => void
+}
+
+/**
+ * Combines an optional caller signal and an optional timeout into one signal.
+ * When the timeout fires, the signal is aborted with a `TimeoutError` DOMException.
+ * @param signal - Signal provided by the caller
+ * @param timeout - Timeout in milliseconds
+ * @returns The combined signal and a function to release it
+ */
+export function createRequestSignal(signal?: AbortSignal, timeout?: number): RequestSignal {
+  if (timeout === undefined) {
+    return { signal, clear: () => {} }
+  }
+
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(signal?.reason)
+  if (signal?.aborted) {
+    onAbort()
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true })
+  }
+
+  const timer = setTimeout(() => {
+    controller.abort(new DOMException(`Timed out after ${timeout}ms`, 'TimeoutError'))
+  }, timeout)
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    },
+  }
+}
@@ -0,0 +1,70 @@
+import type { SyncData, SyncStore } from './types.ts'
+
+/**
+ * Sync store keeping its data in memory, lost when the process exits.
+ */
+export class MemorySyncStore implements SyncStore {
+  private data?: SyncData
+
+  /**
+   * Reads a copy of the stored data.
+   * @returns Promise resolving to the data, or undefined when nothing was stored yet
+   */
+  async read(): Promise<SyncData | undefined> {
+    return this.data && structuredClone(this.data)
+  }
+
+  /**
+   * Stores a copy of the data.
+   * @param data - Data to store
+   */
+  async write(data: SyncData): Promise<void> {
+    this.data = structuredClone(data)
+  }
+}
+
+/**
+ * Sync store keeping its data in a JSON file. Requires Node.js or a runtime
+ * providing `node:fs`.
+ */
+export class JsonFileSyncStore implements SyncStore {
+  private path: string
+
+  /**
+   * Creates a store backed by a JSON file.
+   * @param path - Path of the file, created with its directory on first write
+   */
+  constructor(path: string) {
+    this.path = path
+  }
+
+  /**
+   * Reads the data from the file.
+   * @returns Promise resolving to the data, or undefined when the file does not exist
+   */
+  async read(): Promise<SyncData | undefined> {
+    const { readFile } = await import('node:fs/promises')
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Writes the data to the file. The data is written to a temporary file first,
+   * so that an interrupted write does not corrupt the previous data.
+   * @param data - Data to store
+   */
+  async write(data: SyncData): Promise<void> {
+    const { mkdir, rename, writeFile } = await import('node:fs/promises')
+    const { dirname } = await import('node:path')
+    const temporaryPath = `${this.path}.${process.pid}.tmp`
+    await mkdir(dirname(this.path), { recursive: true })
+    await writeFile(temporaryPath, JSON.stringify(data))
+    await rename(temporaryPath, this.path)
+  }
+}
@@ -0,0 +1,403 @@
+import type { MinifluxClient } from './client.ts'
+import { MemorySyncStore } from './store.ts'
+import type {
+  Category,
+  Entry,
+  Feed,
+  Filter,
+  LocalEntryQuery,
+  PendingChange,
+  RequestOptions,
+  SyncConflict,
+  SyncData,
+  SyncOptions,
+  SyncResult,
+  SyncStore,
+} from './types.ts'
+
+/**
+ * Converts an ISO 8601 date to a Unix timestamp in seconds.
+ * @param date - Date to convert
+ * @returns The Unix timestamp, or undefined for missing or invalid dates
+ */
+function toUnix(date?: string): number | undefined {
+  const time = date ? Date.parse(date) : NaN
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000)
+}
+
+/**
+ * Resolves a conflict in favour of the most recent change.
+ * @param conflict - Conflicting local and server changes
+ * @returns The side whose change is the most recent
+ */
+function preferLatest({ local, remote }: SyncConflict): 'local' | 'remote' {
+  return Date.parse(remote.changed_at ?? '') > Date.parse(local.changedAt) ? 'remote' : 'local'
+}
+
+/**
+ * Keeps a local copy of feeds, categories and entries for offline use. Entries are
+ * pulled incrementally using the highest known entry ID and the time of the latest
+ * change, and status and star changes made offline are queued and pushed on the next sync.
+ */
+export class MinifluxSync {
+  private client: MinifluxClient
+  private store: SyncStore
+  private filter: Filter
+  private resolveConflict: NonNullable<SyncOptions['resolveConflict']>
+  private loading?: Promise<SyncData>
+  private running?: Promise<SyncResult>
+
+  /**
+   * Creates a sync engine.
+   * @param client - Client used to reach the server
+   * @param options - Store, entry filter and conflict resolution
+   */
+  constructor(client: MinifluxClient, options: SyncOptions = {}) {
+    this.client = client
+    this.store = options.store ?? new MemorySyncStore()
+    this.filter = options.filter ?? {}
+    this.resolveConflict = options.resolveConflict ?? preferLatest
+  }
+
+  /**
+   * Loads the data from the store on first use.
+   * @returns Promise resolving to the local data
+   */
+  private load(): Promise<SyncData> {
+    this.loading ??= this.store
+      .read()
+      .then(data => data ?? { feeds: [], categories: [], entries: [], pending: [], cursor: {} })
+    return this.loading
+  }
+
+  /**
+   * Retrieves the local feeds.
+   * @returns Promise resolving to the feeds
+   */
+  async getFeeds(): Promise<Feed[]> {
+    return (await this.load()).feeds
+  }
+
+  /**
+   * Retrieves the local categories.
+   * @returns Promise resolving to the categories
+   */
+  async getCategories(): Promise<Category[]> {
+    return (await this.load()).categories
+  }
+
+  /**
+   * Retrieves local entries, newest first.
+   * @param query - Optional status, starred, feed and category criteria
+   * @returns Promise resolving to the matching entries
+   */
+  async getEntries(query: LocalEntryQuery = {}): Promise<Entry[]> {
+    const { feeds, entries } = await this.load()
+    const categoryIds = new Map(feeds.map(feed => [feed.id, feed.category?.id]))
+    return entries
+      .filter(
+        entry =>
+          (!query.status || query.status.includes(entry.status as 'read' | 'unread')) &&
+          (query.starred === undefined || Boolean(entry.starred) === query.starred) &&
+          (query.feedId === undefined || entry.feed_id === query.feedId) &&
+          (query.categoryId === undefined ||
+            (entry.category?.id ?? categoryIds.get(entry.feed_id)) === query.categoryId)
+      )
+      .sort((a, b) => Date.parse(b.published_at) - Date.parse(a.published_at) || b.id - a.id)
+  }
+
+  /**
+   * Retrieves a local entry.
+   * @param entryId - ID of the entry
+   * @returns Promise resolving to the entry, or undefined if it is not stored locally
+   */
+  async getEntry(entryId: number): Promise<Entry | undefined> {
+    return (await this.load()).entries.find(entry => entry.id === entryId)
+  }
+
+  /**
+   * Retrieves the local changes not yet pushed to the server.
+   * @returns Promise resolving to the pending changes
+   */
+  async getPendingChanges(): Promise<PendingChange[]> {
+    return (await this.load()).pending
+  }
+
+  /**
+   * Marks local entries as read and queues the change.
+   * @param entryIds - IDs of the entries
+   * @throws {Error} When an entry is not stored locally
+   */
+  async markAsRead(entryIds: number[]): Promise<void> {
+    await this.change(entryIds, 'status', 'read')
+  }
+
+  /**
+   * Marks local entries as unread and queues the change.
+   * @param entryIds - IDs of the entries
+   * @throws {Error} When an entry is not stored locally
+   */
+  async markAsUnread(entryIds: number[]): Promise<void> {
+    await this.change(entryIds, 'status', 'unread')
+  }
+
+  /**
+   * Stars or unstars a local entry and queues the change.
+   * @param entryId - ID of the entry
+   * @param starred - Whether the entry should be starred
+   * @throws {Error} When the entry is not stored locally
+   */
+  async setStarred(entryId: number, starred: boolean): Promise<void> {
+    await this.change([entryId], 'starred', starred)
+  }
+
+  /**
+   * Applies a change to local entries and queues it. A change reverting an earlier
+   * pending change cancels it.
+   * @param entryIds - IDs of the entries
+   * @param field - Changed field
+   * @param value - New value
+   * @throws {Error} When an entry is not stored locally
+   */
+  private async change(
+    entryIds: number[],
+    field: PendingChange['field'],
+    value: PendingChange['value']
+  ): Promise<void> {
+    const data = await this.load()
+    const entries = entryIds.map(entryId => {
+      const entry = data.entries.find(item => item.id === entryId)
+      if (!entry) {
+        throw new Error(`Entry ${entryId} is not in the local store`)
+      }
+      return entry
+    })
+
+    const changedAt = new Date().toISOString()
+    for (const entry of entries) {
+      const index = data.pending.findIndex(
+        change => change.entryId === entry.id && change.field === field
+      )
+      const previous = index >= 0 ? data.pending.splice(index, 1)[0] : undefined
+      const original = previous ? previous.original : (entry[field] ?? false)
+      const baseChangedAt = previous ? previous.baseChangedAt : entry.changed_at
+      if (value !== original) {
+        data.pending.push({
+          entryId: entry.id,
+          field,
+          value,
+          original,
+          baseChangedAt,
+          changedAt,
+        } as PendingChange)
+      }
+      Object.assign(entry, { [field]: value })
+    }
+    await this.store.write(data)
+  }
+
+  /**
+   * Pulls feeds, categories and new or changed entries from the server, then pushes
+   * the pending local changes. Concurrent calls share the same run.
+   * @param options - Optional request options
+   * @returns Promise resolving to the numbers of pulled and pushed changes, and the conflicts
+   * @throws {MinifluxError} When pulling fails, or when a change could not be pushed;
+   * the changes that could not be pushed stay queued
+   */
+  sync(options?: RequestOptions): Promise<SyncResult> {
+    this.running ??= this.run(options).finally(() => {
+      this.running = undefined
+    })
+    return this.running
+  }
+
+  /**
+   * Runs a sync.
+   * @param options - Optional request options
+   * @returns Promise resolving to the sync result
+   */
+  private async run(options?: RequestOptions): Promise<SyncResult> {
+    const data = await this.load()
+    const startedAt = new Date()
+
+    // Pull
+    const [feeds, categories] = await Promise.all([
+      this.client.getFeeds(options),
+      this.client.getCategories(options),
+    ])
+    const remote = new Map<number, Entry>()
+    const newEntries = this.client.iterateEntries(
+      {
+        ...this.filter,
+        direction: 'asc',
+        after_entry_id: data.cursor.entryId ?? this.filter.after_entry_id,
+      },
+      options
+    )
+    for await (const entry of newEntries) {
+      remote.set(entry.id, entry)
+    }
+    if (data.cursor.changedAt !== undefined) {
+      const known = new Set(data.entries.map(entry => entry.id))
+      for await (const entry of this.client.iterateEntries(
+        { changed_after: data.cursor.changedAt },
+        options
+      )) {
+        if (known.has(entry.id)) {
+          remote.set(entry.id, entry)
+        }
+      }
+    }
+
+    const conflicts = await this.resolveConflicts(data, remote)
+    this.merge(data, feeds, categories, remote)
+
+    let { entryId, changedAt } = data.cursor
+    for (const entry of remote.values()) {
+      entryId = Math.max(entryId ?? 0, entry.id)
+      changedAt = Math.max(changedAt ?? 0, toUnix(entry.changed_at) ?? 0)
+    }
+    data.cursor = { entryId, changedAt: changedAt ?? toUnix(startedAt.toISOString()) }
+
+    // Push
+    const { pushed, error } = await this.push(data, options)
+    data.syncedAt = startedAt.toISOString()
+    await this.store.write(data)
+    if (error !== undefined) {
+      throw error
+    }
+    return { pulled: remote.size, pushed, conflicts }
+  }
+
+  /**
+   * Finds pending changes to entries that were also changed on the server since the
+   * change was made, and resolves them. Changes losing a conflict, or already applied
+   * on the server, are dropped.
+   * @param data - Local data
+   * @param remote - Entries pulled from the server
+   * @returns Promise resolving to the conflicts and their resolution
+   */
+  private async resolveConflicts(
+    data: SyncData,
+    remote: Map<number, Entry>
+  ): Promise<SyncResult['conflicts']> {
+    const conflicts: SyncResult['conflicts'] = []
+    for (const change of [...data.pending]) {
+      const entry = remote.get(change.entryId)
+      if (!entry || entry.changed_at === change.baseChangedAt) {
+        continue
+      }
+      const remoteValue = entry[change.field] ?? false
+      let resolution: 'local' | 'remote' = 'remote'
+      if (remoteValue !== change.value) {
+        resolution = await this.resolveConflict({ local: change, remote: entry })
+        conflicts.push({ local: change, remote: entry, resolution })
+      }
+      if (resolution === 'remote') {
+        data.pending.splice(data.pending.indexOf(change), 1)
+      } else {
+        change.original = remoteValue as never
+        change.baseChangedAt = entry.changed_at
+      }
+    }
+    return conflicts
+  }
+
+  /**
+   * Merges pulled data into the local data, keeping pending local values.
+   * @param data - Local data
+   * @param feeds - Feeds pulled from the server
+   * @param categories - Categories pulled from the server
+   * @param remote - Entries pulled from the server
+   */
+  private merge(data: SyncData, feeds: Feed[], categories: Category[], remote: Map<number, Entry>) {
+    const feedIds = new Set(feeds.map(feed => feed.id))
+    const entries = new Map(data.entries.map(entry => [entry.id, entry]))
+    for (const [id, entry] of remote) {
+      entries.set(id, { ...entry })
+    }
+    for (const change of data.pending) {
+      const entry = entries.get(change.entryId)
+      if (entry) {
+        Object.assign(entry, { [change.field]: change.value })
+      }
+    }
+
+    data.feeds = feeds
+    data.categories = categories
+    data.entries = [...entries.values()].filter(
+      entry => feedIds.has(entry.feed_id) && entry.status !== 'removed'
+    )
+    const entryIds = new Set(data.entries.map(entry => entry.id))
+    data.pending = data.pending.filter(change => entryIds.has(change.entryId))
+  }
+
+  /**
+   * Pushes the pending changes. Pushed changes are removed from the queue unless the
+   * entry was changed again in the meantime.
+   * @param data - Local data
+   * @param options - Optional request options
+   * @returns Promise resolving to the number of pushed changes, and the first error
+   */
+  private async push(
+    data: SyncData,
+    options?: RequestOptions
+  ): Promise<{ pushed: number; error?: unknown }> {
+    const pushed: PendingChange[] = []
+    let firstError: unknown
+
+    for (const status of ['read', 'unread'] as const) {
+      const changes = data.pending.filter(
+        change => change.field === 'status' && change.value === status
+      )
+      if (changes.length === 0) {
+        continue
+      }
+      const report = await this.client.updateEntriesStatus(
+        changes.map(change => change.entryId),
+        status,
+        options
+      )
+      for (const chunk of report.chunks) {
+        if (chunk.success) {
+          pushed.push(...changes.filter(change => chunk.entryIds.includes(change.entryId)))
+        } else {
+          firstError ??= chunk.error
+        }
+      }
+    }
+
+    for (const change of data.pending.filter(item => item.field === 'starred')) {
+      try {
+        // Toggling is relative, so check the server value first: it may already match after
+        // an interrupted push or a change made elsewhere
+        const entry = await this.client.getEntry(change.entryId, options)
+        if ((entry.starred ?? false) !== change.value) {
+          await this.client.toggleBookmark(change.entryId, options)
+        }
+        pushed.push(change)
+      } catch (error) {
+        firstError ??= error
+      }
+    }
+
+    for (const change of pushed) {
+      const index = data.pending.indexOf(change)
+      if (index >= 0) {
+        data.pending.splice(index, 1)
+        continue
+      }
+      // Changed again while pushing: the pushed value is now the server value
+      const next = data.pending.find(
+        item => item.entryId === change.entryId && item.field === change.field
+      )
+      if (next) {
+        next.original = change.value as never
+        if (next.value === next.original) {
+          data.pending.splice(data.pending.indexOf(next), 1)
+        }
+      }
+    }
+    return { pushed: pushed.length, error: firstError }
+  }
+}
@@ -0,0 +1,1043 @@
+import type { Category, Enclosure, Entry, Feed, FeedIcon, Subscription, User } from './types.ts'
+import { generateOPML, parseOPML } from './opml.ts'
+
+/**
+ * Options of the fake Miniflux server.
+ */
+export interface FakeMinifluxOptions {
+  /** Username of the default admin user (default: "admin") */
+  username?: string
+  /** Password of the default admin user (default: "password") */
+  password?: string
+  /** API key of the default admin user (default: "test-api-key") */
+  apiKey?: string
+  /** Version string returned by `/version` (default: "2.2.0") */
+  version?: string
+}
+
+/**
+ * Credentials of a user of the fake server.
+ */
+export interface FakeUserCredentials {
+  username: string
+  password: string
+  apiKey?: string
+  is_admin?: boolean
+}
+
+interface StoredUser {
+  user: User
+  password: string
+  apiKey?: string
+}
+
+interface RouteContext {
+  user: User
+  params: string[]
+  query: URLSearchParams
+  body: string
+}
+
+type RouteResult = { status: number; body?: unknown; text?: string }
+
+type RouteHandler = (context: RouteContext) => RouteResult
+
+class FakeMinifluxHTTPError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+const json = (status: number, body?: unknown): RouteResult => ({ status, body })
+
+const toUnix = (date?: string) => (date ? Math.floor(Date.parse(date) / 1000) : 0)
+
+/**
+ * In-memory implementation of the Miniflux API for offline tests. It serves the `/v1`
+ * routes used by MinifluxClient, including authentication, `Filter` semantics on entry
+ * listings and per-user data. Use `fetch` as the client's fetch implementation, or
+ * `listen()` to serve it over HTTP.
+ */
+export class FakeMiniflux {
+  private users: StoredUser[] = []
+  private categories: Category[] = []
+  private feeds: Feed[] = []
+  private entries: Entry[] = []
+  private enclosures: Enclosure[] = []
+  private icons = new Map<number, FeedIcon>()
+  private discoveries = new Map<string, Subscription[]>()
+  private nextId = 1
+  private version: string
+  private server?: { close(callback: (error?: Error) => void): void }
+  private routes: [string, RegExp, RouteHandler][]
+
+  /**
+   * Creates a fake server with a default admin user.
+   * @param options - Credentials of the default user and server version
+   */
+  constructor(options: FakeMinifluxOptions = {}) {
+    this.version = options.version ?? '2.2.0'
+    this.addUser({
+      username: options.username ?? 'admin',
+      password: options.password ?? 'password',
+      apiKey: options.apiKey ?? 'test-api-key',
+      is_admin: true,
+    })
+    this.routes = this.createRoutes()
+  }
+
+  /**
+   * Fetch implementation backed by the fake server, to pass as `MinifluxConfig.fetch`.
+   * @param input - Request URL
+   * @param init - Request options
+   * @returns Promise resolving to the response
+   */
+  fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    return this.handle(new Request(input, init))
+  }
+
+  /**
+   * Handles a Fetch API request.
+   * @param request - Request to handle
+   * @returns Promise resolving to the response
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const method = request.method.toUpperCase()
+    const body = method === 'GET' || method === 'HEAD' ? '' : await request.text()
+
+    try {
+      if (url.pathname === '/healthcheck') {
+        return new Response('OK')
+      }
+      if (url.pathname === '/version') {
+        return new Response(this.version)
+      }
+
+      const user = this.authenticate(request.headers)
+      for (const [routeMethod, pattern, handler] of this.routes) {
+        const match = routeMethod === method && pattern.exec(url.pathname)
+        if (match) {
+          const result = handler({ user, params: match.slice(1), query: url.searchParams, body })
+          if (result.text !== undefined) {
+            return new Response(result.text, { status: result.status })
+          }
+          return result.body === undefined
+            ? new Response(null, { status: result.status })
+            : Response.json(result.body, { status: result.status })
+        }
+      }
+      throw new FakeMinifluxHTTPError(404, 'route not found')
+    } catch (error) {
+      if (error instanceof FakeMinifluxHTTPError) {
+        return Response.json({ error_message: error.message }, { status: error.status })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Serves the fake API over HTTP on localhost.
+   * @param port - Port to listen on (default: a random free port)
+   * @returns Promise resolving to the base URL of the server
+   */
+  async listen(port = 0): Promise<string> {
+    const { createServer } = await import('node:http')
+    const server = createServer(async (req, res) => {
+      const chunks: Buffer[] = []
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer)
+      }
+      const headers = new Headers()
+      for (const [key, value] of Object.entries(req.headers)) {
+        if (typeof value === 'string') {
+          headers.set(key, value)
+        }
+      }
+      const hasBody = req.method !== 'GET' && req.method !== 'HEAD'
+      const response = await this.handle(
+        new Request(`http://localhost${req.url}`, {
+          method: req.method,
+          headers,
+          body: hasBody ? Buffer.concat(chunks) : undefined,
+        })
+      )
+      res.statusCode = response.status
+      response.headers.forEach((value, key) => res.setHeader(key, value))
+      res.end(Buffer.from(await response.arrayBuffer()))
+    })
+
+    await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve))
+    this.server = server
+    const address = server.address()
+    return `http://127.0.0.1:${typeof address === 'object' && address ? address.port : port}`
+  }
+
+  /**
+   * Stops the HTTP server started by `listen()`.
+   */
+  async close(): Promise<void> {
+    const server = this.server
+    this.server = undefined
+    if (server) {
+      await new Promise<void>((resolve, reject) =>
+        server.close(error => (error ? reject(error) : resolve()))
+      )
+    }
+  }
+
+  // Seeding
+
+  /**
+   * Adds a user.
+   * @param credentials - Username, password, optional API key and admin flag
+   * @returns The created user
+   */
+  addUser(credentials: FakeUserCredentials): User {
+    const user: User = {
+      id: this.nextId++,
+      username: credentials.username,
+      is_admin: credentials.is_admin ?? false,
+      theme: 'light_serif',
+      language: 'en_US',
+      timezone: 'UTC',
+      entry_direction: 'asc',
+      entries_per_page: 100,
+      keyboard_shortcuts: true,
+      show_reading_time: true,
+      entry_swipe: true,
+      stylesheet: '',
+      entries_status_filter: 'unread',
+      default_reading_speed: 265,
+      cjk_reading_speed: 500,
+      default_home_page: 'unread',
+      categories_sorting_order: 'unread_count',
+    }
+    this.users.push({ user, password: credentials.password, apiKey: credentials.apiKey })
+    return user
+  }
+
+  /**
+   * Adds a category.
+   * @param category - Category title and optional fields
+   * @returns The created category
+   */
+  addCategory(category: Partial<Category> & { title: string }): Category {
+    const created: Category = { id: this.nextId++, user_id: this.defaultUserId(), ...category }
+    this.categories.push(created)
+    return created
+  }
+
+  /**
+   * Adds a feed, in the user's first category unless one is given.
+   * @param feed - Feed URL and optional fields
+   * @returns The created feed
+   */
+  addFeed(feed: Partial<Feed> & { feed_url: string }): Feed {
+    const userId = feed.user_id ?? this.defaultUserId()
+    const category = feed.category ?? this.defaultCategory(userId)
+    const created: Feed = {
+      id: this.nextId++,
+      user_id: userId,
+      title: feed.feed_url,
+      site_url: feed.feed_url,
+      checked_at: new Date().toISOString(),
+      parsing_error_count: 0,
+      parsing_error_message: '',
+      disabled: false,
+      hide_globally: false,
+      ...feed,
+      category,
+    }
+    this.feeds.push(created)
+    return created
+  }
+
+  /**
+   * Adds an entry to a feed.
+   * @param entry - Feed ID and optional fields
+   * @returns The created entry
+   */
+  addEntry(entry: Partial<Entry> & { feed_id: number }): Entry {
+    const feed = this.findFeed(entry.feed_id)
+    const id = this.nextId++
+    const now = new Date().toISOString()
+    const created: Entry = {
+      id,
+      user_id: feed.user_id,
+      status: 'unread',
+      title: `Entry ${id}`,
+      url: `${feed.site_url.replace(/\/$/, '')}/entries/${id}`,
+      published_at: now,
+      created_at: now,
+      changed_at: now,
+      content: '',
+      author: '',
+      starred: false,
+      reading_time: 1,
+      enclosures: [],
+      tags: [],
+      ...entry,
+    }
+    this.entries.push(created)
+    return created
+  }
+
+  /**
+   * Adds an enclosure to an entry.
+   * @param enclosure - Entry ID, URL and optional fields
+   * @returns The created enclosure
+   */
+  addEnclosure(enclosure: Partial<Enclosure> & { entry_id: number; url: string }): Enclosure {
+    const entry = this.findEntry(enclosure.entry_id)
+    const created: Enclosure = {
+      id: this.nextId++,
+      user_id: entry.user_id,
+      mime_type: 'audio/mpeg',
+      size: 0,
+      media_progression: 0,
+      ...enclosure,
+    }
+    this.enclosures.push(created)
+    entry.enclosures = [...(entry.enclosures ?? []), created]
+    return created
+  }
+
+  /**
+   * Sets the icon of a feed.
+   * @param feedId - ID of the feed
+   * @param mimeType - MIME type of the icon
+   * @param base64 - Base64-encoded icon data
+   * @returns The created icon
+   */
+  setFeedIcon(feedId: number, mimeType: string, base64: string): FeedIcon {
+    const icon: FeedIcon = {
+      id: this.nextId++,
+      mime_type: mimeType,
+      data: `${mimeType};base64,${base64}`,
+    }
+    this.icons.set(feedId, icon)
+    this.findFeed(feedId).icon = { feed_id: feedId, icon_id: icon.id }
+    return icon
+  }
+
+  /**
+   * Sets the subscriptions returned by `/v1/discover` for a URL.
+   * @param url - Website URL
+   * @param subscriptions - Subscriptions to return
+   */
+  setDiscovery(url: string, subscriptions: Subscription[]): void {
+    this.discoveries.set(url, subscriptions)
+  }
+
+  /**
+   * Returns a snapshot of the stored data, for assertions.
+   * @returns Copies of all users, categories, feeds and entries
+   */
+  snapshot(): { users: User[]; categories: Category[]; feeds: Feed[]; entries: Entry[] } {
+    return structuredClone({
+      users: this.users.map(stored => stored.user),
+      categories: this.categories,
+      feeds: this.feeds,
+      entries: this.entries,
+    })
+  }
+
+  // Helpers
+
+  private authenticate(headers: Headers): User {
+    const token = headers.get('X-Auth-Token')
+    const authorization = headers.get('Authorization')
+    let stored: StoredUser | undefined
+
+    if (token) {
+      stored = this.users.find(candidate => candidate.apiKey === token)
+    } else if (authorization?.startsWith('Basic ')) {
+      const [username, ...rest] = atob(authorization.slice(6)).split(':')
+      const password = rest.join(':')
+      stored = this.users.find(
+        candidate => candidate.user.username === username && candidate.password === password
+      )
+    }
+    if (!stored) {
+      throw new FakeMinifluxHTTPError(401, 'access unauthorized')
+    }
+    return stored.user
+  }
+
+  private requireAdmin(user: User): void {
+    if (!user.is_admin) {
+      throw new FakeMinifluxHTTPError(403, 'access forbidden')
+    }
+  }
+
+  private defaultUserId(): number {
+    return this.users[0].user.id
+  }
+
+  private defaultCategory(userId: number): Category {
+    return (
+      this.categories.find(category => category.user_id === userId) ??
+      this.addCategory({ title: 'All', user_id: userId })
+    )
+  }
+
+  private parseBody<T>(body: string): T {
+    try {
+      return JSON.parse(body) as T
+    } catch {
+      throw new FakeMinifluxHTTPError(400, 'invalid JSON payload')
+    }
+  }
+
+  private findFeed(feedId: number, user?: User): Feed {
+    const feed = this.feeds.find(f => f.id === feedId && (!user || f.user_id === user.id))
+    if (!feed) {
+      throw new FakeMinifluxHTTPError(404, 'resource not found')
+    }
+    return feed
+  }
+
+  private findEntry(entryId: number, user?: User): Entry {
+    const entry = this.entries.find(e => e.id === entryId && (!user || e.user_id === user.id))
+    if (!entry) {
+      throw new FakeMinifluxHTTPError(404, 'resource not found')
+    }
+    return entry
+  }
+
+  private findCategory(categoryId: number, user: User): Category {
+    const category = this.categories.find(c => c.id === categoryId && c.user_id === user.id)
+    if (!category) {
+      throw new FakeMinifluxHTTPError(404, 'resource not found')
+    }
+    return category
+  }
+
+  private findEnclosure(enclosureId: number, user: User): Enclosure {
+    const enclosure = this.enclosures.find(e => e.id === enclosureId && e.user_id === user.id)
+    if (!enclosure) {
+      throw new FakeMinifluxHTTPError(404, 'resource not found')
+    }
+    return enclosure
+  }
+
+  private findUser(userId: number): StoredUser {
+    const stored = this.users.find(candidate => candidate.user.id === userId)
+    if (!stored) {
+      throw new FakeMinifluxHTTPError(404, 'resource not found')
+    }
+    return stored
+  }
+
+  private withFeed(entry: Entry): Entry {
+    const feed = this.feeds.find(f => f.id === entry.feed_id)
+    return { ...entry, feed, category: feed?.category }
+  }
+
+  private touch(entry: Entry): void {
+    entry.changed_at = new Date().toISOString()
+  }
+
+  /**
+   * Applies the Miniflux entry filter query parameters.
+   * @param entries - Entries to filter
+   * @param query - Query parameters of the request
+   * @returns The matching page and the total number of matching entries
+   */
+  private queryEntries(
+    entries: Entry[],
+    query: URLSearchParams
+  ): { total: number; entries: Entry[] } {
+    const number = (key: string) => (query.has(key) ? Number(query.get(key)) : undefined)
+    const statuses = query.getAll('status')
+    const search = query.get('search')?.toLowerCase()
+    const checks: [number | undefined, (entry: Entry, value: number) => boolean][] = [
+      [number('before'), (e, v) => toUnix(e.published_at) < v],
+      [number('after'), (e, v) => toUnix(e.published_at) > v],
+      [number('published_before'), (e, v) => toUnix(e.published_at) < v],
+      [number('published_after'), (e, v) => toUnix(e.published_at) > v],
+      [number('changed_before'), (e, v) => toUnix(e.changed_at) < v],
+      [number('changed_after'), (e, v) => toUnix(e.changed_at) > v],
+      [number('before_entry_id'), (e, v) => e.id < v],
+      [number('after_entry_id'), (e, v) => e.id > v],
+      [number('category_id'), (e, v) => this.withFeed(e).category?.id === v],
+      [number('feed_id'), (e, v) => e.feed_id === v],
+    ]
+
+    let matching = entries.filter(entry => {
+      if (statuses.length > 0 && !statuses.includes(entry.status)) {
+        return false
+      }
+      if (query.has('starred') && Boolean(entry.starred) !== (query.get('starred') === 'true')) {
+        return false
+      }
+      if (search && !`${entry.title} ${entry.content ?? ''}`.toLowerCase().includes(search)) {
+        return false
+      }
+      return checks.every(([value, check]) => value === undefined || check(entry, value))
+    })
+
+    const order = query.get('order') ?? 'published_at'
+    const direction = query.get('direction') === 'desc' ? -1 : 1
+    const sortKey = (entry: Entry): string | number => {
+      const withFeed = this.withFeed(entry)
+      switch (order) {
+        case 'id':
+          return entry.id
+        case 'status':
+          return entry.status
+        case 'category_title':
+          return withFeed.category?.title ?? ''
+        case 'category_id':
+          return withFeed.category?.id ?? 0
+        default:
+          return Date.parse(entry.published_at) || 0
+      }
+    }
+    matching = [...matching].sort((a, b) => {
+      const keyA = sortKey(a)
+      const keyB = sortKey(b)
+      return (keyA < keyB ? -1 : keyA > keyB ? 1 : a.id - b.id) * direction
+    })
+
+    const offset = number('offset') ?? 0
+    const limit = number('limit')
+    const page = matching.slice(offset, limit ? offset + limit : undefined)
+    return { total: matching.length, entries: page.map(entry => this.withFeed(entry)) }
+  }
+
+  private markAsRead(entries: Entry[]): RouteResult {
+    for (const entry of entries) {
+      if (entry.status === 'unread') {
+        entry.status = 'read'
+        this.touch(entry)
+      }
+    }
+    return json(204)
+  }
+
+  private createRoutes(): [string, RegExp, RouteHandler][] {
+    const id = (context: RouteContext, index = 0) => Number(context.params[index])
+    const userEntries = (user: User) => this.entries.filter(entry => entry.user_id === user.id)
+
+    return [
+      // Users
+      ['GET', /^\/v1\/me$/, ({ user }) => json(200, user)],
+      [
+        'GET',
+        /^\/v1\/users$/,
+        ({ user }) => {
+          this.requireAdmin(user)
+          return json(
+            200,
+            this.users.map(stored => stored.user)
+          )
+        },
+      ],
+      [
+        'GET',
+        /^\/v1\/users\/(\d+)$/,
+        context => {
+          this.requireAdmin(context.user)
+          return json(200, this.findUser(id(context)).user)
+        },
+      ],
+      [
+        'POST',
+        /^\/v1\/users$/,
+        ({ user, body }) => {
+          this.requireAdmin(user)
+          const payload = this.parseBody<{
+            username?: string
+            password?: string
+            is_admin?: boolean
+          }>(body)
+          if (!payload.username || !payload.password) {
+            throw new FakeMinifluxHTTPError(400, 'The username and password are mandatory')
+          }
+          if (this.users.some(stored => stored.user.username === payload.username)) {
+            throw new FakeMinifluxHTTPError(400, 'This user already exists')
+          }
+          const created = this.addUser({
+            username: payload.username,
+            password: payload.password,
+            is_admin: payload.is_admin,
+          })
+          return json(201, created)
+        },
+      ],
+      [
+        'PUT',
+        /^\/v1\/users\/(\d+)$/,
+        context => {
+          if (context.user.id !== id(context)) {
+            this.requireAdmin(context.user)
+          }
+          const stored = this.findUser(id(context))
+          const changes = this.parseBody<Partial<User> & { password?: string }>(context.body)
+          delete changes.id
+          if (changes.password) {
+            stored.password = changes.password
+            delete changes.password
+          }
+          Object.assign(stored.user, changes)
+          return json(201, stored.user)
+        },
+      ],
+      [
+        'DELETE',
+        /^\/v1\/users\/(\d+)$/,
+        context => {
+          this.requireAdmin(context.user)
+          const stored = this.findUser(id(context))
+          if (stored.user.id === context.user.id) {
+            throw new FakeMinifluxHTTPError(400, 'You cannot remove yourself')
+          }
+          const userId = stored.user.id
+          this.users = this.users.filter(candidate => candidate !== stored)
+          this.entries = this.entries.filter(entry => entry.user_id !== userId)
+          this.feeds = this.feeds.filter(feed => feed.user_id !== userId)
+          this.categories = this.categories.filter(category => category.user_id !== userId)
+          return json(204)
+        },
+      ],
+      [
+        'PUT',
+        /^\/v1\/users\/(\d+)\/mark-all-as-read$/,
+        context => {
+          if (context.user.id !== id(context)) {
+            throw new FakeMinifluxHTTPError(403, 'access forbidden')
+          }
+          return this.markAsRead(userEntries(context.user))
+        },
+      ],
+
+      // Feeds
+      [
+        'GET',
+        /^\/v1\/feeds$/,
+        ({ user }) =>
+          json(
+            200,
+            this.feeds.filter(f => f.user_id === user.id)
+          ),
+      ],
+      [
+        'GET',
+        /^\/v1\/feeds\/counters$/,
+        ({ user }) => {
+          const reads: Record<string, number> = {}
+          const unreads: Record<string, number> = {}
+          for (const entry of userEntries(user)) {
+            const counters = entry.status === 'unread' ? unreads : reads
+            counters[entry.feed_id] = (counters[entry.feed_id] ?? 0) + 1
+          }
+          return json(200, { reads, unreads })
+        },
+      ],
+      ['PUT', /^\/v1\/feeds\/refresh$/, () => json(204)],
+      [
+        'GET',
+        /^\/v1\/feeds\/(\d+)$/,
+        context => json(200, this.findFeed(id(context), context.user)),
+      ],
+      [
+        'POST',
+        /^\/v1\/feeds$/,
+        ({ user, body }) => {
+          const payload = this.parseBody<{ feed_url?: string; category_id?: number }>(body)
+          if (!payload.feed_url) {
+            throw new FakeMinifluxHTTPError(400, 'The feed URL is mandatory')
+          }
+          if (this.feeds.some(f => f.user_id === user.id && f.feed_url === payload.feed_url)) {
+            throw new FakeMinifluxHTTPError(400, 'This feed already exists')
+          }
+          const category = payload.category_id
+            ? this.categories.find(c => c.id === payload.category_id && c.user_id === user.id)
+            : this.defaultCategory(user.id)
+          if (!category) {
+            throw new FakeMinifluxHTTPError(
+              400,
+              'This category does not exist or does not belong to this user'
+            )
+          }
+          const feed = this.addFeed({ feed_url: payload.feed_url, user_id: user.id, category })
+          return json(201, { feed_id: feed.id })
+        },
+      ],
+      [
+        'PUT',
+        /^\/v1\/feeds\/(\d+)$/,
+        context => {
+          const feed = this.findFeed(id(context), context.user)
+          const { category_id, ...changes } = this.parseBody<
+            Partial<Feed> & { category_id?: number }
+          >(context.body)
+          if (category_id !== undefined) {
+            feed.category = this.findCategory(category_id, context.user)
+          }
+          Object.assign(feed, changes, { id: feed.id, user_id: feed.user_id })
+          return json(201, feed)
+        },
+      ],
+      [
+        'DELETE',
+        /^\/v1\/feeds\/(\d+)$/,
+        context => {
+          const feed = this.findFeed(id(context), context.user)
+          this.feeds = this.feeds.filter(f => f !== feed)
+          this.entries = this.entries.filter(entry => entry.feed_id !== feed.id)
+          return json(204)
+        },
+      ],
+      [
+        'PUT',
+        /^\/v1\/feeds\/(\d+)\/refresh$/,
+        context => {
+          this.findFeed(id(context), context.user).checked_at = new Date().toISOString()
+          return json(204)
+        },
+      ],
+      [
+        'GET',
+        /^\/v1\/feeds\/(\d+)\/icon$/,
+        context => {
+          this.findFeed(id(context), context.user)
+          const icon = this.icons.get(id(context))
+          if (!icon) {
+            throw new FakeMinifluxHTTPError(404, 'resource not found')
+          }
+          return json(200, icon)
+        },
+      ],
+      [
+        'GET',
+        /^\/v1\/icons\/(\d+)$/,
+        context => {
+          const icon = [...this.icons.values()].find(item => item.id === id(context))
+          if (!icon) {
+            throw new FakeMinifluxHTTPError(404, 'resource not found')
+          }
+          return json(200, icon)
+        },
+      ],
+      [
+        'GET',
+        /^\/v1\/feeds\/(\d+)\/entries$/,
+        context => {
+          const feed = this.findFeed(id(context), context.user)
+          return json(
+            200,
+            this.queryEntries(
+              this.entries.filter(entry => entry.feed_id === feed.id),
+              context.query
+            )
+          )
+        },
+      ],
+      [
+        'POST',
+        /^\/v1\/feeds\/(\d+)\/entries\/import$/,
+        context => {
+          const feed = this.findFeed(id(context), context.user)
+          const payload = this.parseBody<
+            Partial<Omit<Entry, 'published_at'>> & { published_at?: number; external_id?: string }
+          >(context.body)
+          if (!payload.url) {
+            throw new FakeMinifluxHTTPError(400, 'The entry URL is mandatory')
+          }
+          if (payload.status && payload.status !== 'read' && payload.status !== 'unread') {
+            throw new FakeMinifluxHTTPError(400, 'Invalid entry status')
+          }
+          const hash = payload.external_id ?? payload.url
+          const existing = this.entries.find(
+            entry => entry.feed_id === feed.id && (entry.hash ?? entry.url) === hash
+          )
+          if (existing) {
+            return json(200, { id: existing.id })
+          }
+          const { url, content, author, status, starred, tags, published_at } = payload
+          const entry = this.addEntry({
+            feed_id: feed.id,
+            url,
+            title: payload.title || url,
+            hash,
+            ...(content !== undefined && { content }),
+            ...(author !== undefined && { author }),
+            ...(status !== undefined && { status }),
+            ...(starred !== undefined && { starred }),
+            ...(tags !== undefined && { tags }),
+            ...(published_at && { published_at: new Date(published_at * 1000).toISOString() }),
+          })
+          return json(201, { id: entry.id })
+        },
+      ],
+      [
+        'PUT',
+        /^\/v1\/feeds\/(\d+)\/mark-all-as-read$/,
+        context => {
+          const feed = this.findFeed(id(context), context.user)
+          return this.markAsRead(this.entries.filter(entry => entry.feed_id === feed.id))
+        },
+      ],
+
+      // Entries
+      [
+        'GET',
+        /^\/v1\/entries$/,
+        ({ user, query }) => json(200, this.queryEntries(userEntries(user), query)),
+      ],
+      [
+        'PUT',
+        /^\/v1\/entries$/,
+        ({ user, body }) => {
+          const payload = this.parseBody<{ entry_ids?: number[]; status?: Entry['status'] }>(body)
+          if (!payload.entry_ids?.length || !payload.status) {
+            throw new FakeMinifluxHTTPError(
+              400,
+              'The list of entry IDs and the status are mandatory'
+            )
+          }
+          for (const entry of userEntries(user)) {
+            if (payload.entry_ids.includes(entry.id)) {
+              entry.status = payload.status
+              this.touch(entry)
+            }
+          }
+          return json(204)
+        },
+      ],
+      [
+        'GET',
+        /^\/v1\/entries\/(\d+)$/,
+        context => json(200, this.withFeed(this.findEntry(id(context), context.user))),
+      ],
+      [
+        'PUT',
+        /^\/v1\/entries\/(\d+)$/,
+        context => {
+          const entry = this.findEntry(id(context), context.user)
+          const payload = this.parseBody<Partial<Pick<Entry, 'title' | 'content' | 'status'>>>(
+            context.body
+          )
+          if (payload.title !== undefined) {
+            entry.title = payload.title
+          }
+          if (payload.content !== undefined) {
+            entry.content = payload.content
+          }
+          if (payload.status !== undefined) {
+            entry.status = payload.status
+          }
+          this.touch(entry)
+          return json(201, this.withFeed(entry))
+        },
+      ],
+      [
+        'PUT',
+        /^\/v1\/entries\/(\d+)\/bookmark$/,
+        context => {
+          const entry = this.findEntry(id(context), context.user)
+          entry.starred = !entry.starred
+          this.touch(entry)
+          return json(204)
+        },
+      ],
+      [
+        'GET',
+        /^\/v1\/entries\/(\d+)\/fetch-content$/,
+        context => json(200, { content: this.findEntry(id(context), context.user).content ?? '' }),
+      ],
+      [
+        'POST',
+        /^\/v1\/entries\/(\d+)\/save$/,
+        context => {
+          this.findEntry(id(context), context.user)
+          return json(202)
+        },
+      ],
+
+      // Categories
+      [
+        'GET',
+        /^\/v1\/categories$/,
+        ({ user, query }) => {
+          const categories = this.categories.filter(c => c.user_id === user.id)
+          if (query.get('counts') !== 'true') {
+            return json(200, categories)
+          }
+          const entries = userEntries(user)
+          return json(
+            200,
+            categories.map(category => ({
+              ...category,
+              feed_count: this.feeds.filter(f => f.category?.id === category.id).length,
+              total_unread: entries.filter(
+                entry =>
+                  entry.status === 'unread' && this.withFeed(entry).category?.id === category.id
+              ).length,
+            }))
+          )
+        },
+      ],
+      [
+        'POST',
+        /^\/v1\/categories$/,
+        ({ user, body }) => {
+          const { title } = this.parseBody<{ title?: string }>(body)
+          if (!title) {
+            throw new FakeMinifluxHTTPError(400, 'The title is mandatory')
+          }
+          if (this.categories.some(c => c.user_id === user.id && c.title === title)) {
+            throw new FakeMinifluxHTTPError(400, 'This category already exists')
+          }
+          return json(201, this.addCategory({ title, user_id: user.id }))
+        },
+      ],
+      [
+        'PUT',
+        /^\/v1\/categories\/(\d+)$/,
+        context => {
+          const category = this.findCategory(id(context), context.user)
+          const { title, hide_globally } = this.parseBody<Partial<Category>>(context.body)
+          if (title !== undefined) {
+            category.title = title
+          }
+          if (hide_globally !== undefined) {
+            category.hide_globally = hide_globally
+          }
+          return json(201, category)
+        },
+      ],
+      [
+        'DELETE',
+        /^\/v1\/categories\/(\d+)$/,
+        context => {
+          const category = this.findCategory(id(context), context.user)
+          const feedIds = this.feeds.filter(f => f.category?.id === category.id).map(f => f.id)
+          this.categories = this.categories.filter(c => c !== category)
+          this.feeds = this.feeds.filter(f => !feedIds.includes(f.id))
+          this.entries = this.entries.filter(entry => !feedIds.includes(entry.feed_id))
+          return json(204)
+        },
+      ],
+      [
+        'PUT',
+        /^\/v1\/categories\/(\d+)\/refresh$/,
+        context => {
+          this.findCategory(id(context), context.user)
+          return json(204)
+        },
+      ],
+      [
+        'GET',
+        /^\/v1\/categories\/(\d+)\/feeds$/,
+        context => {
+          const category = this.findCategory(id(context), context.user)
+          return json(
+            200,
+            this.feeds.filter(f => f.category?.id === category.id)
+          )
+        },
+      ],
+      [
+        'GET',
+        /^\/v1\/categories\/(\d+)\/entries$/,
+        context => {
+          const category = this.findCategory(id(context), context.user)
+          const entries = userEntries(context.user).filter(
+            entry => this.withFeed(entry).category?.id === category.id
+          )
+          return json(200, this.queryEntries(entries, context.query))
+        },
+      ],
+      [
+        'PUT',
+        /^\/v1\/categories\/(\d+)\/mark-all-as-read$/,
+        context => {
+          const category = this.findCategory(id(context), context.user)
+          return this.markAsRead(
+            userEntries(context.user).filter(
+              entry => this.withFeed(entry).category?.id === category.id
+            )
+          )
+        },
+      ],
+
+      // Enclosures
+      [
+        'GET',
+        /^\/v1\/enclosures\/(\d+)$/,
+        context => json(200, this.findEnclosure(id(context), context.user)),
+      ],
+      [
+        'PUT',
+        /^\/v1\/enclosures\/(\d+)$/,
+        context => {
+          const enclosure = this.findEnclosure(id(context), context.user)
+          const { media_progression } = this.parseBody<{ media_progression?: number }>(context.body)
+          if (typeof media_progression !== 'number' || media_progression < 0) {
+            throw new FakeMinifluxHTTPError(400, 'media_progression must be a positive integer')
+          }
+          enclosure.media_progression = media_progression
+          return json(204)
+        },
+      ],
+
+      // OPML and discovery
+      [
+        'GET',
+        /^\/v1\/export$/,
+        ({ user }) => ({
+          status: 200,
+          text: generateOPML(this.feeds.filter(f => f.user_id === user.id)),
+        }),
+      ],
+      [
+        'POST',
+        /^\/v1\/import$/,
+        ({ user, body }) => {
+          let document
+          try {
+            document = parseOPML(body)
+          } catch (error) {
+            throw new FakeMinifluxHTTPError(400, (error as Error).message)
+          }
+          for (const { title, feeds } of document.categories) {
+            const category =
+              this.categories.find(c => c.user_id === user.id && c.title === title) ??
+              this.addCategory({ title, user_id: user.id })
+            for (const outline of feeds) {
+              if (!this.feeds.some(f => f.user_id === user.id && f.feed_url === outline.feed_url)) {
+                this.addFeed({
+                  feed_url: outline.feed_url,
+                  site_url: outline.site_url ?? outline.feed_url,
+                  title: outline.title,
+                  user_id: user.id,
+                  category,
+                })
+              }
+            }
+          }
+          return json(201, { message: 'Feeds imported successfully' })
+        },
+      ],
+      [
+        'POST',
+        /^\/v1\/discover$/,
+        ({ body }) => {
+          const { url } = this.parseBody<{ url?: string }>(body)
+          const subscriptions = url ? this.discoveries.get(url) : undefined
+          if (!subscriptions?.length) {
+            throw new FakeMinifluxHTTPError(404, 'resource not found')
+          }
+          return json(200, subscriptions)
+        },
+      ],
+    ]
+  }
+}
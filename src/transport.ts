@@ -0,0 +1,60 @@
+import type { FetchFunction, RequestOptions } from './types.ts'
+import {
+  MinifluxError,
+  createAbortError,
+  createNetworkError,
+  createResponseError,
+} from './errors.ts'
+import { createRequestSignal } from './signal.ts'
+
+/**
+ * Request sent by the clients of the compatibility APIs.
+ */
+export interface TransportRequest extends RequestOptions {
+  /** Fetch implementation sending the request */
+  fetch: FetchFunction
+  /** Absolute URL of the request */
+  url: string
+  /** API path of the request, used in error details */
+  path: string
+  method: string
+  headers: Headers
+  body?: BodyInit
+}
+
+/**
+ * Sends a request and reads its body, mapping failures to the client errors.
+ * The timeout covers reading the body.
+ * @param request - Request to send
+ * @returns Promise resolving to the response body as text
+ * @throws {MinifluxError} On error responses, network failures, timeouts and aborts
+ */
+export async function sendRequest(request: TransportRequest): Promise<string> {
+  const { fetch, url, path, method, headers, body, signal, timeout } = request
+  const requestSignal = createRequestSignal(signal, timeout)
+
+  try {
+    let response: Response
+    try {
+      response = await fetch(url, { method, headers, body, signal: requestSignal.signal })
+    } catch (error) {
+      if (requestSignal.signal?.aborted) {
+        throw error
+      }
+      throw createNetworkError(error, { method, path })
+    }
+
+    const text = await response.text()
+    if (!response.ok) {
+      throw createResponseError({ status: response.status, method, path, body: text })
+    }
+    return text
+  } catch (error) {
+    if (requestSignal.signal?.aborted && !(error instanceof MinifluxError)) {
+      throw createAbortError(requestSignal.signal.reason, { method, path })
+    }
+    throw error
+  } finally {
+    requestSignal.clear()
+  }
+}
@@ -4,6 +4,189 @@ export interface MinifluxConfig {
   username?: string
   password?: string
   authType?: 'api_key' | 'password'
+  /** Retry policy for failed requests; `true` enables the defaults. Disabled when omitted. */
+  retry?: boolean | RetryPolicy
+  /** Default timeout in milliseconds for every call, including retries. No timeout when omitted. */
+  timeout?: number
+  /** Fetch implementation used to send requests (default: the global `fetch`) */
+  fetch?: FetchFunction
+  /** Middleware applied to every request, in order, after the built-in authentication */
+  middleware?: MinifluxMiddleware[]
+  /**
+   * Validation of response bodies against the declared types (default: 'off').
+   * 'strict' throws on mismatches and removes unknown fields, 'lenient' reports
+   * mismatches through `onValidationWarning` and returns the body unchanged.
+   */
+  validation?: ValidationMode
+  /** Called with the mismatches found in lenient mode (default: `console.warn`) */
+  onValidationWarning?: (endpoint: string, issues: SchemaIssue[]) => void
+  /** Maximum number of calls in flight; further calls wait for a slot. Unlimited when omitted. */
+  concurrency?: number
+  /** Token bucket limiting the rate of calls. Unlimited when omitted. */
+  rateLimit?: RateLimit
+  /** Cache of GET responses; `true` enables an in-memory cache. Disabled when omitted. */
+  cache?: boolean | ResponseCacheOptions
+}
+
+export interface ResponseCacheOptions {
+  /** Storage of the cached responses (default: MemoryCacheStore) */
+  store?: ResponseCacheStore
+  /**
+   * Time in milliseconds during which responses without an ETag or Last-Modified header
+   * are served from the cache without a request (default: 5000)
+   */
+  ttl?: number
+}
+
+/** Response stored by the response cache */
+export interface CachedResponse {
+  body: string
+  /** Value of the ETag header, sent back as If-None-Match */
+  etag?: string
+  /** Value of the Last-Modified header, sent back as If-Modified-Since */
+  lastModified?: string
+  /** Time the response was stored or last revalidated, in milliseconds since the epoch */
+  storedAt: number
+}
+
+/** Storage backend of the response cache, keyed by credentials digest and request URL */
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>
+  set(key: string, response: CachedResponse): Promise<void>
+  delete(key: string): Promise<void>
+  /** Lists the stored keys, used to invalidate responses after changes */
+  keys(): Promise<string[]>
+}
+
+export interface RateLimit {
+  /** Number of calls allowed per interval */
+  requests: number
+  /** Length of the interval in milliseconds (default: 1000) */
+  interval?: number
+  /** Number of calls that can be made at once after a quiet period (default: `requests`) */
+  burst?: number
+}
+
+export interface BatchOptions {
+  /** Maximum number of items processed at once (default: the client concurrency, or all) */
+  concurrency?: number
+}
+
+export type BatchItemResult<T, R> =
+  | { item: T; success: true; value: R }
+  | { item: T; success: false; error: unknown }
+
+export interface BatchReport<T, R> {
+  /** Total number of items */
+  total: number
+  /** Number of items processed successfully */
+  succeeded: number
+  /** Number of items that failed */
+  failed: number
+  /** Result of every item, in order */
+  results: BatchItemResult<T, R>[]
+}
+
+export type ValidationMode = 'off' | 'strict' | 'lenient'
+
+export interface SchemaIssue {
+  /** Path of the invalid field, e.g. `entries[0].feed.title` */
+  path: string
+  /** Description of the mismatch */
+  message: string
+}
+
+export interface PaginationOptions extends RequestOptions {
+  /** Number of entries requested per page (default: 100) */
+  pageSize?: number
+  /** Maximum number of entries to yield; all matching entries when omitted */
+  maxEntries?: number
+}
+
+export interface BulkOptions extends RequestOptions {
+  /** Number of entry IDs sent per request (default: 500) */
+  chunkSize?: number
+  /** Maximum number of requests in flight (default: 2) */
+  concurrency?: number
+}
+
+export interface ChunkResult {
+  /** Entry IDs sent in this chunk */
+  entryIds: number[]
+  /** Whether the chunk was updated */
+  success: boolean
+  /** Error thrown for this chunk, if it failed */
+  error?: unknown
+}
+
+export interface BulkUpdateReport {
+  /** Total number of entry IDs */
+  total: number
+  /** Number of entries in successful chunks */
+  succeeded: number
+  /** Number of entries in failed chunks */
+  failed: number
+  /** Result of every chunk, in order */
+  chunks: ChunkResult[]
+}
+
+export type FetchFunction = (input: string, init: RequestInit) => Promise<Response>
+
+export interface MinifluxRequest {
+  /** Absolute URL of the request */
+  url: string
+  /** API path of the request, e.g. `/v1/feeds` */
+  path: string
+  /** HTTP method of the request */
+  method: string
+  /** Request headers, which middleware may modify */
+  headers: Headers
+  /** Request body */
+  body?: BodyInit | null
+  /** Signal cancelling the request */
+  signal?: AbortSignal
+}
+
+/**
+ * Intercepts a request before it is sent. Call `next` to continue the chain and
+ * receive the response, which can be inspected or replaced before returning it.
+ */
+export type MinifluxMiddleware = (
+  request: MinifluxRequest,
+  next: (request: MinifluxRequest) => Promise<Response>
+) => Promise<Response>
+
+export interface RequestOptions {
+  /** Signal to cancel the call */
+  signal?: AbortSignal
+  /** Timeout in milliseconds for this call, overriding the client default */
+  timeout?: number
+  /**
+   * Whether repeating the call has the same effect as sending it once; `false` disables
+   * retries for this call even if its method is retryable (default: true)
+   */
+  idempotent?: boolean
+}
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one (default: 3) */
+  maxAttempts?: number
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelay?: number
+  /** Upper bound for a single delay in milliseconds (default: 30000) */
+  maxDelay?: number
+  /** Multiplier applied to the delay after each attempt (default: 2) */
+  backoffFactor?: number
+  /** Randomize each delay between zero and its computed value (default: true) */
+  jitter?: boolean
+  /** Response statuses that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatuses?: number[]
+  /** HTTP methods that may be retried (default: GET, HEAD, OPTIONS, PUT, DELETE) */
+  retryableMethods?: string[]
+  /** Retry when the server cannot be reached (default: true) */
+  retryOnNetworkError?: boolean
+  /** Wait for the delay given by the `Retry-After` header when present (default: true) */
+  respectRetryAfter?: boolean
 }
 
 export interface Feed {
@@ -13,7 +196,7 @@ export interface Feed {
   site_url: string
   feed_url: string
   category?: Category
-  icon?: FeedIcon
+  icon?: FeedIconReference
   etag_header?: string
   last_modified_header?: string
   crawler?: boolean
@@ -35,11 +218,123 @@ export interface Feed {
   hide_globally?: boolean
 }
 
+/** Changes to a feed; `category_id` moves it to another category */
+export type FeedUpdate = Partial<Feed> & { category_id?: number }
+
+export type FeedHealthStatus = 'failing' | 'stale' | 'disabled' | 'silent'
+
+export interface FeedHealthOptions extends RequestOptions {
+  /** Time in milliseconds without a check after which a feed is stale (default: 1 day) */
+  staleAfter?: number
+  /** Time in milliseconds without new entries after which a feed is silent (default: 30 days) */
+  silentAfter?: number
+  /** Maximum number of requests in flight to find the latest entries (default: the client concurrency, or 4) */
+  concurrency?: number
+}
+
+export interface FeedHealthIssue {
+  feed: Feed
+  status: FeedHealthStatus
+  /** Human-readable explanation, e.g. `Not checked for 3 days` */
+  reason: string
+  /** Date of the last check or of the latest entry, when known */
+  since?: string
+}
+
+export interface FeedHealthReport {
+  /** Date of the report */
+  generatedAt: string
+  /** Feeds whose last refreshes failed */
+  failing: FeedHealthIssue[]
+  /** Feeds not checked within `staleAfter` */
+  stale: FeedHealthIssue[]
+  /** Disabled feeds, which are not listed in the other groups */
+  disabled: FeedHealthIssue[]
+  /** Feeds without new entries within `silentAfter` */
+  silent: FeedHealthIssue[]
+  /** Feeds without any issue */
+  healthy: Feed[]
+}
+
+export type FeedActionOptions = BatchOptions & RequestOptions
+
+export interface QuarantineOptions extends FeedActionOptions {
+  /** Title of the category receiving the feeds, created if needed (default: 'Quarantine') */
+  category?: string
+}
+
+/** Rules of a feed, in Miniflux's syntax */
+export type FeedRules = Pick<
+  Feed,
+  'scraper_rules' | 'rewrite_rules' | 'blocklist_rules' | 'keeplist_rules'
+>
+
+export interface FeedRuleIssue {
+  /** Rule with the issue */
+  field: keyof FeedRules
+  /** Description of the issue */
+  message: string
+  /**
+   * `error` when Miniflux would ignore or misapply the rule, `warning` when it may not
+   * behave as intended or cannot be checked locally
+   */
+  severity: 'error' | 'warning'
+}
+
+/** Function of the rewrite rules, e.g. `replace("a"|"b")` */
+export interface RewriteRule {
+  name: string
+  args: string[]
+}
+
+/** Entry field tested by block and keep rules */
+export type RuleMatchField = 'url' | 'title' | 'author' | 'tags'
+
+export interface RuleTestResult {
+  entry: Entry
+  kept: boolean
+  /** Rule dropping the entry */
+  droppedBy?: 'blocklist' | 'keeplist'
+  /** Field matched by the block rule, or by the keep rule of a kept entry */
+  match?: { field: RuleMatchField; value: string }
+}
+
+export interface RuleTestReport {
+  kept: RuleTestResult[]
+  dropped: RuleTestResult[]
+  /** Issues found in the rules */
+  issues: FeedRuleIssue[]
+}
+
+export interface RuleTestOptions extends RequestOptions {
+  /** Number of recent entries of the feed to test (default: 100) */
+  limit?: number
+}
+
 export interface Category {
   id: number
   user_id: number
   title: string
   hide_globally?: boolean
+  /** Number of feeds in the category, only set when counts are requested */
+  feed_count?: number
+  /** Number of unread entries in the category, only set when counts are requested */
+  total_unread?: number
+}
+
+export interface CategoryListOptions extends RequestOptions {
+  /** Include the number of feeds and unread entries of each category (default: false) */
+  counts?: boolean
+}
+
+export interface CategoryUpdate {
+  title?: string
+  /** Hide the entries of the category from the unread list */
+  hide_globally?: boolean
+}
+
+export interface CategoryWithFeeds extends Category {
+  feeds: Feed[]
 }
 
 export interface Entry {
@@ -56,6 +351,8 @@ export interface Entry {
   content?: string
   author?: string
   share_code?: string
+  /** Identifier used by Miniflux to detect duplicates, derived from the URL or the external ID */
+  hash?: string
   starred?: boolean
   reading_time?: number
   enclosures?: Enclosure[]
@@ -66,10 +363,89 @@ export interface Entry {
 
 export interface FeedIcon {
   id: number
+  /** Icon as `mime;base64,...`, see `decodeIcon` and `iconToDataURL` */
   data: string
   mime_type: string
 }
 
+/** Icon of a feed, as referenced by feeds and the feeds of entries */
+export interface FeedIconReference {
+  feed_id: number
+  icon_id: number
+}
+
+export interface DecodedIcon {
+  mimeType: string
+  bytes: Uint8Array
+}
+
+export interface IconCacheOptions {
+  /** Maximum number of icons kept, least recently used first out (default: 500) */
+  maxEntries?: number
+  /** Time in milliseconds after which an icon is downloaded again (default: never) */
+  ttl?: number
+}
+
+/**
+ * HTML to convert: a string, an entry, or the result of `fetchContent`. Relative URLs are
+ * resolved against the `url` of an entry.
+ */
+export type HTMLSource = string | { content?: string; url?: string; enclosures?: Enclosure[] }
+
+export interface HTMLConversionOptions {
+  /** URL relative links and images are resolved against (default: the `url` of the entry) */
+  baseURL?: string
+}
+
+export interface ExcerptOptions extends HTMLConversionOptions {
+  /** Maximum length of the excerpt, ellipsis included (default: 200) */
+  maxLength?: number
+  /** Appended when the text is shortened (default: '…') */
+  ellipsis?: string
+}
+
+export interface LeadImage {
+  url: string
+  alt?: string
+}
+
+/** Entry fields covered by the local search index */
+export type SearchField = 'title' | 'content' | 'author' | 'tags'
+
+export interface SearchIndexOptions {
+  /** Weight of matches in each field (default: title 3, tags 2, author 2, content 1) */
+  fieldWeights?: Partial<Record<SearchField, number>>
+}
+
+export interface SearchOptions {
+  /** Maximum number of results (default: 20) */
+  limit?: number
+  /** Fields searched by terms without a `field:` prefix (default: all) */
+  fields?: SearchField[]
+  /** Only return entries matching this predicate */
+  filter?: (entry: Entry) => boolean
+  /** Approximate length of the snippets (default: 160) */
+  snippetLength?: number
+  /** Markers placed around matches in the snippets (default: `['**', '**']`) */
+  highlight?: [before: string, after: string]
+}
+
+export interface SearchResult {
+  entry: Entry
+  /** Relevance of the entry, higher is better */
+  score: number
+  /** Fields matching the query */
+  fields: SearchField[]
+  /** Excerpt of the content around the first match, with the matches highlighted */
+  snippet: string
+}
+
+export interface SerializedSearchIndex {
+  version: 1
+  /** Indexed entries, with the plain text of their content */
+  documents: { entry: Entry; content: string }[]
+}
+
 export interface Enclosure {
   id: number
   user_id: number
@@ -136,6 +512,293 @@ export interface EntryUpdatePayload {
   content?: string
 }
 
+export interface EntryImportPayload {
+  url: string
+  /** Title of the entry (default: the URL) */
+  title?: string
+  content?: string
+  author?: string
+  /** Publication date, or Unix timestamp in seconds (default: now) */
+  published_at?: Date | number
+  /** Status of the entry (default: unread) */
+  status?: 'read' | 'unread'
+  starred?: boolean
+  tags?: string[]
+  /** Identifier of the item in its source, used instead of the URL to detect duplicates */
+  external_id?: string
+}
+
+export interface EntryImportResult {
+  /** ID of the entry */
+  id: number
+  /** Whether the entry was created, or already existed in the feed */
+  created: boolean
+}
+
+export interface Subscription {
+  title: string
+  url: string
+  type: 'rss' | 'atom' | 'json' | 'rdf' | string
+}
+
+export interface DiscoverOptions {
+  user_agent?: string
+  cookie?: string
+  username?: string
+  password?: string
+  fetch_via_proxy?: boolean
+  allow_self_signed_certificates?: boolean
+  disable_http2?: boolean
+}
+
+export interface SubscribeOptions extends DiscoverOptions {
+  /** Category to assign the new feed to */
+  categoryId?: number
+  /** Behavior when several feeds are found: subscribe to the best one (default) or throw */
+  onMultiple?: 'best' | 'error'
+}
+
+export interface SubscribeResult {
+  /** The created feed */
+  feed: Feed
+  /** The subscription the feed was created from */
+  subscription: Subscription
+  /** All discovered subscriptions, best first */
+  candidates: Subscription[]
+}
+
+export interface ImportResponse {
+  message: string
+}
+
+export interface OPMLOutline {
+  title: string
+  feed_url: string
+  site_url?: string
+  description?: string
+}
+
+export interface OPMLCategory {
+  title: string
+  feeds: OPMLOutline[]
+}
+
+export interface OPMLDocument {
+  title?: string
+  categories: OPMLCategory[]
+}
+
+export type WebhookFeed = Pick<
+  Feed,
+  'id' | 'user_id' | 'feed_url' | 'site_url' | 'title' | 'checked_at'
+> & {
+  category_id: number
+}
+
+export interface NewEntriesEvent {
+  event_type: 'new_entries'
+  feed: WebhookFeed
+  entries: Entry[]
+}
+
+export interface SaveEntryEvent {
+  event_type: 'save_entry'
+  entry: Entry
+}
+
+export type WebhookEvent = NewEntriesEvent | SaveEntryEvent
+
+export interface WebhookHandlerOptions {
+  /** Webhook secret shown in the Miniflux integration settings */
+  secret: string
+  /** Called with every verified event */
+  onEvent: (event: WebhookEvent) => void | Promise<void>
+}
+
+/** Subset of Node's `http.IncomingMessage` used by the webhook handler */
+export interface NodeIncomingMessage extends AsyncIterable<Uint8Array | string> {
+  method?: string
+  headers: Record<string, string | string[] | undefined>
+}
+
+/** Subset of Node's `http.ServerResponse` used by the webhook handler */
+export interface NodeServerResponse {
+  statusCode: number
+  setHeader(name: string, value: string): unknown
+  end(body?: string): unknown
+}
+
+export interface WebhookHandler {
+  /** Handles a Fetch API request, e.g. in Deno, Bun or edge runtimes */
+  handleRequest(request: Request): Promise<Response>
+  /** Handles a request from Node's `http` module */
+  handleNodeRequest(req: NodeIncomingMessage, res: NodeServerResponse): Promise<void>
+}
+
 export interface EntryStatus {
   status: 'read' | 'unread'
 }
+
+/** Entry field changed locally while offline */
+export type PendingChange =
+  | PendingChangeOf<'status', 'read' | 'unread'>
+  | PendingChangeOf<'starred', boolean>
+
+interface PendingChangeOf<F extends string, V> {
+  entryId: number
+  field: F
+  /** Value set locally */
+  value: V
+  /** Value before the first local change, as last seen on the server */
+  original: V
+  /** `changed_at` of the server entry the change is based on */
+  baseChangedAt?: string
+  /** ISO 8601 time of the latest local change */
+  changedAt: string
+}
+
+export interface SyncCursor {
+  /** Highest entry ID pulled so far */
+  entryId?: number
+  /** Unix timestamp of the latest entry change pulled so far */
+  changedAt?: number
+}
+
+/** Data kept by a sync store */
+export interface SyncData {
+  feeds: Feed[]
+  categories: Category[]
+  entries: Entry[]
+  pending: PendingChange[]
+  cursor: SyncCursor
+  /** ISO 8601 time of the last successful sync */
+  syncedAt?: string
+}
+
+/** Storage backend of the sync engine */
+export interface SyncStore {
+  /** Reads the stored data, or undefined when nothing was stored yet */
+  read(): Promise<SyncData | undefined>
+  /** Replaces the stored data */
+  write(data: SyncData): Promise<void>
+}
+
+/**
+ * Entry changed both locally and on the server since the last sync. Miniflux records
+ * one change time per entry, so any server change to the entry counts.
+ */
+export interface SyncConflict {
+  /** The pending local change */
+  local: PendingChange
+  /** The entry as currently stored on the server */
+  remote: Entry
+}
+
+export interface SyncOptions {
+  /** Store keeping the local data (default: in memory) */
+  store?: SyncStore
+  /** Filter restricting the entries pulled, e.g. `{ status: ['unread'] }` */
+  filter?: Filter
+  /**
+   * Resolves conflicts between local and server changes
+   * (default: the most recent change wins)
+   */
+  resolveConflict?: (conflict: SyncConflict) => 'local' | 'remote' | Promise<'local' | 'remote'>
+}
+
+export interface SyncResult {
+  /** Number of new or updated entries pulled from the server */
+  pulled: number
+  /** Number of local changes pushed to the server */
+  pushed: number
+  /** Conflicts found, with their resolution */
+  conflicts: (SyncConflict & { resolution: 'local' | 'remote' })[]
+}
+
+export interface LocalEntryQuery {
+  status?: ('read' | 'unread')[]
+  starred?: boolean
+  feedId?: number
+  categoryId?: number
+}
+
+export interface GoogleReaderConfig {
+  /** Base URL of the Miniflux instance, e.g. `https://miniflux.example.com` */
+  baseURL: string
+  /** Miniflux username */
+  username: string
+  /** Password set in the Google Reader integration settings */
+  password: string
+  /** Default timeout in milliseconds for every call. No timeout when omitted. */
+  timeout?: number
+  /** Fetch implementation used to send requests (default: the global `fetch`) */
+  fetch?: FetchFunction
+}
+
+export interface GoogleReaderStreamOptions {
+  /** Number of items per page (default: 100) */
+  count?: number
+  /** Continuation token of the previous page */
+  continuation?: string
+  /** Only return unread items */
+  unreadOnly?: boolean
+  /** Only return items published after this Unix timestamp */
+  newerThan?: number
+  /** Only return items published before this Unix timestamp */
+  olderThan?: number
+  /** Sort order (default: 'newest') */
+  order?: 'newest' | 'oldest'
+}
+
+export interface GoogleReaderStream {
+  entries: Entry[]
+  /** Token to pass as `continuation` to fetch the next page, absent on the last page */
+  continuation?: string
+}
+
+export interface GoogleReaderUnreadCounts {
+  /** Unread entries of all feeds */
+  total: number
+  /** Unread entries by feed ID */
+  feeds: Record<number, number>
+  /** Unread entries by category title */
+  categories: Record<string, number>
+}
+
+export interface GoogleReaderTagEdit {
+  /** Stream IDs of the tags to add, e.g. `GOOGLE_READER_STREAMS.read` */
+  add?: string[]
+  /** Stream IDs of the tags to remove */
+  remove?: string[]
+}
+
+export interface FeverConfig {
+  /** Base URL of the Miniflux instance; requests go to `{baseURL}/fever/` */
+  baseURL: string
+  /** Username set in the Fever integration settings */
+  username?: string
+  /** Password set in the Fever integration settings */
+  password?: string
+  /** Precomputed API key, the MD5 of `username:password`, instead of the credentials */
+  apiKey?: string
+  /** Default timeout in milliseconds for every call. No timeout when omitted. */
+  timeout?: number
+  /** Fetch implementation used to send requests (default: the global `fetch`) */
+  fetch?: FetchFunction
+}
+
+export interface FeverItemsOptions {
+  /** Only return items with a higher ID, oldest first */
+  sinceId?: number
+  /** Only return items with a lower ID, newest first */
+  maxId?: number
+  /** Only return these items (at most 50) */
+  withIds?: number[]
+}
+
+export interface FeverItems {
+  /** Entries of the page, at most 50 */
+  entries: Entry[]
+  /** Total number of items on the server */
+  total: number
+}
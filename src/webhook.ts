@@ -0,0 +1,186 @@
+import type { WebhookEvent, WebhookHandler, WebhookHandlerOptions } from './types.ts'
+import { MinifluxWebhookError } from './errors.ts'
+
+const SIGNATURE_HEADER = 'x-miniflux-signature'
+const EVENT_TYPE_HEADER = 'x-miniflux-event-type'
+
+/**
+ * Converts a byte array to a lowercase hexadecimal string.
+ * @param bytes - Bytes to convert
+ * @returns The hexadecimal string
+ */
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Compares two strings in constant time with respect to their content.
+ * @param a - First string
+ * @param b - Second string
+ * @returns Whether the strings are equal
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i % Math.max(1, b.length))
+  }
+  return diff === 0
+}
+
+/**
+ * Verifies the `X-Miniflux-Signature` header of a webhook request, the hex-encoded
+ * HMAC-SHA256 of the raw request body keyed with the webhook secret.
+ * @param body - Raw request body
+ * @param signature - Value of the `X-Miniflux-Signature` header
+ * @param secret - Webhook secret shown in the Miniflux integration settings
+ * @returns Promise resolving to whether the signature is valid
+ */
+export async function verifyWebhookSignature(
+  body: string | Uint8Array,
+  signature: string | null | undefined,
+  secret: string
+): Promise<boolean> {
+  if (!signature || !secret) {
+    return false
+  }
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const data = typeof body === 'string' ? encoder.encode(body) : body
+  const expected = toHex(await crypto.subtle.sign('HMAC', key, data))
+  return timingSafeEqual(expected, signature.trim().toLowerCase())
+}
+
+/**
+ * Parses the body of a webhook request into a typed event.
+ * @param body - Raw request body
+ * @param eventType - Value of the `X-Miniflux-Event-Type` header, if available
+ * @returns The parsed event
+ * @throws {MinifluxWebhookError} When the body is not a known webhook event
+ */
+export function parseWebhookEvent(body: string, eventType?: string | null): WebhookEvent {
+  let payload: Record<string, unknown>
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    throw new MinifluxWebhookError('Invalid webhook payload: malformed JSON', 400)
+  }
+  if (typeof payload !== 'object' || payload === null) {
+    throw new MinifluxWebhookError('Invalid webhook payload: expected an object', 400)
+  }
+
+  const type = eventType || payload.event_type
+  if (type === 'new_entries') {
+    if (typeof payload.feed !== 'object' || !Array.isArray(payload.entries)) {
+      throw new MinifluxWebhookError('Invalid new_entries event: missing feed or entries', 400)
+    }
+    return { ...payload, event_type: 'new_entries' } as WebhookEvent
+  }
+  if (type === 'save_entry') {
+    if (typeof payload.entry !== 'object' || payload.entry === null) {
+      throw new MinifluxWebhookError('Invalid save_entry event: missing entry', 400)
+    }
+    return { ...payload, event_type: 'save_entry' } as WebhookEvent
+  }
+  throw new MinifluxWebhookError(`Unknown webhook event type: ${String(type)}`, 400)
+}
+
+/**
+ * Verifies and parses a webhook request body.
+ * @param body - Raw request body
+ * @param headers - Function reading a request header by lowercase name
+ * @param secret - Webhook secret
+ * @returns Promise resolving to the parsed event
+ * @throws {MinifluxWebhookError} When the signature is invalid or the body cannot be parsed
+ */
+async function readWebhookEvent(
+  body: string | Uint8Array,
+  headers: (name: string) => string | null | undefined,
+  secret: string
+): Promise<WebhookEvent> {
+  if (!(await verifyWebhookSignature(body, headers(SIGNATURE_HEADER), secret))) {
+    throw new MinifluxWebhookError('Invalid webhook signature', 401)
+  }
+  const text = typeof body === 'string' ? body : new TextDecoder().decode(body)
+  return parseWebhookEvent(text, headers(EVENT_TYPE_HEADER))
+}
+
+/**
+ * Creates a webhook handler for Fetch API and Node `http` servers. Requests with an
+ * invalid signature are answered with 401, invalid payloads with 400, and errors
+ * thrown by `onEvent` with 500.
+ * @param options - Webhook secret and event callback
+ * @returns The webhook handler
+ */
+export function createWebhookHandler(options: WebhookHandlerOptions): WebhookHandler {
+  const handle = async (
+    body: string | Uint8Array,
+    headers: (name: string) => string | null | undefined
+  ): Promise<{ status: number; message: string }> => {
+    let event: WebhookEvent
+    try {
+      event = await readWebhookEvent(body, headers, options.secret)
+    } catch (error) {
+      if (error instanceof MinifluxWebhookError) {
+        return { status: error.status, message: error.message }
+      }
+      throw error
+    }
+    try {
+      await options.onEvent(event)
+    } catch {
+      return { status: 500, message: 'Webhook handler failed' }
+    }
+    return { status: 200, message: 'OK' }
+  }
+
+  return {
+    async handleRequest(request) {
+      if (request.method !== 'POST') {
+        return new Response('Method Not Allowed', { status: 405 })
+      }
+      const body = new Uint8Array(await request.arrayBuffer())
+      const { status, message } = await handle(body, name => request.headers.get(name))
+      return new Response(message, { status, headers: { 'Content-Type': 'text/plain' } })
+    },
+
+    async handleNodeRequest(req, res) {
+      if (req.method && req.method !== 'POST') {
+        res.statusCode = 405
+        res.end('Method Not Allowed')
+        return
+      }
+      const chunks: Uint8Array[] = []
+      for await (const chunk of req) {
+        chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk)
+      }
+      const { status, message } = await handle(concatBytes(chunks), name => {
+        const value = req.headers[name]
+        return Array.isArray(value) ? value[0] : value
+      })
+      res.statusCode = status
+      res.setHeader('Content-Type', 'text/plain')
+      res.end(message)
+    },
+  }
+}
+
+/**
+ * Concatenates byte arrays.
+ * @param chunks - Byte arrays to concatenate
+ * @returns A single byte array
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { runCli, EXIT_CODES } from '../src/cli.ts'
+import { FakeMiniflux } from '../src/testing.ts'
+
+describe('miniflux CLI', () => {
+  let server: FakeMiniflux
+  let stdout: string
+  let stderr: string
+  let feedId: number
+  let entryIds: number[]
+
+  const run = (...argv: string[]) =>
+    runCli(argv, {
+      env: { MINIFLUX_BASE_URL: 'http://miniflux.test', MINIFLUX_API_KEY: 'test-api-key' },
+      stdout: text => (stdout += text),
+      stderr: text => (stderr += text),
+      fetch: server.fetch,
+    })
+
+  beforeEach(() => {
+    stdout = ''
+    stderr = ''
+    server = new FakeMiniflux()
+    const category = server.addCategory({ title: 'Tech' })
+    feedId = server.addFeed({ feed_url: 'https://example.com/feed.xml', title: 'Example', category }).id
+    entryIds = [
+      server.addEntry({ feed_id: feedId, title: 'First', published_at: '2024-01-01T00:00:00Z' }),
+      server.addEntry({ feed_id: feedId, title: 'Second', published_at: '2024-01-02T00:00:00Z', starred: true }),
+      server.addEntry({ feed_id: feedId, title: 'Third', published_at: '2024-01-03T00:00:00Z', status: 'read' }),
+    ].map(entry => entry.id)
+  })
+
+  describe('Output', () => {
+    it('should print lists as tables', async () => {
+      expect(await run('feeds', 'list')).toBe(EXIT_CODES.OK)
+      expect(stdout.split('\n')).toEqual([
+        'ID  TITLE    CATEGORY  FEED URL',
+        `${feedId}   Example  Tech      https://example.com/feed.xml`,
+        '',
+      ])
+    })
+
+    it('should print JSON', async () => {
+      expect(await run('categories', 'list', '--output', 'json')).toBe(EXIT_CODES.OK)
+      expect(JSON.parse(stdout).map((category: { title: string }) => category.title)).toContain('Tech')
+    })
+
+    it('should print one JSON document per line in NDJSON mode', async () => {
+      expect(await run('entries', 'list', '-o', 'ndjson')).toBe(EXIT_CODES.OK)
+      const entries = stdout.trim().split('\n').map(line => JSON.parse(line))
+      expect(entries.map(entry => entry.title)).toEqual(['First', 'Second', 'Third'])
+    })
+
+    it('should print plain values', async () => {
+      expect(await run('version')).toBe(EXIT_CODES.OK)
+      expect(stdout).toBe('2.2.0\n')
+    })
+  })
+
+  describe('Commands', () => {
+    it('should pass filter flags to the entries endpoint', async () => {
+      await run('entries', 'list', '--status', 'unread', '--starred', '-o', 'json')
+      expect(JSON.parse(stdout).map((entry: { title: string }) => entry.title)).toEqual(['Second'])
+    })
+
+    it('should list the entries of a feed', async () => {
+      await run('entries', 'list', '--feed', String(feedId), '--status', 'read,unread', '--limit', '1', '-o', 'json')
+      expect(JSON.parse(stdout)).toHaveLength(1)
+    })
+
+    it('should mark entries as read and star them', async () => {
+      expect(await run('entries', 'read', String(entryIds[0]), String(entryIds[1]), '-o', 'json')).toBe(EXIT_CODES.OK)
+      expect(JSON.parse(stdout)).toEqual({ total: 2, succeeded: 2, failed: 0 })
+      expect(await run('entries', 'star', String(entryIds[0]))).toBe(EXIT_CODES.OK)
+
+      const { entries } = server.snapshot()
+      expect(entries.map(entry => [entry.status, entry.starred])).toEqual([
+        ['read', true],
+        ['read', true],
+        ['read', false],
+      ])
+    })
+
+    it('should leave entries that are already starred as they are', async () => {
+      expect(await run('entries', 'star', String(entryIds[1]), String(entryIds[0]))).toBe(EXIT_CODES.OK)
+      expect(await run('entries', 'star', String(entryIds[1]))).toBe(EXIT_CODES.OK)
+      expect(server.snapshot().entries.map(entry => entry.starred)).toEqual([true, true, false])
+    })
+
+    it('should only mark the entries of a feed matching the other filters', async () => {
+      const other = server.addEntry({ feed_id: feedId, title: 'Fourth' })
+      expect(await run('entries', 'read', '--feed', String(feedId), '--search', 'fir', '-o', 'json')).toBe(
+        EXIT_CODES.OK
+      )
+      expect(JSON.parse(stdout)).toEqual({ total: 1, succeeded: 1, failed: 0 })
+      const { entries } = server.snapshot()
+      expect(entries.map(entry => [entry.title, entry.status])).toEqual([
+        ['First', 'read'],
+        ['Second', 'unread'],
+        ['Third', 'read'],
+        [other.title, 'unread'],
+      ])
+
+      expect(await run('entries', 'read', '--feed', String(feedId))).toBe(EXIT_CODES.OK)
+      expect(server.snapshot().entries.every(entry => entry.status === 'read')).toBe(true)
+    })
+
+    it('should add and remove feeds and categories', async () => {
+      expect(await run('categories', 'add', 'News', '-o', 'json')).toBe(EXIT_CODES.OK)
+      const category = JSON.parse(stdout)
+      expect(await run('feeds', 'add', 'https://news.example/rss', '--category', String(category.id))).toBe(
+        EXIT_CODES.OK
+      )
+      expect(server.snapshot().feeds.find(feed => feed.feed_url === 'https://news.example/rss')?.category?.title).toBe(
+        'News'
+      )
+      expect(await run('feeds', 'remove', String(feedId))).toBe(EXIT_CODES.OK)
+      expect(server.snapshot().feeds).toHaveLength(1)
+    })
+
+    it('should show counters per feed', async () => {
+      await run('counters', '-o', 'json')
+      expect(JSON.parse(stdout)).toEqual([{ feed_id: feedId, unread: 2, read: 1 }])
+    })
+  })
+
+  describe('Configuration and exit codes', () => {
+    it('should read credentials from flags', async () => {
+      const code = await runCli(
+        ['me', '--url', 'http://miniflux.test', '--username', 'admin', '--password', 'password', '-o', 'json'],
+        { env: {}, stdout: text => (stdout += text), stderr: text => (stderr += text), fetch: server.fetch }
+      )
+      expect(code).toBe(EXIT_CODES.OK)
+      expect(JSON.parse(stdout).username).toBe('admin')
+    })
+
+    it('should exit with a usage error for missing configuration', async () => {
+      const code = await runCli(['feeds', 'list'], {
+        env: {},
+        stdout: text => (stdout += text),
+        stderr: text => (stderr += text),
+      })
+      expect(code).toBe(EXIT_CODES.USAGE)
+      expect(stderr).toContain('Missing server URL')
+    })
+
+    it('should exit with a usage error for invalid arguments', async () => {
+      expect(await run('feeds', 'explode')).toBe(EXIT_CODES.USAGE)
+      expect(await run('entries', 'list', '--unknown')).toBe(EXIT_CODES.USAGE)
+      expect(await run('entries', 'list', '--status', 'archived')).toBe(EXIT_CODES.USAGE)
+      expect(await run('feeds', 'remove', 'abc')).toBe(EXIT_CODES.USAGE)
+      expect(await run('feeds', 'list', '-o', 'xml')).toBe(EXIT_CODES.USAGE)
+    })
+
+    it('should map API errors to exit codes', async () => {
+      expect(await run('feeds', 'remove', '99')).toBe(EXIT_CODES.NOT_FOUND)
+      expect(stderr).toContain('miniflux: ')
+      expect(await run('feeds', 'list', '--api-key', 'wrong')).toBe(EXIT_CODES.AUTH)
+    })
+
+    it('should exit with a network error when the server is unreachable', async () => {
+      const code = await runCli(['version'], {
+        env: { MINIFLUX_BASE_URL: 'http://miniflux.test', MINIFLUX_API_KEY: 'key' },
+        stdout: text => (stdout += text),
+        stderr: text => (stderr += text),
+        fetch: () => Promise.reject(new TypeError('fetch failed')),
+      })
+      expect(code).toBe(EXIT_CODES.NETWORK)
+    })
+
+    it('should print help', async () => {
+      expect(await run('--help')).toBe(EXIT_CODES.OK)
+      expect(stdout).toContain('Usage: miniflux <command> [options]')
+      expect(stdout).toContain('entries read')
+    })
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest'
+import { createExcerpt, extractLeadImage, htmlToMarkdown, htmlToText } from '../src/content.ts'
+import type { Entry } from '../src/types.ts'
+
+const ARTICLE = `
+<h2>Release notes</h2>
+<p>Version <b>2.0</b> is out, see the <a href="/changelog">changelog</a> &amp; <a href="https://example.com/">https://example.com/</a>.</p>
+<p><img src="/images/cover.png" alt="Cover"></p>
+<ul>
+  <li>Faster <em>sync</em>
+    <ul><li>Nested item</li></ul>
+  </li>
+  <li>New CLI
+</ul>
+<ol start="3"><li>Third</li><li>Fourth</li></ol>
+<pre><code class="language-ts">const a = 1
+
+console.log(a)</code></pre>
+<blockquote><p>Quoted<br>text</p></blockquote>
+<script>alert('ignored')</script>
+`
+
+describe('Content', () => {
+  describe('htmlToText', () => {
+    it('should keep links, images, lists and code blocks', () => {
+      expect(htmlToText(ARTICLE, { baseURL: 'https://example.com/blog/post' })).toBe(
+        [
+          'Release notes',
+          '',
+          'Version 2.0 is out, see the changelog (https://example.com/changelog) & https://example.com/.',
+          '',
+          '[Image: Cover] (https://example.com/images/cover.png)',
+          '',
+          '- Faster sync',
+          '  - Nested item',
+          '- New CLI',
+          '',
+          '3. Third',
+          '4. Fourth',
+          '',
+          'const a = 1',
+          '',
+          'console.log(a)',
+          '',
+          '> Quoted',
+          '> text',
+        ].join('\n')
+      )
+    })
+
+    it('should collapse whitespace and decode entities', () => {
+      expect(htmlToText('<p>  Hello\n   <i>world</i>&nbsp;&hellip; &#x1F600;</p>  <p>Bye</p>')).toBe(
+        'Hello world … 😀\n\nBye'
+      )
+    })
+
+    it('should accept entries and resolve relative URLs against their URL', () => {
+      const entry = { content: '<a href="next">Next</a>', url: 'https://example.com/posts/1' } as Entry
+      expect(htmlToText(entry)).toBe('Next (https://example.com/posts/next)')
+      expect(htmlToText({ content: '<p>Fetched</p>' })).toBe('Fetched')
+      expect(htmlToText({ url: 'https://example.com' })).toBe('')
+    })
+
+    it('should render tables one row per line', () => {
+      expect(htmlToText('<table><tr><th>A</th><th>B</th><tr><td>1<td>2</table>')).toBe('A | B\n1 | 2')
+    })
+  })
+
+  describe('htmlToMarkdown', () => {
+    it('should convert formatting, links, images, lists and code blocks', () => {
+      expect(htmlToMarkdown(ARTICLE, { baseURL: 'https://example.com/blog/post' })).toBe(
+        [
+          '## Release notes',
+          '',
+          'Version **2.0** is out, see the [changelog](https://example.com/changelog) & [https://example.com/](https://example.com/).',
+          '',
+          '![Cover](https://example.com/images/cover.png)',
+          '',
+          '- Faster _sync_',
+          '  - Nested item',
+          '- New CLI',
+          '',
+          '3. Third',
+          '4. Fourth',
+          '',
+          '```ts',
+          'const a = 1',
+          '',
+          'console.log(a)',
+          '```',
+          '',
+          '> Quoted  ',
+          '> text',
+        ].join('\n')
+      )
+    })
+
+    it('should escape Markdown syntax in text and inline code', () => {
+      expect(htmlToMarkdown('<p>2 * 3 = [six] <code>a`b</code> <strong> bold </strong></p>')).toBe(
+        '2 \\* 3 = \\[six\\] `` a`b `` **bold**'
+      )
+      expect(htmlToMarkdown('<a href="https://example.com/a b(c)">link</a>')).toBe(
+        '[link](https://example.com/a%20b%28c%29)'
+      )
+    })
+
+    it('should escape decoded HTML and entities so they stay text', () => {
+      expect(htmlToMarkdown('<p>Use &lt;script&gt;alert(1)&lt;/script&gt; &amp;amp; & *</p>')).toBe(
+        'Use \\<script>alert(1)\\</script> \\&amp; & \\*'
+      )
+    })
+
+    it('should indent code blocks nested in list items', () => {
+      expect(htmlToMarkdown('<ul><li>Run:<pre>npm test\nnpm run lint</pre></li></ul>')).toBe(
+        '- Run:\n  ```\n  npm test\n  npm run lint\n  ```'
+      )
+    })
+
+    it('should render tables as Markdown tables', () => {
+      expect(htmlToMarkdown('<table><thead><tr><th>A</th><th>B|C</th></tr></thead><tbody><tr><td>1</td></tr></tbody></table>')).toBe(
+        '| A | B\\|C |\n| --- | --- |\n| 1 |  |'
+      )
+    })
+  })
+
+  describe('createExcerpt', () => {
+    it('should return short text unchanged on a single line', () => {
+      expect(createExcerpt('<h1>Title</h1><p>Some <a href="/x">text</a>.<img src="a.png"></p>')).toBe('Title Some text.')
+    })
+
+    it('should shorten text at a word boundary', () => {
+      const html = '<p>The quick brown fox jumps over the lazy dog</p>'
+      expect(createExcerpt(html, { maxLength: 20 })).toBe('The quick brown fox…')
+      expect(createExcerpt(html, { maxLength: 19 })).toBe('The quick brown…')
+      expect(createExcerpt(html, { maxLength: 12, ellipsis: '...' })).toBe('The quick...')
+      expect(createExcerpt('<p>Supercalifragilistic</p>', { maxLength: 6 })).toBe('Super…')
+      for (const maxLength of [5, 10, 15, 25, 30]) {
+        expect(Array.from(createExcerpt(html, { maxLength })).length).toBeLessThanOrEqual(maxLength)
+      }
+    })
+
+    it('should not split characters outside the basic plane', () => {
+      expect(createExcerpt('😀😀😀😀', { maxLength: 3 })).toBe('😀😀…')
+    })
+  })
+
+  describe('extractLeadImage', () => {
+    it('should return the first image, skipping tracking pixels', () => {
+      const html = '<img src="/pixel.gif" width="1" height="1"><p><img data-src="/lead.jpg" alt=" Lead "></p><img src="/other.jpg">'
+      expect(extractLeadImage(html, { baseURL: 'https://example.com/post' })).toEqual({
+        url: 'https://example.com/lead.jpg',
+        alt: 'Lead',
+      })
+      expect(extractLeadImage('<p>No images</p>')).toBeUndefined()
+    })
+
+    it('should fall back to image enclosures of entries', () => {
+      const entry = {
+        content: '<p>Podcast</p>',
+        url: 'https://example.com/episode',
+        enclosures: [
+          { id: 1, user_id: 1, entry_id: 1, url: 'https://example.com/episode.mp3', mime_type: 'audio/mpeg', size: 0, media_progression: 0 },
+          { id: 2, user_id: 1, entry_id: 1, url: 'https://example.com/cover.jpg', mime_type: 'image/jpeg', size: 0, media_progression: 0 },
+        ],
+      }
+      expect(extractLeadImage(entry)).toEqual({ url: 'https://example.com/cover.jpg' })
+    })
+  })
+})
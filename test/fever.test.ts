@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createHash } from 'node:crypto'
+import { FeverClient } from '../src/fever.ts'
+import { md5 } from '../src/md5.ts'
+import { MinifluxAuthenticationError } from '../src/errors.ts'
+
+const API_KEY = createHash('md5').update('admin:secret').digest('hex')
+
+const item = (id: number) => ({
+  id,
+  feed_id: 3,
+  title: `Entry ${id}`,
+  author: '',
+  html: `<p>${id}</p>`,
+  url: `https://example.com/${id}`,
+  is_saved: id === 2 ? 1 : 0,
+  is_read: id === 1 ? 1 : 0,
+  created_on_time: 1704067200,
+})
+
+describe('FeverClient', () => {
+  let client: FeverClient
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  const requests = () =>
+    fetchMock.mock.calls.map(([url, init]) => ({
+      url: new URL(url),
+      form: Object.fromEntries(new URLSearchParams(init.body)),
+    }))
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (input: string, init: RequestInit) => {
+      const { searchParams } = new URL(input)
+      const form = new URLSearchParams(String(init.body))
+      if (form.get('api_key') !== API_KEY) {
+        return Response.json({ api_version: 3, auth: 0 })
+      }
+      const base = { api_version: 3, auth: 1, last_refreshed_on_time: 1704067200 }
+      if (searchParams.has('groups')) {
+        return Response.json({
+          ...base,
+          groups: [{ id: 7, title: 'Tech' }],
+          feeds_groups: [{ group_id: 7, feed_ids: '3' }],
+        })
+      }
+      if (searchParams.has('feeds')) {
+        return Response.json({
+          ...base,
+          feeds: [
+            {
+              id: 3,
+              favicon_id: 5,
+              title: 'Example',
+              url: 'https://example.com/feed.xml',
+              site_url: 'https://example.com',
+              is_spark: 0,
+              last_updated_on_time: 1704067200,
+            },
+          ],
+          feeds_groups: [{ group_id: 7, feed_ids: '3' }],
+        })
+      }
+      if (searchParams.has('favicons')) {
+        return Response.json({ ...base, favicons: [{ id: 5, data: 'image/png;base64,iVBORw0KGgo=' }] })
+      }
+      if (searchParams.has('items')) {
+        const sinceId = Number(searchParams.get('since_id') ?? 0)
+        const ids = [1, 2, 3].filter(id => id > sinceId).slice(0, 2)
+        return Response.json({ ...base, total_items: 3, items: ids.map(item) })
+      }
+      if (searchParams.has('unread_item_ids')) {
+        return Response.json({ ...base, unread_item_ids: '2,3' })
+      }
+      if (searchParams.has('saved_item_ids')) {
+        return Response.json({ ...base, saved_item_ids: '' })
+      }
+      return Response.json(base)
+    })
+    client = new FeverClient({ baseURL: 'http://localhost:8080/', username: 'admin', password: 'secret', fetch: fetchMock })
+  })
+
+  describe('Authentication', () => {
+    it('should compute the API key from the credentials', () => {
+      expect(md5('admin:secret')).toBe(API_KEY)
+    })
+
+    it('should post the API key to the Fever endpoint', async () => {
+      await expect(client.verifyCredentials()).resolves.toBe(true)
+      const [request] = requests()
+      expect(request.url.href).toBe('http://localhost:8080/fever/?api')
+      expect(request.form).toEqual({ api_key: API_KEY })
+    })
+
+    it('should accept a precomputed API key', async () => {
+      const keyClient = new FeverClient({ baseURL: 'http://localhost:8080', apiKey: API_KEY, fetch: fetchMock })
+      await expect(keyClient.verifyCredentials()).resolves.toBe(true)
+    })
+
+    it('should reject an invalid API key', async () => {
+      const invalid = new FeverClient({ baseURL: 'http://localhost:8080', apiKey: 'wrong', fetch: fetchMock })
+      await expect(invalid.verifyCredentials()).resolves.toBe(false)
+      await expect(invalid.getFeeds()).rejects.toBeInstanceOf(MinifluxAuthenticationError)
+    })
+
+    it('should require credentials', () => {
+      expect(() => new FeverClient({ baseURL: 'http://localhost:8080', username: 'admin' })).toThrow(
+        'Fever API key, or username and password, are required'
+      )
+    })
+  })
+
+  describe('Mapping', () => {
+    it('should map groups to categories', async () => {
+      expect(await client.getCategories()).toEqual([{ id: 7, user_id: 0, title: 'Tech' }])
+    })
+
+    it('should map feeds with their category', async () => {
+      expect(await client.getFeeds()).toEqual([
+        {
+          id: 3,
+          user_id: 0,
+          title: 'Example',
+          site_url: 'https://example.com',
+          feed_url: 'https://example.com/feed.xml',
+          category: { id: 7, user_id: 0, title: 'Tech' },
+          checked_at: '2024-01-01T00:00:00.000Z',
+        },
+      ])
+    })
+
+    it('should map favicons to feed icons', async () => {
+      expect(await client.getFavicons()).toEqual([
+        { id: 5, data: 'image/png;base64,iVBORw0KGgo=', mime_type: 'image/png' },
+      ])
+    })
+
+    it('should map items to entries', async () => {
+      const { entries, total } = await client.getItems()
+      expect(total).toBe(3)
+      expect(entries[0]).toEqual({
+        id: 1,
+        user_id: 0,
+        feed_id: 3,
+        status: 'read',
+        starred: false,
+        title: 'Entry 1',
+        url: 'https://example.com/1',
+        published_at: '2024-01-01T00:00:00.000Z',
+        created_at: '2024-01-01T00:00:00.000Z',
+        content: '<p>1</p>',
+        author: undefined,
+      })
+      expect(entries[1]).toMatchObject({ status: 'unread', starred: true })
+    })
+  })
+
+  describe('Items', () => {
+    it('should pass paging parameters in the query', async () => {
+      await client.getItems({ maxId: 10, withIds: [1, 2] })
+      expect(requests()[0].url.search).toBe('?api&items&max_id=10&with_ids=1%2C2')
+    })
+
+    it('should iterate over all items with since_id', async () => {
+      const ids: number[] = []
+      for await (const entry of client.iterateItems()) {
+        ids.push(entry.id)
+      }
+      expect(ids).toEqual([1, 2, 3])
+      expect(requests().map(request => request.url.searchParams.get('since_id'))).toEqual(['0', '2', '3'])
+    })
+
+    it('should list unread and saved item IDs', async () => {
+      expect(await client.getUnreadEntryIds()).toEqual([2, 3])
+      expect(await client.getSavedEntryIds()).toEqual([])
+    })
+  })
+
+  describe('Mark actions', () => {
+    it('should mark items', async () => {
+      await client.markItem(2, 'saved')
+      expect(requests()[0].form).toEqual({ api_key: API_KEY, mark: 'item', as: 'saved', id: '2' })
+    })
+
+    it('should mark feeds and groups as read before a timestamp', async () => {
+      await client.markFeedAsRead(3, 1704067200)
+      await client.markCategoryAsRead(7)
+      const [feed, group] = requests()
+      expect(feed.form).toEqual({ api_key: API_KEY, mark: 'feed', as: 'read', id: '3', before: '1704067200' })
+      expect(group.form).toMatchObject({ mark: 'group', as: 'read', id: '7' })
+      expect(Number(group.form.before)).toBeGreaterThan(1704067200)
+    })
+  })
+})
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GoogleReaderClient, GOOGLE_READER_STREAMS } from '../src/greader.ts'
+import { MinifluxAuthenticationError } from '../src/errors.ts'
+
+const item = (id: number, categories: string[] = []) => ({
+  id: `tag:google.com,2005:reader/item/${id.toString(16).padStart(16, '0')}`,
+  categories: ['user/-/state/com.google/reading-list', 'user/-/label/Tech', ...categories],
+  title: `Entry ${id}`,
+  published: 1704067200,
+  updated: 1704153600,
+  crawlTimeMsec: '1704070800000',
+  canonical: [{ href: `https://example.com/${id}` }],
+  alternate: [{ href: `https://example.com/${id}`, type: 'text/html' }],
+  summary: { direction: 'ltr', content: `<p>Content ${id}</p>` },
+  author: 'Jane',
+  origin: { streamId: 'feed/3', title: 'Example', htmlUrl: 'https://example.com' },
+})
+
+describe('GoogleReaderClient', () => {
+  let client: GoogleReaderClient
+  let fetchMock: ReturnType<typeof vi.fn>
+  let authToken: string
+
+  const requests = () =>
+    fetchMock.mock.calls.map(([url, init]) => ({
+      url: new URL(url),
+      method: init.method,
+      body: new URLSearchParams(init.body ?? ''),
+      authorization: new Headers(init.headers).get('Authorization'),
+    }))
+
+  beforeEach(() => {
+    authToken = 'token-1'
+    fetchMock = vi.fn(async (input: string, init: RequestInit) => {
+      const url = new URL(input)
+      const body = new URLSearchParams(String(init.body ?? ''))
+      if (url.pathname === '/accounts/ClientLogin') {
+        return body.get('Passwd') === 'secret'
+          ? new Response(`SID=${authToken}\nLSID=${authToken}\nAuth=${authToken}\n`)
+          : new Response('Unauthorized', { status: 401 })
+      }
+      if (new Headers(init.headers).get('Authorization') !== `GoogleLogin auth=${authToken}`) {
+        return new Response('Unauthorized', { status: 401 })
+      }
+      switch (url.pathname) {
+        case '/reader/api/0/token':
+          return new Response('action-token\n')
+        case '/reader/api/0/subscription/list':
+          return Response.json({
+            subscriptions: [
+              {
+                id: 'feed/3',
+                title: 'Example',
+                categories: [{ id: 'user/-/label/Tech', label: 'Tech' }],
+                url: 'https://example.com/feed.xml',
+                htmlUrl: 'https://example.com',
+                iconUrl: '',
+              },
+            ],
+          })
+        case '/reader/api/0/tag/list':
+          return Response.json({
+            tags: [{ id: 'user/-/state/com.google/starred' }, { id: 'user/-/label/Tech', type: 'folder' }],
+          })
+        case '/reader/api/0/stream/items/ids':
+          return url.searchParams.get('c')
+            ? Response.json({ itemRefs: [{ id: '26' }] })
+            : Response.json({ itemRefs: [{ id: '27' }, { id: '28' }], continuation: '2' })
+        case '/reader/api/0/stream/items/contents':
+          return Response.json({
+            items: body
+              .getAll('i')
+              .reverse()
+              .map(id => item(Number(id), id === '28' ? ['user/-/state/com.google/read'] : [])),
+          })
+        case '/reader/api/0/edit-tag':
+          return new Response('OK')
+        case '/reader/api/0/unread-count':
+          return Response.json({
+            max: 1000,
+            unreadcounts: [
+              { id: 'feed/3', count: 2, newestItemTimestampUsec: '0' },
+              { id: 'user/-/label/Tech', count: 2, newestItemTimestampUsec: '0' },
+              { id: 'user/-/state/com.google/reading-list', count: 2, newestItemTimestampUsec: '0' },
+            ],
+          })
+      }
+      return new Response('Not Found', { status: 404 })
+    })
+    client = new GoogleReaderClient({
+      baseURL: 'http://localhost:8080/',
+      username: 'admin',
+      password: 'secret',
+      fetch: fetchMock,
+    })
+  })
+
+  describe('Authentication', () => {
+    it('should log in once and reuse the token', async () => {
+      await client.getFeeds()
+      await client.getCategories()
+      const calls = requests()
+      expect(calls.map(call => call.url.pathname)).toEqual([
+        '/accounts/ClientLogin',
+        '/reader/api/0/subscription/list',
+        '/reader/api/0/tag/list',
+      ])
+      expect(calls[0].body.get('Email')).toBe('admin')
+      expect(calls[1].authorization).toBe('GoogleLogin auth=token-1')
+    })
+
+    it('should log in again when the token expires', async () => {
+      await client.getFeeds()
+      authToken = 'token-2'
+      await expect(client.getFeeds()).resolves.toHaveLength(1)
+      expect(requests().filter(call => call.url.pathname === '/accounts/ClientLogin')).toHaveLength(2)
+    })
+
+    it('should reject invalid credentials', async () => {
+      const invalid = new GoogleReaderClient({
+        baseURL: 'http://localhost:8080',
+        username: 'admin',
+        password: 'wrong',
+        fetch: fetchMock,
+      })
+      await expect(invalid.getFeeds()).rejects.toBeInstanceOf(MinifluxAuthenticationError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Mapping', () => {
+    it('should map subscriptions to feeds', async () => {
+      expect(await client.getFeeds()).toEqual([
+        {
+          id: 3,
+          user_id: 0,
+          title: 'Example',
+          site_url: 'https://example.com',
+          feed_url: 'https://example.com/feed.xml',
+          category: { id: 0, user_id: 0, title: 'Tech' },
+        },
+      ])
+    })
+
+    it('should map labels to categories', async () => {
+      expect(await client.getCategories()).toEqual([{ id: 0, user_id: 0, title: 'Tech' }])
+    })
+
+    it('should map stream items to entries in stream order', async () => {
+      const page = await client.getStreamContents(GOOGLE_READER_STREAMS.readingList, { count: 2 })
+      expect(page.continuation).toBe('2')
+      expect(page.entries.map(entry => [entry.id, entry.status])).toEqual([
+        [27, 'unread'],
+        [28, 'read'],
+      ])
+      expect(page.entries[0]).toMatchObject({
+        feed_id: 3,
+        title: 'Entry 27',
+        url: 'https://example.com/27',
+        published_at: '2024-01-01T00:00:00.000Z',
+        created_at: '2024-01-01T01:00:00.000Z',
+        changed_at: '2024-01-02T00:00:00.000Z',
+        content: '<p>Content 27</p>',
+        starred: false,
+        feed: { id: 3, title: 'Example', site_url: 'https://example.com' },
+        category: { title: 'Tech' },
+      })
+    })
+  })
+
+  describe('Streams', () => {
+    it('should pass stream options as query parameters', async () => {
+      await client.getStreamContents(GOOGLE_READER_STREAMS.feed(3), {
+        count: 10,
+        unreadOnly: true,
+        newerThan: 1700000000,
+        order: 'oldest',
+      })
+      const { searchParams } = requests()[1].url
+      expect(Object.fromEntries(searchParams)).toEqual({
+        s: 'feed/3',
+        n: '10',
+        xt: 'user/-/state/com.google/read',
+        ot: '1700000000',
+        r: 'o',
+        output: 'json',
+      })
+    })
+
+    it('should follow continuation tokens', async () => {
+      const ids: number[] = []
+      for await (const entry of client.iterateStream(GOOGLE_READER_STREAMS.label('Tech'))) {
+        ids.push(entry.id)
+      }
+      expect(ids).toEqual([27, 28, 26])
+    })
+  })
+
+  describe('Tags', () => {
+    it('should edit tags with the action token', async () => {
+      await client.markAsRead([26, 27])
+      await client.star([26])
+      const edits = requests().filter(call => call.url.pathname === '/reader/api/0/edit-tag')
+      expect(requests().filter(call => call.url.pathname === '/reader/api/0/token')).toHaveLength(1)
+      expect(edits[0].method).toBe('POST')
+      expect(edits[0].body.getAll('i')).toEqual([
+        'tag:google.com,2005:reader/item/000000000000001a',
+        'tag:google.com,2005:reader/item/000000000000001b',
+      ])
+      expect(edits[0].body.get('a')).toBe(GOOGLE_READER_STREAMS.read)
+      expect(edits[0].body.get('T')).toBe('action-token')
+      expect(edits[1].body.get('a')).toBe(GOOGLE_READER_STREAMS.starred)
+    })
+
+    it('should remove tags', async () => {
+      await client.markAsUnread([26])
+      await client.unstar([26])
+      const edits = requests().filter(call => call.url.pathname === '/reader/api/0/edit-tag')
+      expect(edits.map(call => call.body.get('r'))).toEqual([
+        GOOGLE_READER_STREAMS.read,
+        GOOGLE_READER_STREAMS.starred,
+      ])
+    })
+  })
+
+  describe('Unread counts', () => {
+    it('should group unread counts by feed and category', async () => {
+      expect(await client.getUnreadCounts()).toEqual({ total: 2, feeds: { 3: 2 }, categories: { Tech: 2 } })
+    })
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { MinifluxClient } from '../src/client.ts'
+import { MinifluxNotFoundError } from '../src/errors.ts'
+import { buildFeedHealthReport } from '../src/health.ts'
+import { FakeMiniflux } from '../src/testing.ts'
+import type { Feed } from '../src/types.ts'
+
+const DAY = 86_400_000
+
+describe('Feed health', () => {
+  let server: FakeMiniflux
+  let client: MinifluxClient
+  let healthy: Feed
+  let failing: Feed
+  let stale: Feed
+  let disabled: Feed
+  let silent: Feed
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * DAY).toISOString()
+
+  beforeEach(() => {
+    server = new FakeMiniflux()
+    client = new MinifluxClient({
+      baseURL: 'http://miniflux.test',
+      apiKey: 'test-api-key',
+      authType: 'api_key',
+      fetch: (input, init) => server.fetch(input, init),
+    })
+    server.addCategory({ title: 'All' })
+    healthy = server.addFeed({ feed_url: 'https://healthy.example/feed.xml' })
+    failing = server.addFeed({
+      feed_url: 'https://failing.example/feed.xml',
+      parsing_error_count: 3,
+      parsing_error_message: 'unable to parse feed',
+    })
+    stale = server.addFeed({ feed_url: 'https://stale.example/feed.xml', checked_at: daysAgo(3) })
+    disabled = server.addFeed({
+      feed_url: 'https://disabled.example/feed.xml',
+      disabled: true,
+      parsing_error_count: 10,
+      parsing_error_message: 'no such host',
+    })
+    silent = server.addFeed({ feed_url: 'https://silent.example/feed.xml' })
+
+    for (const feed of [healthy, failing, stale]) {
+      server.addEntry({ feed_id: feed.id })
+    }
+    server.addEntry({ feed_id: silent.id, created_at: daysAgo(45) })
+  })
+
+  describe('getFeedHealthReport', () => {
+    it('should group feeds by issue with a reason for each', async () => {
+      const report = await client.getFeedHealthReport()
+
+      expect(report.healthy.map(feed => feed.id)).toEqual([healthy.id])
+      expect(report.failing).toEqual([
+        expect.objectContaining({
+          status: 'failing',
+          reason: '3 failed refreshes: unable to parse feed',
+          feed: expect.objectContaining({ id: failing.id }),
+        }),
+      ])
+      expect(report.stale).toHaveLength(1)
+      expect(report.stale[0]).toMatchObject({ reason: 'Not checked for 3 days', since: stale.checked_at })
+      expect(report.disabled).toHaveLength(1)
+      expect(report.disabled[0]).toMatchObject({
+        feed: { id: disabled.id },
+        reason: 'Disabled after 10 failed refreshes: no such host',
+      })
+      expect(report.silent).toHaveLength(1)
+      expect(report.silent[0]).toMatchObject({ feed: { id: silent.id }, reason: 'No new entries for 45 days' })
+    })
+
+    it('should apply custom thresholds', async () => {
+      const report = await client.getFeedHealthReport({ staleAfter: 5 * DAY, silentAfter: 60 * DAY })
+      expect(report.stale).toEqual([])
+      expect(report.silent).toEqual([])
+      expect(report.healthy.map(feed => feed.id)).toEqual([healthy.id, stale.id, silent.id])
+    })
+  })
+
+  describe('buildFeedHealthReport', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z')
+    const thresholds = { staleAfter: DAY, silentAfter: 30 * DAY }
+    const feed = (changes: Partial<Feed>): Feed => ({
+      id: 1,
+      user_id: 1,
+      title: 'Feed',
+      site_url: 'https://example.com',
+      feed_url: 'https://example.com/feed.xml',
+      checked_at: '2026-10-19T11:00:00Z',
+      ...changes,
+    })
+
+    it('should report feeds never checked and feeds without entries', () => {
+      const report = buildFeedHealthReport(
+        [feed({ checked_at: '0001-01-01T00:00:00Z' })],
+        new Map([[1, undefined]]),
+        thresholds,
+        now
+      )
+      expect(report.stale[0].reason).toBe('Never checked')
+      expect(report.silent[0].reason).toBe('No entries')
+      expect(report.generatedAt).toBe('2026-10-19T12:00:00.000Z')
+    })
+
+    it('should list a feed in every group it belongs to, except disabled feeds', () => {
+      const report = buildFeedHealthReport(
+        [feed({ parsing_error_count: 1, checked_at: '2026-10-18T06:00:00Z' })],
+        new Map(),
+        thresholds,
+        now
+      )
+      expect(report.failing[0].reason).toBe('1 failed refresh')
+      expect(report.stale[0].reason).toBe('Not checked for 1 day')
+      expect(report.silent).toEqual([])
+      expect(report.healthy).toEqual([])
+    })
+  })
+
+  describe('bulk actions', () => {
+    it('should retry refreshing feeds and report failures', async () => {
+      const report = await client.retryFeeds([stale.id, 999_999])
+      expect(report).toMatchObject({ total: 2, succeeded: 1, failed: 1 })
+      expect(report.results[1].success || report.results[1].error).toBeInstanceOf(MinifluxNotFoundError)
+      expect(Date.parse((await client.getFeed(stale.id)).checked_at!)).toBeGreaterThan(Date.now() - DAY)
+    })
+
+    it('should disable feeds', async () => {
+      const report = await client.disableFeeds([failing.id])
+      expect(report.succeeded).toBe(1)
+      expect((await client.getFeed(failing.id)).disabled).toBe(true)
+    })
+
+    it('should move feeds to a quarantine category, created once', async () => {
+      const report = await client.quarantineFeeds([failing.id, silent.id])
+      expect(report.succeeded).toBe(2)
+      const quarantine = (await client.getCategories()).find(category => category.title === 'Quarantine')
+      expect(quarantine).toBeDefined()
+      expect((await client.getCategoryFeeds(quarantine!.id)).map(feed => feed.id)).toEqual([failing.id, silent.id])
+
+      await client.quarantineFeeds([stale.id], { category: 'quarantine' })
+      expect((await client.getCategories()).filter(category => category.title === 'Quarantine')).toHaveLength(1)
+      expect((await client.getFeed(stale.id)).category?.id).toBe(quarantine!.id)
+    })
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { MinifluxClient } from '../src/client.ts'
+import { IconCache, decodeIcon, iconToDataURL } from '../src/icons.ts'
+import { FakeMiniflux } from '../src/testing.ts'
+import { MinifluxAbortError, MinifluxServerError } from '../src/errors.ts'
+import type { Feed, FeedIcon } from '../src/types.ts'
+
+// 1x1 transparent GIF
+const GIF = 'R0lGODlhAQABAAAAACw='
+
+describe('Icons', () => {
+  let server: FakeMiniflux
+  let client: MinifluxClient
+  let feed: Feed
+  let icon: FeedIcon
+
+  beforeEach(() => {
+    server = new FakeMiniflux()
+    client = new MinifluxClient({
+      baseURL: 'http://miniflux.test',
+      apiKey: 'test-api-key',
+      authType: 'api_key',
+      fetch: (input, init) => server.fetch(input, init),
+    })
+    feed = server.addFeed({ feed_url: 'https://example.com/feed.xml', title: 'Example' })
+    icon = server.setFeedIcon(feed.id, 'image/gif', GIF)
+  })
+
+  describe('getIcon', () => {
+    it('should retrieve an icon by the ID referenced by its feed', async () => {
+      const [listed] = await client.getFeeds()
+      expect(listed.icon).toEqual({ feed_id: feed.id, icon_id: icon.id })
+      await expect(client.getIcon(listed.icon!.icon_id)).resolves.toEqual(icon)
+    })
+
+    it('should validate feed icon references in strict mode', async () => {
+      const strict = new MinifluxClient({
+        baseURL: 'http://miniflux.test',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        fetch: server.fetch,
+        validation: 'strict',
+      })
+      await expect(strict.getFeeds()).resolves.toHaveLength(1)
+      await expect(strict.getIcon(icon.id)).resolves.toEqual(icon)
+    })
+  })
+
+  describe('Decoding', () => {
+    it('should decode icons into bytes and MIME type', () => {
+      const { mimeType, bytes } = decodeIcon(icon)
+      expect(mimeType).toBe('image/gif')
+      expect(Array.from(bytes.slice(0, 6), byte => String.fromCharCode(byte)).join('')).toBe('GIF89a')
+      expect(bytes).toHaveLength(14)
+    })
+
+    it('should convert icons into data URLs', () => {
+      expect(iconToDataURL(icon)).toBe(`data:image/gif;base64,${GIF}`)
+      expect(iconToDataURL({ id: 1, mime_type: 'image/png', data: 'AAAA' })).toBe('data:image/png;base64,AAAA')
+      expect(iconToDataURL({ id: 1, mime_type: 'image/png', data: 'data:image/x-icon;base64,AAAA' })).toBe(
+        'data:image/x-icon;base64,AAAA'
+      )
+    })
+  })
+
+  describe('IconCache', () => {
+    it('should download each icon once', async () => {
+      const spy = vi.spyOn(client, 'getIcon')
+      const cache = new IconCache(client)
+      const [first, second] = await Promise.all([cache.getFeedIcon(feed), cache.getIcon(icon.id)])
+      await cache.getIcon(icon.id)
+      expect(first).toEqual(icon)
+      expect(second).toBe(first)
+      expect(spy).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not abort a shared download for the other callers', async () => {
+      const spy = vi.spyOn(client, 'getIcon')
+      const cache = new IconCache(client)
+      const controller = new AbortController()
+      const aborted = cache.getIcon(icon.id, { signal: controller.signal })
+      const waiting = cache.getIcon(icon.id)
+      controller.abort()
+      await expect(aborted).rejects.toBeInstanceOf(MinifluxAbortError)
+      await expect(waiting).resolves.toEqual(icon)
+      expect(spy).toHaveBeenCalledTimes(1)
+      expect(spy.mock.calls[0][1]).toBeUndefined()
+    })
+
+    it('should remember missing icons', async () => {
+      const spy = vi.spyOn(client, 'getIcon')
+      const cache = new IconCache(client)
+      await expect(cache.getIcon(999)).resolves.toBeUndefined()
+      await expect(cache.getIcon(999)).resolves.toBeUndefined()
+      expect(spy).toHaveBeenCalledTimes(1)
+      await expect(cache.getFeedIcon({ ...feed, icon: undefined })).resolves.toBeUndefined()
+    })
+
+    it('should not cache failed downloads', async () => {
+      const spy = vi
+        .spyOn(client, 'getIcon')
+        .mockRejectedValueOnce(new MinifluxServerError('boom', { method: 'GET', path: '/v1/icons/1' }))
+      const cache = new IconCache(client)
+      await expect(cache.getIcon(icon.id)).rejects.toBeInstanceOf(MinifluxServerError)
+      await expect(cache.getIcon(icon.id)).resolves.toEqual(icon)
+      expect(spy).toHaveBeenCalledTimes(2)
+    })
+
+    it('should evict the least recently used icons', async () => {
+      const other = server.setFeedIcon(server.addFeed({ feed_url: 'https://other.example/feed' }).id, 'image/gif', GIF)
+      const spy = vi.spyOn(client, 'getIcon')
+      const cache = new IconCache(client, { maxEntries: 1 })
+      await cache.getIcon(icon.id)
+      await cache.getIcon(other.id)
+      await cache.getIcon(icon.id)
+      expect(spy).toHaveBeenCalledTimes(3)
+    })
+
+    it('should download icons again after their time to live', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      try {
+        const spy = vi.spyOn(client, 'getIcon')
+        const cache = new IconCache(client, { ttl: 60_000 })
+        await cache.getIcon(icon.id)
+        vi.setSystemTime(Date.now() + 30_000)
+        await cache.getIcon(icon.id)
+        expect(spy).toHaveBeenCalledTimes(1)
+        vi.setSystemTime(Date.now() + 60_000)
+        await cache.getIcon(icon.id)
+        expect(spy).toHaveBeenCalledTimes(2)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should clear cached icons', async () => {
+      const spy = vi.spyOn(client, 'getIcon')
+      const cache = new IconCache(client)
+      await cache.getIcon(icon.id)
+      cache.clear(icon.id)
+      await cache.getIcon(icon.id)
+      cache.clear()
+      await cache.getIcon(icon.id)
+      expect(spy).toHaveBeenCalledTimes(3)
+    })
+  })
+})
@@ -1,6 +1,31 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { MinifluxClient } from '../src/client.ts'
-import type { Entry, Feed, Category, User, FeedIcon, FeedCounters, EntryResultSet } from '../src/types.ts'
+import {
+  MinifluxError,
+  MinifluxAuthenticationError,
+  MinifluxForbiddenError,
+  MinifluxNotFoundError,
+  MinifluxValidationError,
+  MinifluxServerError,
+  MinifluxNetworkError,
+  MinifluxTimeoutError,
+  MinifluxAbortError,
+  MinifluxDiscoveryError,
+  MinifluxSchemaError,
+} from '../src/errors.ts'
+import { getRetryDelay, parseRetryAfter, resolveRetryPolicy } from '../src/retry.ts'
+import { MemoryCacheStore } from '../src/cache.ts'
+import { FakeMiniflux } from '../src/testing.ts'
+import type {
+  Entry,
+  Feed,
+  Category,
+  User,
+  FeedIcon,
+  FeedCounters,
+  EntryResultSet,
+  MinifluxMiddleware,
+} from '../src/types.ts'
 
 describe('MinifluxClient', () => {
   let client: MinifluxClient
@@ -121,7 +146,7 @@ describe('MinifluxClient', () => {
       parsing_error_count: 0,
       parsing_error_message: '',
       category: { id: 1, title: 'Test Category', user_id: 1 },
-      icon: { id: 1, data: 'test-data', mime_type: 'image/png' },
+      icon: { feed_id: 1, icon_id: 1 },
       hide_globally: false,
       disabled: false,
       ignore_http_cache: false,
@@ -369,4 +394,1044 @@ describe('MinifluxClient', () => {
     })
   })
 
+  describe('Error Handling', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    const mockErrorResponse = (status: number, body: string) => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(body, { status }))
+    }
+
+    it.each([
+      [401, MinifluxAuthenticationError],
+      [403, MinifluxForbiddenError],
+      [404, MinifluxNotFoundError],
+      [400, MinifluxValidationError],
+      [422, MinifluxValidationError],
+      [500, MinifluxServerError],
+      [502, MinifluxServerError],
+    ])('should throw the matching error for HTTP %i', async (status, ErrorClass) => {
+      mockErrorResponse(status, JSON.stringify({ error_message: 'something went wrong' }))
+      const error = await client.getFeed(42).catch(e => e)
+      expect(error).toBeInstanceOf(ErrorClass)
+      expect(error).toBeInstanceOf(MinifluxError)
+      expect(error.message).toBe('something went wrong')
+      expect(error.status).toBe(status)
+    })
+
+    it('should expose request details on the error', async () => {
+      const body = JSON.stringify({ error_message: 'resource not found' })
+      mockErrorResponse(404, body)
+      const error = await client.deleteFeed(42).catch(e => e)
+      expect(error).toMatchObject({
+        status: 404,
+        method: 'DELETE',
+        path: '/v1/feeds/42',
+        body,
+        errorMessage: 'resource not found',
+      })
+    })
+
+    it('should fall back to the raw body when it is not JSON', async () => {
+      mockErrorResponse(502, 'Bad Gateway')
+      const error = await client.getFeeds().catch(e => e)
+      expect(error).toBeInstanceOf(MinifluxServerError)
+      expect(error.message).toBe('Bad Gateway')
+      expect(error.errorMessage).toBeUndefined()
+    })
+
+    it('should use a generic error for other failing statuses', async () => {
+      mockErrorResponse(409, JSON.stringify({ error_message: 'conflict' }))
+      const error = await client.createCategory('Test').catch(e => e)
+      expect(error.constructor).toBe(MinifluxError)
+      expect(error.status).toBe(409)
+    })
+
+    it('should throw a network error when the server is unreachable', async () => {
+      const cause = new TypeError('fetch failed')
+      vi.spyOn(globalThis, 'fetch').mockRejectedValue(cause)
+      const error = await client.getMe().catch(e => e)
+      expect(error).toBeInstanceOf(MinifluxNetworkError)
+      expect(error.status).toBeUndefined()
+      expect(error.method).toBe('GET')
+      expect(error.path).toBe('/v1/me')
+      expect(error.cause).toBe(cause)
+    })
+
+    it('should throw a timeout error when fetch times out', async () => {
+      vi.spyOn(globalThis, 'fetch').mockRejectedValue(
+        new DOMException('The operation timed out', 'TimeoutError')
+      )
+      const error = await client.healthcheck().catch(e => e)
+      expect(error).toBeInstanceOf(MinifluxTimeoutError)
+      expect(error).toBeInstanceOf(MinifluxNetworkError)
+    })
+  })
+
+  describe('Retry Policy', () => {
+    let retryClient: MinifluxClient
+
+    beforeEach(() => {
+      retryClient = new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        retry: { maxAttempts: 3, initialDelay: 0, jitter: false },
+      })
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    it('should not retry when no retry policy is configured', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 503 }))
+      await expect(client.getFeeds()).rejects.toBeInstanceOf(MinifluxServerError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retry retryable statuses until the request succeeds', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response('', { status: 502 }))
+        .mockResolvedValueOnce(new Response('', { status: 503 }))
+        .mockResolvedValueOnce(new Response('[]', { status: 200 }))
+      await expect(retryClient.getFeeds()).resolves.toEqual([])
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('should give up after the maximum number of attempts', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('', { status: 503 }))
+      await expect(retryClient.refreshAllFeeds()).rejects.toBeInstanceOf(MinifluxServerError)
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('should retry network errors', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch')
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(new Response(null, { status: 204 }))
+      await expect(retryClient.updateEntryStatus(1, 'read')).resolves.toBeUndefined()
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry non-idempotent methods by default', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 503 }))
+      await expect(retryClient.createFeed('https://example.com/feed.xml')).rejects.toBeInstanceOf(MinifluxServerError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not retry calls marked as non-idempotent, such as bookmark toggles', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('', { status: 503 }))
+      await expect(retryClient.toggleBookmark(1)).rejects.toBeInstanceOf(MinifluxServerError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/entries/1/bookmark')
+
+      await expect(retryClient.getFeeds({ idempotent: false })).rejects.toBeInstanceOf(MinifluxServerError)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry statuses outside the retryable list', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 404 }))
+      await expect(retryClient.getFeed(1)).rejects.toBeInstanceOf(MinifluxNotFoundError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should wait for the Retry-After delay', async () => {
+      vi.useFakeTimers()
+      const fetchMock = vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '2' } }))
+        .mockResolvedValueOnce(new Response('[]', { status: 200 }))
+      const promise = retryClient.getCategories()
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+      await expect(promise).resolves.toEqual([])
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should compute exponential backoff delays', () => {
+      const policy = resolveRetryPolicy({ initialDelay: 100, maxDelay: 1000, jitter: false })
+      expect(getRetryDelay(policy, 1)).toBe(100)
+      expect(getRetryDelay(policy, 2)).toBe(200)
+      expect(getRetryDelay(policy, 3)).toBe(400)
+      expect(getRetryDelay(policy, 5)).toBe(1000)
+      expect(getRetryDelay(policy, 1, 5000)).toBe(1000)
+    })
+
+    it('should keep jittered delays within the computed delay', () => {
+      const policy = resolveRetryPolicy({ initialDelay: 100 })
+      for (let i = 0; i < 20; i++) {
+        const delay = getRetryDelay(policy, 2)
+        expect(delay).toBeGreaterThanOrEqual(0)
+        expect(delay).toBeLessThanOrEqual(200)
+      }
+    })
+
+    it('should parse Retry-After headers', () => {
+      expect(parseRetryAfter('3')).toBe(3000)
+      expect(parseRetryAfter(null)).toBeUndefined()
+      expect(parseRetryAfter('soon')).toBeUndefined()
+      const delay = parseRetryAfter(new Date(Date.now() + 10_000).toUTCString())
+      expect(delay).toBeGreaterThan(8000)
+      expect(delay).toBeLessThanOrEqual(10_000)
+    })
+  })
+
+  describe('Timeouts and Cancellation', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    // Simulates a server that never responds until the request signal is aborted
+    const mockHangingFetch = () =>
+      vi.spyOn(globalThis, 'fetch').mockImplementation((_input, init) => {
+        return new Promise((_resolve, reject) => {
+          if (init?.signal?.aborted) {
+            reject(init.signal.reason)
+          }
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+        })
+      })
+
+    it('should pass a signal to fetch', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('[]'))
+      const controller = new AbortController()
+      await client.getFeeds({ signal: controller.signal })
+      expect(fetchMock.mock.calls[0][1]?.signal).toBe(controller.signal)
+    })
+
+    it('should throw an abort error when the signal is aborted', async () => {
+      mockHangingFetch()
+      const controller = new AbortController()
+      const promise = client.getEntries({ limit: 10 }, { signal: controller.signal })
+      controller.abort()
+      const error = await promise.catch(e => e)
+      expect(error).toBeInstanceOf(MinifluxAbortError)
+      expect(error.path).toBe('/v1/entries?limit=10')
+    })
+
+    it('should throw an abort error when the signal is already aborted', async () => {
+      mockHangingFetch()
+      const controller = new AbortController()
+      controller.abort()
+      await expect(client.getMe({ signal: controller.signal, timeout: 1000 })).rejects.toBeInstanceOf(
+        MinifluxAbortError
+      )
+    })
+
+    it('should throw a timeout error when the per-call timeout elapses', async () => {
+      vi.useFakeTimers()
+      mockHangingFetch()
+      const promise = client.getFeed(1, { timeout: 1000 }).catch(e => e)
+      await vi.advanceTimersByTimeAsync(1000)
+      const error = await promise
+      expect(error).toBeInstanceOf(MinifluxTimeoutError)
+      expect(error.method).toBe('GET')
+    })
+
+    it('should apply the default timeout from the config', async () => {
+      vi.useFakeTimers()
+      mockHangingFetch()
+      const timeoutClient = new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        timeout: 500,
+      })
+      const promise = timeoutClient.healthcheck().catch(e => e)
+      await vi.advanceTimersByTimeAsync(500)
+      expect(await promise).toBeInstanceOf(MinifluxTimeoutError)
+    })
+
+    it('should stop retrying once the signal is aborted', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('', { status: 503 }))
+      const retryClient = new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        retry: { maxAttempts: 5, initialDelay: 10_000, jitter: false },
+      })
+      const controller = new AbortController()
+      const promise = retryClient.getFeeds({ signal: controller.signal }).catch(e => e)
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1))
+      controller.abort()
+      expect(await promise).toBeInstanceOf(MinifluxAbortError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Transport and Middleware', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should send requests through a custom fetch implementation', async () => {
+      const customFetch = vi.fn(async () => new Response('[]'))
+      const globalFetch = vi.spyOn(globalThis, 'fetch')
+      const customClient = new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        fetch: customFetch,
+      })
+      await expect(customClient.getFeeds()).resolves.toEqual([])
+      expect(customFetch).toHaveBeenCalledWith('http://localhost:8080/v1/feeds', expect.anything())
+      expect(globalFetch).not.toHaveBeenCalled()
+    })
+
+    it('should add API key authentication through the middleware chain', async () => {
+      const fetchMock = vi.fn(async () => new Response('{}'))
+      const apiKeyClient = new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        fetch: fetchMock,
+      })
+      await apiKeyClient.getMe()
+      const headers = fetchMock.mock.calls[0][1].headers as Headers
+      expect(headers.get('X-Auth-Token')).toBe('test-api-key')
+      expect(headers.get('Accept')).toBe('application/json')
+    })
+
+    it('should add basic authentication through the middleware chain', async () => {
+      const fetchMock = vi.fn(async () => new Response('{}'))
+      const passwordClient = new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        username: 'user',
+        password: 'secret',
+        authType: 'password',
+        fetch: fetchMock,
+      })
+      await passwordClient.getMe()
+      const headers = fetchMock.mock.calls[0][1].headers as Headers
+      expect(headers.get('Authorization')).toBe(`Basic ${btoa('user:secret')}`)
+    })
+
+    it('should run middleware in order around the request', async () => {
+      const calls: string[] = []
+      const tracing: MinifluxMiddleware = async (request, next) => {
+        calls.push('tracing:before')
+        request.headers.set('X-Request-Id', 'abc')
+        const response = await next(request)
+        calls.push('tracing:after')
+        return response
+      }
+      const logging: MinifluxMiddleware = async (request, next) => {
+        calls.push(`logging:${request.method} ${request.path}`)
+        expect(request.headers.get('X-Auth-Token')).toBe('test-api-key')
+        expect(request.headers.get('X-Request-Id')).toBe('abc')
+        const response = await next(request)
+        calls.push(`logging:${response.status}`)
+        return response
+      }
+      const fetchMock = vi.fn(async () => new Response(null, { status: 204 }))
+      const middlewareClient = new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        fetch: fetchMock,
+        middleware: [tracing],
+      }).use(logging)
+
+      await middlewareClient.deleteFeed(1)
+      expect(calls).toEqual(['tracing:before', 'logging:DELETE /v1/feeds/1', 'logging:204', 'tracing:after'])
+      expect((fetchMock.mock.calls[0][1].headers as Headers).get('X-Request-Id')).toBe('abc')
+    })
+
+    it('should let middleware replace the response', async () => {
+      const fetchMock = vi.fn(async () => new Response('', { status: 500 }))
+      const stubClient = new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        fetch: fetchMock,
+        middleware: [async () => new Response('OK')],
+      })
+      await expect(stubClient.healthcheck()).resolves.toBe('OK')
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Pagination', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    const makeEntry = (id: number): Entry => ({
+      id,
+      user_id: 1,
+      feed_id: 1,
+      title: `Entry ${id}`,
+      url: `https://example.com/${id}`,
+      published_at: '',
+      created_at: '',
+      status: 'unread',
+    })
+
+    // Serves entries 1..total, honoring the cursor parameters like Miniflux does
+    const mockEntryPages = (total: number) =>
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+        const params = new URL(input as string).searchParams
+        const limit = Number(params.get('limit'))
+        const after = Number(params.get('after_entry_id') ?? 0)
+        const before = Number(params.get('before_entry_id') ?? Infinity)
+        const ids = Array.from({ length: total }, (_, i) => i + 1).filter(id => id > after && id < before)
+        if (params.get('direction') === 'desc') {
+          ids.reverse()
+        }
+        const entries = ids.slice(0, limit).map(makeEntry)
+        return new Response(JSON.stringify({ total: ids.length, entries }))
+      })
+
+    const collect = async (iterator: AsyncIterable<Entry>) => {
+      const ids: number[] = []
+      for await (const entry of iterator) {
+        ids.push(entry.id)
+      }
+      return ids
+    }
+
+    it('should iterate over all entries using the before_entry_id cursor', async () => {
+      const fetchMock = mockEntryPages(5)
+      const ids = await collect(client.iterateEntries({ status: ['unread'] }, { pageSize: 2 }))
+      expect(ids).toEqual([5, 4, 3, 2, 1])
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+      const lastUrl = new URL(fetchMock.mock.calls[2][0] as string)
+      expect(lastUrl.searchParams.get('before_entry_id')).toBe('2')
+      expect(lastUrl.searchParams.get('order')).toBe('id')
+      expect(lastUrl.searchParams.get('status')).toBe('unread')
+    })
+
+    it('should iterate in ascending order using the after_entry_id cursor', async () => {
+      const fetchMock = mockEntryPages(4)
+      const ids = await collect(client.iterateFeedEntries(1, { direction: 'asc', offset: 10 }, { pageSize: 2 }))
+      expect(ids).toEqual([1, 2, 3, 4])
+      const urls = fetchMock.mock.calls.map(call => new URL(call[0] as string))
+      expect(urls[0].pathname).toBe('/v1/feeds/1/entries')
+      expect(urls[0].searchParams.has('offset')).toBe(false)
+      expect(urls[1].searchParams.get('after_entry_id')).toBe('2')
+    })
+
+    it('should stop at the maximum number of entries', async () => {
+      const fetchMock = mockEntryPages(10)
+      const ids = await collect(client.iterateCategoryEntries(3, {}, { pageSize: 4, maxEntries: 6 }))
+      expect(ids).toEqual([10, 9, 8, 7, 6, 5])
+      expect(new URL(fetchMock.mock.calls[1][0] as string).searchParams.get('limit')).toBe('2')
+    })
+
+    it('should not fetch further pages when the consumer stops early', async () => {
+      const fetchMock = mockEntryPages(10)
+      for await (const entry of client.iterateEntries({}, { pageSize: 3 })) {
+        if (entry.id === 9) break
+      }
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('OPML API', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should export feeds as OPML', async () => {
+      const xml = '<?xml version="1.0"?><opml version="2.0"><body></body></opml>'
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(xml))
+      await expect(client.exportOPML()).resolves.toBe(xml)
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/export')
+    })
+
+    it('should import feeds from OPML', async () => {
+      const xml = '<opml version="2.0"><body></body></opml>'
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ message: 'Feeds imported successfully' }), { status: 201 })
+      )
+      await expect(client.importOPML(xml)).resolves.toEqual({ message: 'Feeds imported successfully' })
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(url).toBe('http://localhost:8080/v1/import')
+      expect(init?.method).toBe('POST')
+      expect(init?.body).toBe(xml)
+      expect((init?.headers as Headers).get('Content-Type')).toBe('application/xml')
+      expect((init?.headers as Headers).get('X-Auth-Token')).toBe('test-api-key')
+    })
+  })
+
+  describe('Discovery API', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    const subscriptions = [
+      { title: 'Comments', url: 'https://example.com/comments/feed', type: 'rss' },
+      { title: 'RSS', url: 'https://example.com/feed.rss', type: 'rss' },
+      { title: 'Atom', url: 'https://example.com/feed.atom', type: 'atom' },
+    ]
+
+    const mockDiscovery = (status: number, body: unknown) => {
+      let feedUrl: string | undefined
+      return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+        if (String(input).endsWith('/v1/discover')) {
+          return new Response(JSON.stringify(body), { status })
+        }
+        if (init?.method === 'POST') {
+          feedUrl = JSON.parse(String(init.body)).feed_url
+          return new Response(JSON.stringify({ feed_id: 7 }), { status: 201 })
+        }
+        return new Response(JSON.stringify({ id: 7, feed_url: feedUrl }))
+      })
+    }
+
+    it('should discover subscriptions', async () => {
+      const fetchMock = mockDiscovery(200, subscriptions)
+      const result = await client.discoverSubscriptions('https://example.com', { user_agent: 'Test' })
+      expect(result).toEqual(subscriptions)
+      expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body))).toEqual({
+        url: 'https://example.com',
+        user_agent: 'Test',
+      })
+    })
+
+    it('should return an empty list when no subscription is found', async () => {
+      mockDiscovery(404, { error_message: 'resource not found' })
+      await expect(client.discoverSubscriptions('https://example.com')).resolves.toEqual([])
+    })
+
+    it('should subscribe to the best candidate', async () => {
+      const fetchMock = mockDiscovery(200, subscriptions)
+      const result = await client.subscribe('https://example.com', { categoryId: 2 })
+      expect(result.subscription.url).toBe('https://example.com/feed.atom')
+      expect(result.candidates.map(candidate => candidate.title)).toEqual(['Atom', 'RSS', 'Comments'])
+      expect(result.feed).toEqual({ id: 7, feed_url: 'https://example.com/feed.atom' })
+      expect(fetchMock.mock.calls[2][0]).toBe('http://localhost:8080/v1/feeds/7')
+      expect(JSON.parse(String(fetchMock.mock.calls[1][1]?.body))).toEqual({
+        feed_url: 'https://example.com/feed.atom',
+        category_id: 2,
+      })
+    })
+
+    it('should prefer the given URL when it is a feed', async () => {
+      mockDiscovery(200, subscriptions)
+      const result = await client.subscribe('https://example.com/feed.rss')
+      expect(result.subscription.title).toBe('RSS')
+    })
+
+    it('should throw when no feed is found', async () => {
+      mockDiscovery(404, { error_message: 'resource not found' })
+      const error = await client.subscribe('https://example.com').catch(e => e)
+      expect(error).toBeInstanceOf(MinifluxDiscoveryError)
+      expect(error.candidates).toEqual([])
+    })
+
+    it('should throw on several candidates when configured to', async () => {
+      const fetchMock = mockDiscovery(200, subscriptions)
+      const error = await client.subscribe('https://example.com', { onMultiple: 'error' }).catch(e => e)
+      expect(error).toBeInstanceOf(MinifluxDiscoveryError)
+      expect(error.candidates).toHaveLength(3)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Bulk Entry API', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    const sentChunks = (fetchMock: ReturnType<typeof vi.spyOn>) =>
+      fetchMock.mock.calls
+        .filter(([, init]: [string, RequestInit]) => init.method === 'PUT')
+        .map(([, init]: [string, RequestInit]) => JSON.parse(String(init.body)))
+
+    it('should update entries in chunks', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(null, { status: 204 }))
+      const ids = Array.from({ length: 5 }, (_, i) => i + 1)
+      const report = await client.updateEntriesStatus(ids, 'read', { chunkSize: 2 })
+      expect(sentChunks(fetchMock)).toEqual([
+        { entry_ids: [1, 2], status: 'read' },
+        { entry_ids: [3, 4], status: 'read' },
+        { entry_ids: [5], status: 'read' },
+      ])
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/entries')
+      expect(report).toMatchObject({ total: 5, succeeded: 5, failed: 0 })
+      expect(report.chunks).toHaveLength(3)
+    })
+
+    it('should report failed chunks without stopping the others', async () => {
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async (_input, init) => {
+        const { entry_ids } = JSON.parse(String(init?.body))
+        return entry_ids.includes(3)
+          ? new Response(JSON.stringify({ error_message: 'invalid entry' }), { status: 400 })
+          : new Response(null, { status: 204 })
+      })
+      const report = await client.updateEntriesStatus([1, 2, 3, 4, 5], 'unread', { chunkSize: 2 })
+      expect(report).toMatchObject({ total: 5, succeeded: 3, failed: 2 })
+      expect(report.chunks[1].success).toBe(false)
+      expect(report.chunks[1].entryIds).toEqual([3, 4])
+      expect(report.chunks[1].error).toBeInstanceOf(MinifluxValidationError)
+    })
+
+    it('should limit the number of requests in flight', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        inFlight--
+        return new Response(null, { status: 204 })
+      })
+      const ids = Array.from({ length: 10 }, (_, i) => i + 1)
+      const report = await client.updateEntriesStatus(ids, 'read', { chunkSize: 1, concurrency: 3 })
+      expect(report.succeeded).toBe(10)
+      expect(maxInFlight).toBe(3)
+    })
+
+    it('should mark all entries matching a filter as read', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+        if (init?.method === 'PUT') {
+          return new Response(null, { status: 204 })
+        }
+        const params = new URL(String(input)).searchParams
+        const entries = params.has('before_entry_id') ? [] : [{ id: 9 }, { id: 8 }]
+        return new Response(JSON.stringify({ total: 2, entries }))
+      })
+      const report = await client.markEntriesRead({ category_id: 3 }, { chunkSize: 2 })
+      const listUrl = new URL(String(fetchMock.mock.calls[0][0]))
+      expect(listUrl.searchParams.get('status')).toBe('unread')
+      expect(sentChunks(fetchMock)).toEqual([{ entry_ids: [9, 8], status: 'read' }])
+      expect(report).toMatchObject({ total: 2, succeeded: 2, failed: 0 })
+    })
+  })
+
+  describe('Entry Import API', () => {
+    let server: FakeMiniflux
+    let feed: Feed
+
+    beforeEach(() => {
+      server = new FakeMiniflux()
+      client = new MinifluxClient({
+        baseURL: 'http://miniflux.test',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        fetch: server.fetch,
+      })
+      feed = server.addFeed({ feed_url: 'https://example.com/feed.xml', title: 'Example' })
+      server.addEntry({ feed_id: feed.id, title: 'First' })
+    })
+
+    it('should import entries and report existing ones', async () => {
+      const payload = {
+        url: 'https://example.com/changelog/1.2.0',
+        title: 'Release 1.2.0',
+        content: '<p>Bug fixes</p>',
+        published_at: new Date('2024-02-01T00:00:00Z'),
+        starred: true,
+        tags: ['release'],
+      }
+      const created = await client.importEntry(feed.id, payload)
+      expect(created.created).toBe(true)
+      expect(await client.getEntry(created.id)).toMatchObject({
+        feed_id: feed.id,
+        title: 'Release 1.2.0',
+        published_at: '2024-02-01T00:00:00.000Z',
+        status: 'unread',
+        starred: true,
+        tags: ['release'],
+      })
+
+      expect(await client.importEntry(feed.id, { ...payload, title: 'Renamed' })).toEqual({
+        id: created.id,
+        created: false,
+      })
+      const alert = { url: 'https://alerts.example/1', external_id: 'alert-1', status: 'read' as const }
+      const first = await client.importEntry(feed.id, alert)
+      expect(await client.importEntry(feed.id, { ...alert, url: 'https://alerts.example/2' })).toEqual({
+        id: first.id,
+        created: false,
+      })
+      expect((await client.getEntry(first.id)).title).toBe('https://alerts.example/1')
+    })
+
+    it('should import many entries with a report of each', async () => {
+      const report = await client.importEntries(feed.id, [
+        { url: 'https://example.com/a' },
+        { url: 'https://example.com/b' },
+        { url: 'https://example.com/a' },
+        { url: '' },
+      ])
+      expect(report).toMatchObject({ total: 4, succeeded: 3, failed: 1 })
+      expect(report.results.map(result => result.success && result.value.created)).toEqual([true, true, false, false])
+      expect((await client.getFeedEntries(feed.id)).total).toBe(3)
+    })
+  })
+
+  describe('Concurrency and Rate Limits', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    const createLimitedClient = (config: Partial<ConstructorParameters<typeof MinifluxClient>[0]>) =>
+      new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        ...config,
+      })
+
+    it('should limit the number of calls in flight', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        inFlight--
+        return new Response('[]')
+      })
+      const limited = createLimitedClient({ concurrency: 2 })
+      const results = await Promise.all(Array.from({ length: 6 }, () => limited.getFeeds()))
+      expect(results).toHaveLength(6)
+      expect(maxInFlight).toBe(2)
+    })
+
+    it('should free the slot of failed calls', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response('', { status: 500 }))
+      fetchMock.mockResolvedValue(new Response('[]'))
+      const limited = createLimitedClient({ concurrency: 1 })
+      await expect(limited.getFeeds()).rejects.toBeInstanceOf(MinifluxServerError)
+      await expect(limited.getFeeds()).resolves.toEqual([])
+    })
+
+    it('should limit the rate of calls with a token bucket', async () => {
+      vi.useFakeTimers()
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('[]'))
+      const limited = createLimitedClient({ rateLimit: { requests: 2, interval: 1000 } })
+      const calls = Promise.all(Array.from({ length: 5 }, () => limited.getCategories()))
+
+      await vi.advanceTimersByTimeAsync(0)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(500)
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(fetchMock).toHaveBeenCalledTimes(5)
+      await calls
+    })
+
+    it('should take a token for each retry attempt', async () => {
+      vi.useFakeTimers()
+      const fetchMock = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response('', { status: 503 }))
+        .mockResolvedValueOnce(new Response('', { status: 503 }))
+        .mockResolvedValue(new Response('[]'))
+      const limited = createLimitedClient({
+        rateLimit: { requests: 2, interval: 1000 },
+        retry: { maxAttempts: 3, initialDelay: 0, jitter: false },
+      })
+      const call = limited.getFeeds()
+
+      await vi.advanceTimersByTimeAsync(0)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(499)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+      await expect(call).resolves.toEqual([])
+    })
+
+    it('should stop waiting for a slot when the call is aborted or times out', async () => {
+      vi.spyOn(globalThis, 'fetch').mockImplementation(
+        (_input, init) => new Promise((_resolve, reject) => init?.signal?.addEventListener('abort', () => reject(init.signal?.reason)))
+      )
+      const limited = createLimitedClient({ concurrency: 1 })
+      const first = new AbortController()
+      const hanging = limited.getFeeds({ signal: first.signal }).catch(e => e)
+
+      const controller = new AbortController()
+      const waiting = limited.getFeeds({ signal: controller.signal }).catch(e => e)
+      controller.abort()
+      expect(await waiting).toBeInstanceOf(MinifluxAbortError)
+      expect(await limited.getFeeds({ timeout: 10 }).catch(e => e)).toBeInstanceOf(MinifluxTimeoutError)
+
+      first.abort()
+      expect(await hanging).toBeInstanceOf(MinifluxAbortError)
+    })
+
+    it('should reject invalid limits', () => {
+      expect(() => createLimitedClient({ concurrency: 0 })).toThrow('Concurrency must be at least 1')
+      expect(() => createLimitedClient({ rateLimit: { requests: 0 } })).toThrow(
+        'Rate limit requests, interval and burst must be positive'
+      )
+    })
+
+    it('should run batches within the limits and report every item', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        inFlight--
+        return String(input).endsWith('/3/refresh')
+          ? new Response(JSON.stringify({ error_message: 'feed not found' }), { status: 404 })
+          : new Response(null, { status: 204 })
+      })
+      const limited = createLimitedClient({ concurrency: 2 })
+      const report = await limited.batch([1, 2, 3, 4, 5], async feedId => {
+        await limited.refreshFeed(feedId)
+        return feedId * 10
+      })
+
+      expect(maxInFlight).toBe(2)
+      expect(report).toMatchObject({ total: 5, succeeded: 4, failed: 1 })
+      expect(report.results.map(result => result.item)).toEqual([1, 2, 3, 4, 5])
+      expect(report.results[0]).toEqual({ item: 1, success: true, value: 10 })
+      expect(report.results[2]).toMatchObject({ item: 3, success: false })
+      expect(report.results[2].success || report.results[2].error).toBeInstanceOf(MinifluxNotFoundError)
+    })
+
+    it('should process batch items with their own concurrency', async () => {
+      let active = 0
+      let maxActive = 0
+      const report = await client.batch(
+        Array.from({ length: 6 }, (_, i) => i),
+        async item => {
+          active++
+          maxActive = Math.max(maxActive, active)
+          await new Promise(resolve => setTimeout(resolve, 1))
+          active--
+          return item
+        },
+        { concurrency: 3 }
+      )
+      expect(maxActive).toBe(3)
+      expect(report.succeeded).toBe(6)
+    })
+  })
+
+  describe('Response Cache', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    const createCachedClient = (
+      cache: ConstructorParameters<typeof MinifluxClient>[0]['cache'] = true,
+      apiKey = 'test-api-key'
+    ) =>
+      new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        apiKey,
+        authType: 'api_key',
+        cache,
+      })
+
+    const category = { id: 1, user_id: 1, title: 'News' }
+    const feed = { id: 1, user_id: 1, title: 'Feed' }
+    const user = { id: 1, username: 'test' }
+
+    it('should revalidate cached responses and reuse their body on 304', async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify([category]), {
+            headers: { 'ETag': '"v1"', 'Last-Modified': 'Mon, 19 Oct 2026 10:00:00 GMT' },
+          })
+        )
+        .mockResolvedValueOnce(new Response(null, { status: 304 }))
+      const cached = createCachedClient()
+
+      expect(await cached.getCategories()).toEqual([category])
+      expect(await cached.getCategories()).toEqual([category])
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      const headers = fetchMock.mock.calls[1][1]?.headers as Headers
+      expect(headers.get('If-None-Match')).toBe('"v1"')
+      expect(headers.get('If-Modified-Since')).toBe('Mon, 19 Oct 2026 10:00:00 GMT')
+      expect((fetchMock.mock.calls[0][1]?.headers as Headers).has('If-None-Match')).toBe(false)
+    })
+
+    it('should serve responses without validators from the cache until their TTL expires', async () => {
+      vi.useFakeTimers()
+      const fetchMock = vi
+        .spyOn(globalThis, 'fetch')
+        .mockImplementation(async () => new Response(JSON.stringify([feed])))
+      const cached = createCachedClient({ ttl: 1000 })
+
+      await cached.getFeeds()
+      await cached.getFeeds()
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      await cached.getFeed(1)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+
+      vi.advanceTimersByTime(1000)
+      await cached.getFeeds()
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('should invalidate related responses after changes', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+        if (init?.method === 'PUT') {
+          return new Response(JSON.stringify(feed), { status: 201 })
+        }
+        return new Response(JSON.stringify(String(input).includes('/me') ? user : [feed]))
+      })
+      const cached = createCachedClient()
+
+      await Promise.all([cached.getFeeds(), cached.getMe()])
+      await cached.updateFeed(1, { title: 'Renamed' })
+      await Promise.all([cached.getFeeds(), cached.getMe()])
+
+      const gets = fetchMock.mock.calls.filter(([, init]) => init?.method === 'GET').map(([url]) => url)
+      expect(gets).toEqual([
+        'http://localhost:8080/v1/feeds',
+        'http://localhost:8080/v1/me',
+        'http://localhost:8080/v1/feeds',
+      ])
+    })
+
+    it('should only invalidate entry listings after entry status changes', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+        if (init?.method === 'PUT') {
+          return new Response(null, { status: 204 })
+        }
+        const url = String(input)
+        return new Response(
+          JSON.stringify(url.includes('/entries') ? { total: 0, entries: [] } : url.includes('counters') ? { reads: {}, unreads: {} } : [feed])
+        )
+      })
+      const cached = createCachedClient()
+
+      await Promise.all([cached.getFeeds(), cached.getEntries(), cached.getCounters()])
+      await cached.updateEntryStatus(1, 'read')
+      await Promise.all([cached.getFeeds(), cached.getEntries(), cached.getCounters()])
+
+      expect(fetchMock.mock.calls.filter(([, init]) => init?.method === 'GET')).toHaveLength(5)
+    })
+
+    it('should use a custom store and clear it', async () => {
+      const store = new MemoryCacheStore()
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(JSON.stringify([feed])))
+      const cached = createCachedClient({ store })
+
+      await cached.getFeeds()
+      const keys = await store.keys()
+      expect(keys).toEqual([expect.stringMatching(/^[0-9a-f]{64}@http:\/\/localhost:8080\/v1\/feeds$/)])
+      expect(keys[0]).not.toContain('test-api-key')
+      expect(await store.get(keys[0])).toMatchObject({ body: JSON.stringify([feed]) })
+
+      await cached.clearCache()
+      expect(await store.keys()).toEqual([])
+    })
+
+    it('should keep the responses of clients with different credentials apart in a shared store', async () => {
+      const store = new MemoryCacheStore()
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (_input, init) => {
+        const token = new Headers(init?.headers).get('X-Auth-Token')
+        return new Response(JSON.stringify({ id: token === 'alice-key' ? 1 : 2, username: token }))
+      })
+      const alice = createCachedClient({ store }, 'alice-key')
+      const bob = createCachedClient({ store }, 'bob-key')
+
+      expect(await alice.getMe()).toMatchObject({ username: 'alice-key' })
+      expect(await bob.getMe()).toMatchObject({ username: 'bob-key' })
+      expect(await alice.getMe()).toMatchObject({ username: 'alice-key' })
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(await store.keys()).toHaveLength(2)
+
+      await bob.clearCache()
+      expect(await store.keys()).toHaveLength(1)
+      await alice.getMe()
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should always request health probes and fetched entry content', async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response('OK'))
+        .mockResolvedValueOnce(new Response('down', { status: 503 }))
+        .mockImplementation(async () => new Response(JSON.stringify({ content: '<p>Full</p>' })))
+      const cached = createCachedClient()
+
+      expect(await cached.healthcheck()).toBe('OK')
+      await expect(cached.healthcheck()).rejects.toBeInstanceOf(MinifluxServerError)
+      await cached.fetchContent(1)
+      await cached.fetchContent(1)
+      expect(fetchMock).toHaveBeenCalledTimes(4)
+    })
+
+    it('should not cache responses when disabled', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('[]'))
+      await client.getFeeds()
+      await client.getFeeds()
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('Response Validation', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    const createValidatingClient = (validation: 'strict' | 'lenient', onValidationWarning = vi.fn()) =>
+      new MinifluxClient({
+        baseURL: 'http://localhost:8080',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        validation,
+        onValidationWarning,
+      })
+
+    const category = { id: 1, user_id: 1, title: 'Tech' }
+
+    it('should not validate responses by default', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify([{ id: 'one' }])))
+      await expect(client.getCategories()).resolves.toEqual([{ id: 'one' }])
+    })
+
+    it('should accept valid responses and strip unknown fields in strict mode', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify([{ ...category, position: 3, hide_globally: null }]))
+      )
+      await expect(createValidatingClient('strict').getCategories()).resolves.toEqual([
+        { ...category, hide_globally: null },
+      ])
+    })
+
+    it('should report the endpoint and field of mismatches in strict mode', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            total: 1,
+            entries: [{ id: 1, user_id: 1, feed_id: 1, status: 'archived', title: 2, published_at: '', created_at: '' }],
+          })
+        )
+      )
+      const error = await createValidatingClient('strict').getEntries({ limit: 1 }).catch(e => e)
+      expect(error).toBeInstanceOf(MinifluxSchemaError)
+      expect(error.message).toContain('GET /v1/entries')
+      expect(error.issues).toEqual([
+        { path: 'entries[0].status', message: 'expected one of "unread", "read", "removed", received string' },
+        { path: 'entries[0].title', message: 'expected string, received number' },
+        { path: 'entries[0].url', message: 'missing required field' },
+      ])
+    })
+
+    it('should warn and pass the body through in lenient mode', async () => {
+      const body = { id: 1, user_id: 1, title: 7, feed_count: 3 }
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify(body), { status: 201 }))
+      const onWarning = vi.fn()
+      await expect(createValidatingClient('lenient', onWarning).createCategory('Tech')).resolves.toEqual(body)
+      expect(onWarning).toHaveBeenCalledWith('POST /v1/categories', [
+        { path: 'title', message: 'expected string, received number' },
+      ])
+    })
+
+    it('should skip endpoints without a schema', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('2.2.0'))
+      await expect(createValidatingClient('strict').getVersion()).resolves.toBe('2.2.0')
+    })
+  })
+
 })
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { parseOPML, generateOPML } from '../src/opml.ts'
+import type { Feed } from '../src/types.ts'
+
+describe('OPML', () => {
+  const opml = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- Exported subscriptions -->
+<opml version="2.0">
+  <head>
+    <title>My &amp; Subscriptions</title>
+  </head>
+  <body>
+    <outline text="Tech">
+      <outline title="Rust Blog" text="Rust" xmlUrl="https://blog.rust-lang.org/feed.xml" htmlUrl="https://blog.rust-lang.org/"/>
+      <outline text="Nested">
+        <outline text="Go Blog" xmlUrl="https://go.dev/blog/feed.atom?a=1&amp;b=2"></outline>
+      </outline>
+    </outline>
+    <outline type="rss" text="Loose Feed" xmlUrl='https://example.com/rss' description="Not in a folder" />
+    <outline text="Empty"></outline>
+  </body>
+</opml>`
+
+  describe('parseOPML', () => {
+    it('should parse the document title', () => {
+      expect(parseOPML(opml).title).toBe('My & Subscriptions')
+    })
+
+    it('should group feeds by category', () => {
+      const { categories } = parseOPML(opml)
+      expect(categories.map(category => category.title)).toEqual(['Tech', 'Nested', 'All'])
+      expect(categories[0].feeds).toEqual([
+        {
+          title: 'Rust Blog',
+          feed_url: 'https://blog.rust-lang.org/feed.xml',
+          site_url: 'https://blog.rust-lang.org/',
+          description: undefined,
+        },
+      ])
+      expect(categories[1].feeds[0].feed_url).toBe('https://go.dev/blog/feed.atom?a=1&b=2')
+      expect(categories[2].feeds[0]).toMatchObject({
+        title: 'Loose Feed',
+        feed_url: 'https://example.com/rss',
+        description: 'Not in a folder',
+      })
+    })
+
+    it('should reject documents without an OPML body', () => {
+      expect(() => parseOPML('<rss><channel></channel></rss>')).toThrow('Invalid OPML')
+    })
+
+    it('should reject malformed documents', () => {
+      expect(() => parseOPML('<opml><body><outline text="a"></body></opml>')).toThrow('Invalid OPML')
+      expect(() => parseOPML('<opml><body>')).toThrow('Invalid OPML')
+    })
+  })
+
+  describe('generateOPML', () => {
+    const feeds = [
+      {
+        id: 1,
+        user_id: 1,
+        title: 'Rust <Blog>',
+        site_url: 'https://blog.rust-lang.org/',
+        feed_url: 'https://blog.rust-lang.org/feed.xml',
+        category: { id: 1, user_id: 1, title: 'Tech & Code' },
+      },
+      {
+        id: 2,
+        user_id: 1,
+        title: 'Uncategorized',
+        site_url: 'https://example.com/',
+        feed_url: 'https://example.com/rss?a=1&b=2',
+      },
+    ] as Feed[]
+
+    it('should escape special characters', () => {
+      const xml = generateOPML(feeds, 'Export')
+      expect(xml).toContain('<title>Export</title>')
+      expect(xml).toContain('<outline text="Tech &amp; Code">')
+      expect(xml).toContain('title="Rust &lt;Blog&gt;"')
+      expect(xml).toContain('xmlUrl="https://example.com/rss?a=1&amp;b=2"')
+    })
+
+    it('should round-trip through parseOPML', () => {
+      const { title, categories } = parseOPML(generateOPML(feeds))
+      expect(title).toBe('Miniflux')
+      expect(categories).toEqual([
+        {
+          title: 'Tech & Code',
+          feeds: [
+            {
+              title: 'Rust <Blog>',
+              feed_url: 'https://blog.rust-lang.org/feed.xml',
+              site_url: 'https://blog.rust-lang.org/',
+              description: undefined,
+            },
+          ],
+        },
+        {
+          title: 'All',
+          feeds: [
+            {
+              title: 'Uncategorized',
+              feed_url: 'https://example.com/rss?a=1&b=2',
+              site_url: 'https://example.com/',
+              description: undefined,
+            },
+          ],
+        },
+      ])
+    })
+  })
+})
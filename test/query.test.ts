@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { MinifluxClient } from '../src/client.ts'
+import { EntryQuery, serializeFilter } from '../src/query.ts'
+import { FakeMiniflux } from '../src/testing.ts'
+import type { Entry, Feed } from '../src/types.ts'
+
+describe('Entry queries', () => {
+  let server: FakeMiniflux
+  let client: MinifluxClient
+  let feed: Feed
+  let other: Feed
+
+  beforeEach(() => {
+    server = new FakeMiniflux()
+    client = new MinifluxClient({
+      baseURL: 'http://miniflux.test',
+      apiKey: 'test-api-key',
+      authType: 'api_key',
+      fetch: (input, init) => server.fetch(input, init),
+    })
+    const category = server.addCategory({ title: 'Tech' })
+    feed = server.addFeed({ feed_url: 'https://example.com/feed.xml', title: 'Example', category })
+    other = server.addFeed({
+      feed_url: 'https://other.example/feed.xml',
+      title: 'Other',
+      category: server.addCategory({ title: 'News' }),
+    })
+    server.addEntry({ feed_id: feed.id, title: 'First', published_at: '2024-01-01T00:00:00Z' })
+    server.addEntry({ feed_id: feed.id, title: 'Second', published_at: '2024-01-02T00:00:00Z', starred: true })
+    server.addEntry({ feed_id: feed.id, title: 'Third', published_at: '2024-01-03T00:00:00Z', status: 'read' })
+    server.addEntry({ feed_id: other.id, title: 'Fourth', published_at: '2024-01-04T00:00:00Z' })
+  })
+
+  const titles = (entries: Entry[]) => entries.map(entry => entry.title)
+
+  describe('serializeFilter', () => {
+    it('should serialize filters into query strings', () => {
+      expect(serializeFilter()).toBe('')
+      expect(serializeFilter({ status: ['read', 'unread'], limit: 10, starred: false, search: undefined })).toBe(
+        '?status=read&status=unread&limit=10&starred=false'
+      )
+    })
+  })
+
+  it('should build filters from chained conditions', () => {
+    const query = client
+      .entries()
+      .unread()
+      .starred()
+      .inCategory(3)
+      .publishedAfter(new Date('2024-01-01T00:00:00.900Z'))
+      .orderBy('published_at', 'desc')
+      .limit(50)
+    expect(query.toFilter()).toEqual({
+      status: ['unread'],
+      starred: true,
+      category_id: 3,
+      published_after: 1704067200,
+      order: 'published_at',
+      direction: 'desc',
+      limit: 50,
+    })
+  })
+
+  it('should accept Unix timestamps as dates', () => {
+    expect(client.entries().changedAfter(10).changedBefore(new Date(20_000)).toFilter()).toEqual({
+      changed_after: 10,
+      changed_before: 20,
+    })
+  })
+
+  it('should not modify the query it derives from', () => {
+    const unread = client.entries().unread()
+    unread.limit(1)
+    expect(unread.toFilter()).toEqual({ status: ['unread'] })
+  })
+
+  it('should fetch matching entries', async () => {
+    const { total, entries } = await client.entries().unread().inCategory(feed.category!.id).orderBy('published_at', 'desc').fetch()
+    expect(total).toBe(2)
+    expect(titles(entries)).toEqual(['Second', 'First'])
+
+    const published = await client
+      .entries()
+      .publishedAfter(new Date('2024-01-01T12:00:00Z'))
+      .publishedBefore(new Date('2024-01-04T00:00:00Z'))
+      .fetch()
+    expect(titles(published.entries)).toEqual(['Second', 'Third'])
+  })
+
+  it('should query the entries of a feed through the feed endpoint', async () => {
+    const spy = vi.spyOn(server, 'fetch')
+    const { entries } = await client.entries().inFeed(other.id).unread().fetch()
+    expect(titles(entries)).toEqual(['Fourth'])
+    expect(spy.mock.calls[0][0]).toBe(`http://miniflux.test/v1/feeds/${other.id}/entries?status=unread`)
+  })
+
+  it('should iterate over all matching entries', async () => {
+    const collected: Entry[] = []
+    for await (const entry of client.entries().unread().limit(1)) {
+      collected.push(entry)
+    }
+    expect(titles(collected).sort()).toEqual(['First', 'Fourth', 'Second'])
+
+    const starred: Entry[] = []
+    for await (const entry of client.entries().inFeed(feed.id).starred().iterate({ pageSize: 1 })) {
+      starred.push(entry)
+    }
+    expect(titles(starred)).toEqual(['Second'])
+  })
+
+  it('should reject conditions set twice at run time', () => {
+    const query = client.entries().unread() as unknown as EntryQuery
+    expect(() => query.read()).toThrow('read() conflicts with a condition already set on the query')
+    const scoped = client.entries().inFeed(1) as unknown as EntryQuery
+    expect(() => scoped.inCategory(2)).toThrow('inCategory() conflicts')
+    expect(() => new EntryQuery(client, { category_id: 2 }).inFeed(1)).toThrow('inFeed() conflicts')
+  })
+
+  it('should reject contradictory ranges and invalid values', () => {
+    expect(() => client.entries().publishedAfter(new Date('2024-02-01')).publishedBefore(new Date('2024-01-01'))).toThrow(
+      'publishedAfter() must be earlier than publishedBefore()'
+    )
+    expect(() => client.entries().beforeEntryId(5).afterEntryId(5)).toThrow(
+      'afterEntryId() must be earlier than beforeEntryId()'
+    )
+    expect(() => client.entries().createdAfter(new Date('invalid'))).toThrow('createdAfter() requires a valid date')
+    expect(() => client.entries().limit(0)).toThrow('limit() requires a positive integer')
+    expect(() => client.entries().offset(-1)).toThrow('offset() requires a non-negative integer')
+    expect(() => client.entries().status()).toThrow('status() requires at least one status')
+  })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { MinifluxClient } from '../src/client.ts'
+import { compileRuleRegex, dryRunFeedRules, parseRewriteRules, validateFeedRules } from '../src/rules.ts'
+import { FakeMiniflux } from '../src/testing.ts'
+import type { Entry } from '../src/types.ts'
+
+const entry = (id: number, changes: Partial<Entry>): Entry =>
+  ({
+    id,
+    user_id: 1,
+    feed_id: 1,
+    status: 'unread',
+    title: `Entry ${id}`,
+    url: `https://example.com/${id}`,
+    author: '',
+    tags: [],
+    published_at: '2026-10-19T00:00:00Z',
+    created_at: '2026-10-19T00:00:00Z',
+    ...changes,
+  }) as Entry
+
+describe('Feed rules', () => {
+  describe('compileRuleRegex', () => {
+    it('should translate Go regular expressions', () => {
+      expect(compileRuleRegex('(?i)sponsored').test('SPONSORED post')).toBe(true)
+      expect(compileRuleRegex('(?P<word>\\w+)').exec('hello')?.groups?.word).toBe('hello')
+      expect(compileRuleRegex('\\Afoo\\z').test('foo')).toBe(true)
+      expect(compileRuleRegex('[]a]').test(']')).toBe(true)
+      expect(compileRuleRegex('[^]a]').test('b')).toBe(true)
+    })
+
+    it('should reject what Miniflux rejects', () => {
+      expect(() => compileRuleRegex('foo(?=bar)')).toThrow('Lookarounds are not supported by Miniflux')
+      expect(() => compileRuleRegex('(a)\\1')).toThrow('Backreferences are not supported by Miniflux')
+      expect(() => compileRuleRegex('[unclosed')).toThrow('Invalid regular expression')
+      expect(() => compileRuleRegex('a(?i)b')).toThrow('cannot be checked locally')
+    })
+  })
+
+  describe('parseRewriteRules', () => {
+    it('should parse functions and quoted arguments', () => {
+      expect(parseRewriteRules('add_image_title, replace("a\\"b"|"c") ,remove(".ads, .promo")')).toEqual([
+        { name: 'add_image_title', args: [] },
+        { name: 'replace', args: ['a"b', 'c'] },
+        { name: 'remove', args: ['.ads, .promo'] },
+      ])
+      expect(parseRewriteRules('')).toEqual([])
+    })
+
+    it('should report malformed rules with their position', () => {
+      expect(() => parseRewriteRules('remove(.ads)')).toThrow('Expected a quoted argument at position 8')
+      expect(() => parseRewriteRules('replace("a" "b")')).toThrow('Expected "|" or ")"')
+      expect(() => parseRewriteRules('remove(".ads')).toThrow('Unterminated string')
+      expect(() => parseRewriteRules('replace("\\d+"|"")')).toThrow('Invalid escape "\\d"')
+      expect(() => parseRewriteRules('nl2br,')).toThrow('Expected a function name')
+      expect(() => parseRewriteRules('nl2br add_image_title')).toThrow('Expected ","')
+    })
+  })
+
+  describe('validateFeedRules', () => {
+    it('should accept valid rules', () => {
+      expect(
+        validateFeedRules({
+          blocklist_rules: '(?i)(sponsored|advert)',
+          keeplist_rules: 'rust|go',
+          rewrite_rules: 'add_dynamic_image,replace("\\\\s+"|" "),base64_decode,base64_decode(".body")',
+          scraper_rules: 'article .content, div[data-role="post"] > p:not(.ad)',
+        })
+      ).toEqual([])
+      expect(validateFeedRules({})).toEqual([])
+    })
+
+    it('should report invalid patterns and risky ones', () => {
+      expect(validateFeedRules({ blocklist_rules: 'foo(', keeplist_rules: 'rust| ' })).toEqual([
+        { field: 'blocklist_rules', message: expect.stringContaining('Invalid regular expression'), severity: 'error' },
+        { field: 'keeplist_rules', message: 'Leading or trailing whitespace is part of the pattern', severity: 'warning' },
+      ])
+      expect(validateFeedRules({ blocklist_rules: 'ads|' })).toEqual([
+        { field: 'blocklist_rules', message: 'Pattern matches any text, so every entry is dropped', severity: 'warning' },
+      ])
+    })
+
+    it('should check rewrite functions and their arguments', () => {
+      const issues = validateFeedRules({
+        rewrite_rules: 'add_image_titles,replace("a"),replace_title("(?<=x)"|"y"),remove("div >")',
+      })
+      expect(issues.map(issue => [issue.severity, issue.message])).toEqual([
+        ['warning', 'Unknown rewrite function "add_image_titles"'],
+        ['error', 'replace() expects 2 arguments, got 1'],
+        ['error', 'replace_title(): Lookarounds are not supported by Miniflux'],
+        ['error', 'remove(): Selector "div >" ends with a combinator'],
+      ])
+      expect(validateFeedRules({ rewrite_rules: 'remove(' })[0]).toMatchObject({ severity: 'error' })
+    })
+
+    it('should check the syntax of scraper rules', () => {
+      expect(validateFeedRules({ scraper_rules: 'article,' })[0].message).toBe('Empty selector in the list')
+      expect(validateFeedRules({ scraper_rules: 'div[data-x="a"' })[0].message).toBe('Missing "]"')
+      expect(validateFeedRules({ scraper_rules: 'p:not(.ad))' })[0].message).toBe('Unexpected ")"')
+      expect(validateFeedRules({ scraper_rules: 'a[title="x]' })[0].message).toBe('Unterminated string')
+    })
+  })
+
+  describe('dryRunFeedRules', () => {
+    const entries = [
+      entry(1, { title: 'Sponsored: buy now' }),
+      entry(2, { title: 'Rust 2.0 released', author: 'Jane' }),
+      entry(3, { title: 'Weekly notes', tags: ['rust'] }),
+      entry(4, { title: 'Cooking tips' }),
+    ]
+
+    it('should drop entries matching the block rule, then those missing the keep rule', () => {
+      const report = dryRunFeedRules(entries, { blocklist_rules: '(?i)sponsored', keeplist_rules: '(?i)rust' })
+      expect(report.kept.map(result => result.entry.id)).toEqual([2, 3])
+      expect(report.kept[1].match).toEqual({ field: 'tags', value: 'rust' })
+      expect(report.dropped).toEqual([
+        { entry: entries[0], kept: false, droppedBy: 'blocklist', match: { field: 'title', value: 'Sponsored: buy now' } },
+        { entry: entries[3], kept: false, droppedBy: 'keeplist' },
+      ])
+      expect(report.issues).toEqual([])
+    })
+
+    it('should drop every entry when the keep rule does not compile, as Miniflux does', () => {
+      const report = dryRunFeedRules(entries, { blocklist_rules: '(', keeplist_rules: 'rust(' })
+      expect(report.kept).toEqual([])
+      expect(report.dropped.every(result => result.droppedBy === 'keeplist')).toBe(true)
+      expect(report.issues).toHaveLength(2)
+    })
+
+    it('should keep every entry without rules', () => {
+      expect(dryRunFeedRules(entries, {}).kept).toHaveLength(4)
+    })
+  })
+
+  describe('client.dryRunFeedRules', () => {
+    let server: FakeMiniflux
+    let client: MinifluxClient
+
+    beforeEach(() => {
+      server = new FakeMiniflux()
+      client = new MinifluxClient({
+        baseURL: 'http://miniflux.test',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        fetch: (input, init) => server.fetch(input, init),
+      })
+    })
+
+    it('should test rules against the recent entries of a feed without saving them', async () => {
+      const feed = server.addFeed({ feed_url: 'https://example.com/feed.xml' })
+      server.addEntry({ feed_id: feed.id, title: 'Old sponsored post' })
+      server.addEntry({ feed_id: feed.id, title: 'News' })
+      server.addEntry({ feed_id: feed.id, title: 'Sponsored update' })
+
+      const report = await client.dryRunFeedRules(feed.id, { blocklist_rules: '(?i)sponsored' }, { limit: 2 })
+      expect(report.dropped.map(result => result.entry.title)).toEqual(['Sponsored update'])
+      expect(report.kept.map(result => result.entry.title)).toEqual(['News'])
+      expect((await client.getFeed(feed.id)).blocklist_rules).toBeUndefined()
+    })
+  })
+})
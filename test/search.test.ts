@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { MinifluxClient } from '../src/client.ts'
+import { SearchIndex } from '../src/search.ts'
+import { FakeMiniflux } from '../src/testing.ts'
+import type { Entry } from '../src/types.ts'
+
+const entry = (id: number, fields: Partial<Entry>): Entry => ({
+  id,
+  user_id: 1,
+  feed_id: 1,
+  status: 'unread',
+  title: '',
+  url: `https://example.com/${id}`,
+  published_at: `2024-01-0${id}T00:00:00Z`,
+  created_at: `2024-01-0${id}T00:00:00Z`,
+  ...fields,
+})
+
+const ENTRIES = [
+  entry(1, {
+    title: 'Memory safety in Rust',
+    content: '<p>Rust guarantees <b>memory safety</b> without a garbage collector.</p>',
+    author: 'Jane Doe',
+    tags: ['programming'],
+  }),
+  entry(2, {
+    title: 'Gardening notes',
+    content: '<p>Memory of the summer: safety goggles and rust on the tools.</p>',
+    author: 'John Smith',
+    tags: ['garden'],
+  }),
+  entry(3, {
+    title: 'Async programming',
+    content: '<p>Asynchronous code in Rust uses <code>async</code> and <code>await</code>. Café culture.</p>',
+    author: 'Jane Roe',
+    tags: ['programming', 'rust'],
+  }),
+]
+
+describe('SearchIndex', () => {
+  let index: SearchIndex
+
+  beforeEach(() => {
+    index = new SearchIndex()
+    index.add(ENTRIES)
+  })
+
+  const ids = (query: string, options?: Parameters<SearchIndex['search']>[1]) =>
+    index.search(query, options).map(result => result.entry.id)
+
+  it('should rank entries matching all terms', () => {
+    expect(ids('rust')).toEqual([1, 3, 2])
+    expect(ids('memory rust')).toEqual([1, 2])
+    expect(ids('rust python')).toEqual([])
+    expect(ids('')).toEqual([])
+  })
+
+  it('should match phrases', () => {
+    expect(ids('"memory safety"')).toEqual([1])
+    expect(ids('"safety memory"')).toEqual([])
+  })
+
+  it('should restrict terms to fields', () => {
+    expect(ids('author:jane')).toEqual([3, 1]) // Same score, most recent first
+    expect(ids('author:"jane doe"')).toEqual([1])
+    expect(ids('tag:rust')).toEqual([3])
+    expect(ids('title:rust')).toEqual([1])
+    expect(ids('rust', { fields: ['title', 'tags'] })).toEqual([1, 3])
+    expect(index.search('memory')[0].fields).toEqual(['title', 'content'])
+  })
+
+  it('should match prefixes, ignore case and diacritics', () => {
+    expect(ids('async*')).toEqual([3])
+    expect(ids('CAFE')).toEqual([3])
+    expect(ids('garb*')).toEqual([1])
+  })
+
+  it('should apply limits and filters', () => {
+    expect(ids('rust', { limit: 1 })).toEqual([1])
+    expect(ids('rust', { filter: e => e.author!.startsWith('John') })).toEqual([2])
+  })
+
+  it('should highlight matches in snippets', () => {
+    const [result] = index.search('"memory safety"')
+    expect(result.snippet).toBe('Rust guarantees **memory** **safety** without a garbage collector.')
+    expect(index.search('collector', { highlight: ['<mark>', '</mark>'] })[0].snippet).toContain(
+      'garbage <mark>collector</mark>.'
+    )
+  })
+
+  it('should center snippets on the first match of long content', () => {
+    const long = new SearchIndex()
+    const words = Array.from({ length: 100 }, (_, i) => `word${i}`)
+    long.add(entry(1, { title: 'Long', content: `<p>${words.join(' ')} needle ${words.join(' ')}</p>` }))
+    const [result] = long.search('needle', { snippetLength: 60 })
+    expect(result.snippet).toMatch(/^…word\d+ .* \*\*needle\*\* .*word\d+…$/)
+    expect(result.snippet.length).toBeLessThanOrEqual(70)
+  })
+
+  it('should replace and remove entries', () => {
+    index.add(entry(2, { title: 'Updated', content: 'Nothing here' }))
+    expect(ids('gardening')).toEqual([])
+    expect(ids('updated')).toEqual([2])
+    expect(index.remove(2)).toBe(true)
+    expect(index.remove(2)).toBe(false)
+    expect(index.size).toBe(2)
+    expect(ids('updated')).toEqual([])
+    index.clear()
+    expect(index.size).toBe(0)
+    expect(ids('rust')).toEqual([])
+  })
+
+  it('should serialize and restore the index', () => {
+    const restored = SearchIndex.fromJSON(JSON.parse(JSON.stringify(index)))
+    expect(restored.size).toBe(3)
+    expect(restored.search('"memory safety"')).toEqual(index.search('"memory safety"'))
+    expect(() => SearchIndex.fromJSON({ version: 2 } as never)).toThrow('Unsupported search index version: 2')
+  })
+
+  it('should be fed from the client', async () => {
+    const server = new FakeMiniflux()
+    const client = new MinifluxClient({
+      baseURL: 'http://miniflux.test',
+      apiKey: 'test-api-key',
+      authType: 'api_key',
+      fetch: server.fetch,
+    })
+    const feed = server.addFeed({ feed_url: 'https://example.com/feed.xml' })
+    server.addEntry({ feed_id: feed.id, title: 'First rust post' })
+    server.addEntry({ feed_id: feed.id, title: 'Second post', status: 'read' })
+
+    const fromClient = new SearchIndex()
+    fromClient.add(await client.getEntries({ status: ['read'] }))
+    expect(fromClient.size).toBe(1)
+    await expect(fromClient.addAll(client.iterateEntries())).resolves.toBe(2)
+    expect(fromClient.search('rust').map(result => result.entry.title)).toEqual(['First rust post'])
+  })
+})
+
+describe('searchEntries', () => {
+  it('should send the search query with the filter', async () => {
+    const server = new FakeMiniflux()
+    const requests: string[] = []
+    const client = new MinifluxClient({
+      baseURL: 'http://miniflux.test',
+      apiKey: 'test-api-key',
+      authType: 'api_key',
+      fetch: (input, init) => {
+        requests.push(input)
+        return server.fetch(input, init)
+      },
+    })
+    const feed = server.addFeed({ feed_url: 'https://example.com/feed.xml' })
+    server.addEntry({ feed_id: feed.id, title: 'Rust & Go', status: 'read' })
+    server.addEntry({ feed_id: feed.id, title: 'Rust again' })
+
+    const { entries } = await client.searchEntries('rust & go', { status: ['read'], limit: 5 })
+    expect(entries.map(e => e.title)).toEqual(['Rust & Go'])
+    expect(requests[0]).toBe('http://miniflux.test/v1/entries?status=read&limit=5&search=rust+%26+go')
+
+    expect((await client.searchEntries('rust', 1)).entries).toHaveLength(1)
+    expect(requests[1]).toBe('http://miniflux.test/v1/entries?limit=1&search=rust')
+  })
+})
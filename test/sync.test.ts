@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { MinifluxClient } from '../src/client.ts'
+import { MinifluxSync } from '../src/sync.ts'
+import { JsonFileSyncStore, MemorySyncStore } from '../src/store.ts'
+import { FakeMiniflux } from '../src/testing.ts'
+import { MinifluxNetworkError } from '../src/errors.ts'
+import type { Entry, Feed } from '../src/types.ts'
+
+describe('MinifluxSync', () => {
+  let server: FakeMiniflux
+  let client: MinifluxClient
+  let sync: MinifluxSync
+  let feed: Feed
+  let entries: Entry[]
+
+  const tick = () => vi.setSystemTime(Date.now() + 10_000)
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-06-01T00:00:00Z'))
+    server = new FakeMiniflux()
+    client = new MinifluxClient({
+      baseURL: 'http://miniflux.test',
+      apiKey: 'test-api-key',
+      authType: 'api_key',
+      fetch: (input, init) => server.fetch(input, init),
+    })
+    sync = new MinifluxSync(client)
+    const category = server.addCategory({ title: 'Tech' })
+    feed = server.addFeed({ feed_url: 'https://example.com/feed.xml', title: 'Example', category })
+    entries = [
+      server.addEntry({ feed_id: feed.id, title: 'First', published_at: '2024-01-01T00:00:00Z' }),
+      server.addEntry({ feed_id: feed.id, title: 'Second', published_at: '2024-01-02T00:00:00Z' }),
+    ]
+    tick()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('Pull', () => {
+    it('should pull feeds, categories and entries', async () => {
+      const result = await sync.sync()
+      expect(result).toEqual({ pulled: 2, pushed: 0, conflicts: [] })
+      expect((await sync.getFeeds()).map(item => item.title)).toEqual(['Example'])
+      expect((await sync.getCategories()).map(item => item.title)).toContain('Tech')
+      expect((await sync.getEntries()).map(entry => entry.title)).toEqual(['Second', 'First'])
+    })
+
+    it('should only pull new and changed entries on later syncs', async () => {
+      await sync.sync()
+      tick()
+      const third = server.addEntry({ feed_id: feed.id, title: 'Third', published_at: '2024-01-03T00:00:00Z' })
+      await client.toggleBookmark(entries[0].id)
+      tick()
+
+      const fetchSpy = vi.spyOn(server, 'fetch')
+      const result = await sync.sync()
+      expect(result.pulled).toBe(2)
+      const urls = fetchSpy.mock.calls.map(([url]) => String(url))
+      expect(urls).toContainEqual(expect.stringContaining(`after_entry_id=${entries[1].id}`))
+      expect(urls).toContainEqual(expect.stringContaining('changed_after='))
+      expect((await sync.getEntry(third.id))?.title).toBe('Third')
+      expect((await sync.getEntries({ starred: true })).map(entry => entry.id)).toEqual([entries[0].id])
+    })
+
+    it('should drop entries of removed feeds', async () => {
+      await sync.sync()
+      await client.deleteFeed(feed.id)
+      await sync.sync()
+      expect(await sync.getEntries()).toEqual([])
+    })
+  })
+
+  describe('Offline changes', () => {
+    beforeEach(async () => {
+      await sync.sync()
+      tick()
+    })
+
+    it('should apply changes locally and push them on sync', async () => {
+      await sync.markAsRead([entries[0].id, entries[1].id])
+      await sync.setStarred(entries[1].id, true)
+      expect((await sync.getEntries({ status: ['unread'] })).length).toBe(0)
+      expect(await sync.getPendingChanges()).toHaveLength(3)
+
+      const result = await sync.sync()
+      expect(result.pushed).toBe(3)
+      expect(await sync.getPendingChanges()).toEqual([])
+      expect(server.snapshot().entries.map(entry => [entry.status, entry.starred])).toEqual([
+        ['read', false],
+        ['read', true],
+      ])
+    })
+
+    it('should cancel changes that revert a pending change', async () => {
+      await sync.setStarred(entries[0].id, true)
+      await sync.setStarred(entries[0].id, false)
+      expect(await sync.getPendingChanges()).toEqual([])
+    })
+
+    it('should keep changes queued while the server is unreachable', async () => {
+      await sync.markAsRead([entries[0].id])
+      vi.spyOn(server, 'fetch').mockRejectedValue(new TypeError('fetch failed'))
+      await expect(sync.sync()).rejects.toBeInstanceOf(MinifluxNetworkError)
+      expect(await sync.getPendingChanges()).toHaveLength(1)
+
+      vi.restoreAllMocks()
+      await expect(sync.sync()).resolves.toMatchObject({ pushed: 1 })
+      expect(server.snapshot().entries[0].status).toBe('read')
+    })
+
+    it('should not toggle stars the server already has', async () => {
+      await sync.setStarred(entries[0].id, true)
+      // Another client stars the entry after the pull, right before the push
+      const fetch = server.fetch
+      let starredElsewhere = false
+      vi.spyOn(server, 'fetch').mockImplementation(async (input, init) => {
+        if (!starredElsewhere && /\/v1\/entries\/\d+/.test(String(input))) {
+          starredElsewhere = true
+          await fetch(`http://miniflux.test/v1/entries/${entries[0].id}/bookmark`, {
+            method: 'PUT',
+            headers: { 'X-Auth-Token': 'test-api-key' },
+          })
+        }
+        return fetch(input, init)
+      })
+
+      await expect(sync.sync()).resolves.toMatchObject({ pushed: 1 })
+      expect(starredElsewhere).toBe(true)
+      expect(server.snapshot().entries[0].starred).toBe(true)
+      expect(await sync.getPendingChanges()).toEqual([])
+    })
+
+    it('should reject changes to entries missing from the store', async () => {
+      await expect(sync.markAsRead([999])).rejects.toThrow('Entry 999 is not in the local store')
+    })
+  })
+
+  describe('Conflicts', () => {
+    beforeEach(async () => {
+      await sync.sync()
+      tick()
+    })
+
+    it('should let the most recent change win by default', async () => {
+      await client.toggleBookmark(entries[0].id)
+      tick()
+      await sync.markAsRead([entries[0].id])
+      tick()
+
+      const result = await sync.sync()
+      expect(result.conflicts).toEqual([expect.objectContaining({ resolution: 'local' })])
+      expect(result.pushed).toBe(1)
+      expect(server.snapshot().entries[0]).toMatchObject({ status: 'read', starred: true })
+    })
+
+    it('should resolve conflicts with a custom resolver', async () => {
+      const resolveConflict = vi.fn().mockReturnValue('local')
+      sync = new MinifluxSync(client, { store: new MemorySyncStore(), resolveConflict })
+      await sync.sync()
+      tick()
+      await sync.markAsRead([entries[0].id])
+      tick()
+      await client.toggleBookmark(entries[0].id)
+      tick()
+
+      const result = await sync.sync()
+      expect(resolveConflict).toHaveBeenCalledWith({
+        local: expect.objectContaining({ entryId: entries[0].id, field: 'status', value: 'read' }),
+        remote: expect.objectContaining({ id: entries[0].id, status: 'unread' }),
+      })
+      expect(result.conflicts).toEqual([expect.objectContaining({ resolution: 'local' })])
+      expect(result.pushed).toBe(1)
+      expect(server.snapshot().entries[0].status).toBe('read')
+    })
+
+    it('should drop local changes losing a conflict', async () => {
+      await sync.markAsRead([entries[0].id])
+      tick()
+      await client.toggleBookmark(entries[0].id)
+      tick()
+
+      const result = await sync.sync()
+      expect(result.conflicts).toEqual([expect.objectContaining({ resolution: 'remote' })])
+      expect(result.pushed).toBe(0)
+      expect((await sync.getEntry(entries[0].id))?.status).toBe('unread')
+    })
+
+    it('should drop local changes already applied on the server', async () => {
+      await sync.markAsRead([entries[0].id])
+      tick()
+      await client.updateEntryStatus(entries[0].id, 'read')
+      tick()
+
+      const result = await sync.sync()
+      expect(result).toMatchObject({ pushed: 0, conflicts: [] })
+      expect(await sync.getPendingChanges()).toEqual([])
+    })
+  })
+
+  describe('JsonFileSyncStore', () => {
+    let directory: string
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'miniflux-sync-'))
+    })
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true })
+    })
+
+    it('should persist the local data and pending changes', async () => {
+      const path = join(directory, 'nested', 'sync.json')
+      const store = new JsonFileSyncStore(path)
+      expect(await store.read()).toBeUndefined()
+
+      const first = new MinifluxSync(client, { store })
+      await first.sync()
+      await first.markAsRead([entries[0].id])
+      expect(JSON.parse(await readFile(path, 'utf8')).pending).toHaveLength(1)
+
+      const second = new MinifluxSync(client, { store: new JsonFileSyncStore(path) })
+      expect((await second.getEntry(entries[0].id))?.status).toBe('read')
+      expect(await second.getPendingChanges()).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { MinifluxClient } from '../src/client.ts'
+import { FakeMiniflux } from '../src/testing.ts'
+import { MinifluxAuthenticationError, MinifluxForbiddenError, MinifluxNotFoundError } from '../src/errors.ts'
+import type { Feed } from '../src/types.ts'
+
+describe('FakeMiniflux', () => {
+  let server: FakeMiniflux
+  let client: MinifluxClient
+  let feed: Feed
+
+  beforeEach(() => {
+    server = new FakeMiniflux()
+    client = new MinifluxClient({
+      baseURL: 'http://miniflux.test',
+      apiKey: 'test-api-key',
+      authType: 'api_key',
+      fetch: server.fetch,
+    })
+    const category = server.addCategory({ title: 'Tech' })
+    feed = server.addFeed({ feed_url: 'https://example.com/feed.xml', title: 'Example', category })
+    server.addEntry({ feed_id: feed.id, title: 'First', published_at: '2024-01-01T00:00:00Z' })
+    server.addEntry({ feed_id: feed.id, title: 'Second', published_at: '2024-01-02T00:00:00Z', starred: true })
+    server.addEntry({ feed_id: feed.id, title: 'Third', published_at: '2024-01-03T00:00:00Z', status: 'read' })
+  })
+
+  describe('Authentication', () => {
+    it('should reject invalid credentials', async () => {
+      const unauthorized = new MinifluxClient({
+        baseURL: 'http://miniflux.test',
+        apiKey: 'wrong',
+        authType: 'api_key',
+        fetch: server.fetch,
+      })
+      await expect(unauthorized.getMe()).rejects.toBeInstanceOf(MinifluxAuthenticationError)
+    })
+
+    it('should accept basic authentication', async () => {
+      const passwordClient = new MinifluxClient({
+        baseURL: 'http://miniflux.test',
+        username: 'admin',
+        password: 'password',
+        authType: 'password',
+        fetch: server.fetch,
+      })
+      await expect(passwordClient.getMe()).resolves.toMatchObject({ username: 'admin', is_admin: true })
+    })
+
+    it('should restrict admin endpoints', async () => {
+      server.addUser({ username: 'reader', password: 'secret', apiKey: 'reader-key' })
+      const reader = new MinifluxClient({
+        baseURL: 'http://miniflux.test',
+        apiKey: 'reader-key',
+        authType: 'api_key',
+        fetch: server.fetch,
+      })
+      await expect(reader.getUsers()).rejects.toBeInstanceOf(MinifluxForbiddenError)
+      await expect(reader.getFeeds()).resolves.toEqual([])
+    })
+  })
+
+  describe('Entries', () => {
+    it('should apply filters, ordering and pagination', async () => {
+      const unread = await client.getEntries({ status: ['unread'], direction: 'desc' })
+      expect(unread.total).toBe(2)
+      expect(unread.entries.map(entry => entry.title)).toEqual(['Second', 'First'])
+      expect(unread.entries[0].feed?.title).toBe('Example')
+
+      const starred = await client.getEntries({ starred: true })
+      expect(starred.entries.map(entry => entry.title)).toEqual(['Second'])
+
+      const page = await client.getEntries({ limit: 1, offset: 1 })
+      expect(page.total).toBe(3)
+      expect(page.entries.map(entry => entry.title)).toEqual(['Second'])
+
+      const after = await client.getEntries({ published_after: Date.parse('2024-01-01T12:00:00Z') / 1000 })
+      expect(after.entries.map(entry => entry.title)).toEqual(['Second', 'Third'])
+    })
+
+    it('should search entries', async () => {
+      const result = await client.getEntries({ search: 'thi' })
+      expect(result.entries.map(entry => entry.title)).toEqual(['Third'])
+    })
+
+    it('should page through entries with the iterators', async () => {
+      const titles: string[] = []
+      for await (const entry of client.iterateFeedEntries(feed.id, {}, { pageSize: 1 })) {
+        titles.push(entry.title)
+      }
+      expect(titles).toEqual(['Third', 'Second', 'First'])
+    })
+
+    it('should update entry status and bookmarks', async () => {
+      const [first] = (await client.getEntries({ limit: 1 })).entries
+      await client.updateEntryStatus(first.id, 'read')
+      await client.toggleBookmark(first.id)
+      expect(await client.getEntry(first.id)).toMatchObject({ status: 'read', starred: true })
+
+      const report = await client.markEntriesRead()
+      expect(report.succeeded).toBe(1)
+      expect((await client.getEntries({ status: ['unread'] })).total).toBe(0)
+    })
+
+    it('should count read and unread entries per feed', async () => {
+      expect(await client.getCounters()).toEqual({
+        reads: { [feed.id]: 1 },
+        unreads: { [feed.id]: 2 },
+      })
+    })
+
+  })
+
+  describe('Feeds and categories', () => {
+    it('should create, update and delete feeds', async () => {
+      const [category] = await client.getCategories()
+      await client.createFeed('https://other.example/rss', category.id)
+      const created = (await client.getFeeds()).find(f => f.feed_url === 'https://other.example/rss')!
+      const updated = await client.updateFeed(created.id, { title: 'Other' })
+      expect(updated.title).toBe('Other')
+      expect((await client.getFeeds()).map(f => f.title)).toEqual(['Example', 'Other'])
+
+      await client.deleteFeed(created.id)
+      await expect(client.getFeed(created.id)).rejects.toBeInstanceOf(MinifluxNotFoundError)
+    })
+
+    it('should list category entries and mark them as read', async () => {
+      const [category] = await client.getCategories()
+      expect((await client.getCategoryEntries(category.id)).total).toBe(3)
+      await client.markCategoryAsRead(category.id)
+      expect((await client.getCategoryEntries(category.id, { status: ['unread'] })).total).toBe(0)
+    })
+
+    it('should list categories with counts and their feeds', async () => {
+      const empty = await client.createCategory('Empty')
+      expect(await client.getCategories({ counts: true })).toEqual([
+        expect.objectContaining({ title: 'Tech', feed_count: 1, total_unread: 2 }),
+        expect.objectContaining({ title: 'Empty', feed_count: 0, total_unread: 0 }),
+      ])
+      expect((await client.getCategories())[0]).not.toHaveProperty('feed_count')
+
+      const [category] = await client.getCategories()
+      expect(await client.getCategoryFeeds(category.id)).toEqual([feed])
+      expect(await client.getCategoryFeeds(empty.id)).toEqual([])
+
+      const nested = await client.getCategoriesWithFeeds({ counts: true })
+      expect(nested.map(c => [c.title, c.feed_count, c.feeds.map(f => f.id)])).toEqual([
+        ['Tech', 1, [feed.id]],
+        ['Empty', 0, []],
+      ])
+    })
+
+    it('should hide categories globally', async () => {
+      const [category] = await client.getCategories()
+      const updated = await client.updateCategory(category.id, { hide_globally: true })
+      expect(updated).toEqual({ ...category, hide_globally: true })
+      expect((await client.updateCategory(category.id, 'News')).title).toBe('News')
+    })
+
+    it('should round-trip OPML', async () => {
+      const opml = await client.exportOPML()
+      const other = new FakeMiniflux()
+      const otherClient = new MinifluxClient({
+        baseURL: 'http://miniflux.test',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        fetch: other.fetch,
+      })
+      await otherClient.importOPML(opml)
+      const [imported] = await otherClient.getFeeds()
+      expect(imported).toMatchObject({ feed_url: feed.feed_url, title: 'Example', category: { title: 'Tech' } })
+    })
+  })
+
+  describe('Response validation', () => {
+    it('should serve responses matching the declared types', async () => {
+      const strictClient = new MinifluxClient({
+        baseURL: 'http://miniflux.test',
+        apiKey: 'test-api-key',
+        authType: 'api_key',
+        fetch: server.fetch,
+        validation: 'strict',
+      })
+      await expect(strictClient.getMe()).resolves.toHaveProperty('username')
+      await expect(strictClient.getFeeds()).resolves.toHaveLength(1)
+      await expect(strictClient.getEntries()).resolves.toHaveProperty('total', 3)
+      await expect(strictClient.getCounters()).resolves.toHaveProperty('unreads')
+      await expect(strictClient.importEntry(feed.id, { url: 'https://example.com/new' })).resolves.toHaveProperty(
+        'created',
+        true
+      )
+      await expect(strictClient.getFeedEntries(feed.id)).resolves.toHaveProperty('total', 4)
+    })
+  })
+
+  describe('HTTP server', () => {
+    afterEach(async () => {
+      await server.close()
+    })
+
+    it('should serve the API over HTTP', async () => {
+      const baseURL = await server.listen()
+      const httpClient = new MinifluxClient({ baseURL, apiKey: 'test-api-key', authType: 'api_key' })
+      await expect(httpClient.healthcheck()).resolves.toBe('OK')
+      await expect(httpClient.getFeeds()).resolves.toHaveLength(1)
+      await httpClient.updateCategory((await httpClient.getCategories())[0].id, 'Renamed')
+      expect(server.snapshot().categories[0].title).toBe('Renamed')
+    })
+  })
+})
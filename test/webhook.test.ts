@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createHmac } from 'node:crypto'
+import { Readable } from 'node:stream'
+import {
+  verifyWebhookSignature,
+  parseWebhookEvent,
+  createWebhookHandler,
+} from '../src/webhook.ts'
+import { MinifluxWebhookError } from '../src/errors.ts'
+import type { NodeServerResponse } from '../src/types.ts'
+
+describe('Webhook', () => {
+  const secret = 'webhook-secret'
+  const sign = (body: string) => createHmac('sha256', secret).update(body).digest('hex')
+
+  const newEntriesBody = JSON.stringify({
+    event_type: 'new_entries',
+    feed: {
+      id: 1,
+      user_id: 1,
+      category_id: 2,
+      feed_url: 'https://example.com/feed.xml',
+      site_url: 'https://example.com',
+      title: 'Example',
+      checked_at: '2024-01-01T00:00:00Z',
+    },
+    entries: [{ id: 10, user_id: 1, feed_id: 1, title: 'Entry', url: 'https://example.com/1', status: 'unread' }],
+  })
+
+  const saveEntryBody = JSON.stringify({
+    event_type: 'save_entry',
+    entry: { id: 10, user_id: 1, feed_id: 1, title: 'Entry', url: 'https://example.com/1', status: 'read' },
+  })
+
+  describe('verifyWebhookSignature', () => {
+    it('should accept a valid signature', async () => {
+      await expect(verifyWebhookSignature(newEntriesBody, sign(newEntriesBody), secret)).resolves.toBe(true)
+      await expect(
+        verifyWebhookSignature(new TextEncoder().encode(newEntriesBody), sign(newEntriesBody).toUpperCase(), secret)
+      ).resolves.toBe(true)
+    })
+
+    it('should reject invalid or missing signatures', async () => {
+      await expect(verifyWebhookSignature(newEntriesBody, sign('other'), secret)).resolves.toBe(false)
+      await expect(verifyWebhookSignature(newEntriesBody, 'abc', secret)).resolves.toBe(false)
+      await expect(verifyWebhookSignature(newEntriesBody, null, secret)).resolves.toBe(false)
+      await expect(verifyWebhookSignature(newEntriesBody, sign(newEntriesBody), 'wrong')).resolves.toBe(false)
+    })
+  })
+
+  describe('parseWebhookEvent', () => {
+    it('should parse new_entries events', () => {
+      const event = parseWebhookEvent(newEntriesBody)
+      expect(event.event_type).toBe('new_entries')
+      if (event.event_type === 'new_entries') {
+        expect(event.feed.category_id).toBe(2)
+        expect(event.entries[0].id).toBe(10)
+      }
+    })
+
+    it('should parse save_entry events', () => {
+      const event = parseWebhookEvent(saveEntryBody, 'save_entry')
+      expect(event.event_type).toBe('save_entry')
+      if (event.event_type === 'save_entry') {
+        expect(event.entry.title).toBe('Entry')
+      }
+    })
+
+    it('should reject malformed and unknown events', () => {
+      expect(() => parseWebhookEvent('{')).toThrow(MinifluxWebhookError)
+      expect(() => parseWebhookEvent('{"event_type":"deleted"}')).toThrow('Unknown webhook event type')
+      expect(() => parseWebhookEvent('{"event_type":"save_entry"}')).toThrow('missing entry')
+    })
+  })
+
+  describe('createWebhookHandler', () => {
+    const createRequest = (body: string, signature: string) =>
+      new Request('http://localhost/webhook', {
+        method: 'POST',
+        headers: { 'X-Miniflux-Signature': signature, 'X-Miniflux-Event-Type': 'new_entries' },
+        body,
+      })
+
+    it('should handle verified Fetch requests', async () => {
+      const onEvent = vi.fn()
+      const handler = createWebhookHandler({ secret, onEvent })
+      const response = await handler.handleRequest(createRequest(newEntriesBody, sign(newEntriesBody)))
+      expect(response.status).toBe(200)
+      expect(onEvent).toHaveBeenCalledWith(expect.objectContaining({ event_type: 'new_entries' }))
+    })
+
+    it('should reject Fetch requests with an invalid signature', async () => {
+      const onEvent = vi.fn()
+      const handler = createWebhookHandler({ secret, onEvent })
+      const response = await handler.handleRequest(createRequest(newEntriesBody, sign('tampered')))
+      expect(response.status).toBe(401)
+      expect(onEvent).not.toHaveBeenCalled()
+    })
+
+    it('should answer 500 when the event callback fails', async () => {
+      const handler = createWebhookHandler({
+        secret,
+        onEvent: () => {
+          throw new Error('boom')
+        },
+      })
+      const response = await handler.handleRequest(createRequest(newEntriesBody, sign(newEntriesBody)))
+      expect(response.status).toBe(500)
+    })
+
+    it('should handle Node http requests', async () => {
+      const onEvent = vi.fn()
+      const handler = createWebhookHandler({ secret, onEvent })
+      const req = Object.assign(Readable.from([Buffer.from(saveEntryBody)]), {
+        method: 'POST',
+        headers: { 'x-miniflux-signature': sign(saveEntryBody), 'x-miniflux-event-type': 'save_entry' },
+      })
+      const res: NodeServerResponse = { statusCode: 0, setHeader: vi.fn(), end: vi.fn() }
+      await handler.handleNodeRequest(req, res)
+      expect(res.statusCode).toBe(200)
+      expect(res.end).toHaveBeenCalledWith('OK')
+      expect(onEvent.mock.calls[0][0].event_type).toBe('save_entry')
+    })
+
+    it('should reject Node http requests with a bad payload', async () => {
+      const body = '{"event_type":"unknown"}'
+      const handler = createWebhookHandler({ secret, onEvent: vi.fn() })
+      const req = Object.assign(Readable.from([body]), {
+        method: 'POST',
+        headers: { 'x-miniflux-signature': sign(body) },
+      })
+      const res: NodeServerResponse = { statusCode: 0, setHeader: vi.fn(), end: vi.fn() }
+      await handler.handleNodeRequest(req, res)
+      expect(res.statusCode).toBe(400)
+    })
+  })
+})